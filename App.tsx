@@ -1,21 +1,56 @@
 
-import React, { useState, useEffect } from 'react';
-import { Activity, RefreshCw, AlertTriangle, ListFilter, BarChart2, Zap } from 'lucide-react';
-import { Candle, SignalData, ActiveTrade, MarketType, ClosedTrade } from './types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Activity, RefreshCw, AlertTriangle, ListFilter, BarChart2, Zap, Clock, Layers, Database, Upload, Boxes } from 'lucide-react';
+import { Candle, SignalData, Position, ClosedTrade, Timeframe, ProviderId, ExitReason, TradeManagementSettings, BacktestResult, AccountSettings, SignalRecord, ScanSettings, AnalysisBackendId, AnalysisBackendSettings, ChartLevel, ChatMessage, AlertSettings } from './types';
 import CandleChart from './components/CandleChart';
 import SignalCard from './components/SignalCard';
+import AnalysisBackendPicker from './components/AnalysisBackendPicker';
+import AnalystChat from './components/AnalystChat';
+import AlertSettingsPanel from './components/AlertSettingsPanel';
 import PnLTracker from './components/PnLTracker';
 import TradeJournal from './components/TradeJournal';
-import { scanAllMarkets } from './services/geminiService';
-import { fetchMarketData } from './utils/marketData';
-
-// Full market list to scan
-const MARKET_PAIRS = [
-  'EURUSD', 'GBPUSD', 'USDJPY', 'USDCHF', 'USDCAD', 'AUDUSD', 'NZDUSD', // Majors
-  'EURJPY', 'GBPJPY', 'EURGBP', 'EURCAD', 'EURAUD', 'AUDJPY', 'CADJPY', 'CHFJPY', 'GBPAUD', 'GBPCAD', // Minors
-  'XAUUSD', 'XAUEUR', 'XAUAUD', // Metals
-  'BTCUSD', 'BTCEUR', 'BTCGBP', 'BTCJPY' // Bitcoin Pairs
-];
+import BridgeStatus from './components/BridgeStatus';
+import BacktestChart from './components/BacktestChart';
+import RequestQuota from './components/RequestQuota';
+import SignalHistory from './components/SignalHistory';
+import { scanAllMarkets } from './services/analysis/scan';
+import { getBackend, listBackends } from './services/analysis';
+import { subscribeFixtures } from './services/analysis/fixtures';
+import { analystUnavailable, askAnalyst } from './services/analysis/analyst';
+import { fetchMarketData, loadCachedMarketData, backfillMarketData, extendHistory, FetchOptions } from './utils/marketData';
+import { listProviders, getProvider, replayProvider } from './services/providers';
+import { parseCandleFile } from './services/providers/replay';
+import { loadClosedTrades, saveClosedTrades, loadOpenPositions, saveOpenPosition, deleteOpenPosition } from './utils/journalStore';
+import { accountRateAt, positionQuotePnL } from './utils/pnl';
+import { INSTRUMENT_LIST, getInstrument } from './utils/instruments';
+import { mergeTrades } from './utils/journal';
+import { TIMEFRAMES, TIMEFRAME_LIST, HIGHER_TIMEFRAMES } from './utils/timeframes';
+import { applyHigherTimeframeFilter } from './utils/strategy';
+import { managePosition } from './utils/tradeManager';
+import { loadSettings, saveSettings, TRADE_MANAGEMENT_KEY, DEFAULT_TRADE_MANAGEMENT, ACCOUNT_KEY, DEFAULT_ACCOUNT, SCAN_KEY, DEFAULT_SCAN, analysisBackendKey, ALERTS_KEY, DEFAULT_ALERTS, OANDA_KEY, DEFAULT_OANDA } from './utils/settings';
+import { applyPositionSizing } from './utils/sizing';
+import { pricesFromCandles } from './utils/currency';
+import { candleSpread, closePrice, latestQuote, openPrice, quoteAt } from './utils/pricing';
+import { subscribeToRelay } from './services/tickRelay';
+import { notifySignal } from './services/alerts';
+import { applyRelayEvent } from './utils/liveCandles';
+import { applyOutcomes, createSignalRecord, isDuplicateSignal } from './utils/signalHistory';
+import { loadSignalHistory, saveSignalRecords } from './utils/signalStore';
+import { pruneFixtures, saveFixture } from './utils/fixtureStore';
+
+// Full market list to scan (every instrument in the registry)
+const MARKET_PAIRS = INSTRUMENT_LIST.map(instrument => instrument.symbol);
+const SCAN_BATCH_SIZES = [3, 4, 6, 9, 18];
+const SCAN_RECENT_CANDLES = [5, 10, 20, 30];
+
+const loadBackendSettings = (id: AnalysisBackendId): AnalysisBackendSettings =>
+  loadSettings(analysisBackendKey(id), getBackend(id).defaults);
+
+// Optional push feed from tick_relay.js; without it prices are polled
+const TICK_RELAY_URL = process.env.TICK_RELAY_URL || '';
+
+// How often open signals from another timeframe fetch candles to check their outcome
+const OUTCOME_REFRESH_MS = 5 * 60 * 1000;
 
 const App: React.FC = () => {
   // Store candle data for ALL pairs
@@ -26,138 +61,447 @@ const App: React.FC = () => {
   const [initialLoad, setInitialLoad] = useState(true);
   // UI State
   const [selectedPair, setSelectedPair] = useState('EURUSD'); // Which chart to show
-  const [apiKeyError, setApiKeyError] = useState(false);
+  // Why the analysis backend cannot run (e.g. no API key); scans then use the rules engine
+  const [backendError, setBackendError] = useState<string | null>(null);
   const [isLive, setIsLive] = useState(false);
   
-  // Active Trade State
-  const [activeTrade, setActiveTrade] = useState<ActiveTrade | null>(null);
+  // Open Positions State
+  const [positions, setPositions] = useState<Position[]>([]);
   // Journal State
   const [closedTrades, setClosedTrades] = useState<ClosedTrade[]>([]);
+  // Every BUY/SELL suggested, with its outcome so far
+  const [signalHistory, setSignalHistory] = useState<SignalRecord[]>([]);
   // Data Source State
-  const [useMT5, setUseMT5] = useState(false);
+  const [providerId, setProviderId] = useState<ProviderId>('cryptocompare');
+  // OANDA account token, entered here so it is never built into the bundle
+  const [oandaToken, setOandaToken] = useState(() => loadSettings(OANDA_KEY, DEFAULT_OANDA).apiKey);
+  // Timeframe State
+  const [timeframe, setTimeframe] = useState<Timeframe>('M5');
+  const [htfFilter, setHtfFilter] = useState<Timeframe | 'OFF'>('OFF');
+  // Last error from a strict provider (MT5 bridge); null when the feed is healthy
+  const [feedError, setFeedError] = useState<string | null>(null);
+  // Whether the tick relay stream is open
+  const [relayConnected, setRelayConnected] = useState(false);
+  // Last backtest run from the signal card (drawn on the chart of its pair)
+  const [backtest, setBacktest] = useState<{ pair: string; result: BacktestResult } | null>(null);
+  // Account used for risk based position sizing
+  const [account, setAccount] = useState<AccountSettings>(() => loadSettings(ACCOUNT_KEY, DEFAULT_ACCOUNT));
+  // Automatic SL/TP management settings
+  const [tradeManagement, setTradeManagement] = useState<TradeManagementSettings>(
+    () => loadSettings(TRADE_MANAGEMENT_KEY, DEFAULT_TRADE_MANAGEMENT)
+  );
+  // Pairs per model request and candles per pair in the prompt
+  const [scanSettings, setScanSettings] = useState<ScanSettings>(() => loadSettings(SCAN_KEY, DEFAULT_SCAN));
+  // Model, temperature and timeout of the selected analysis backend
+  const [backendSettings, setBackendSettings] = useState<AnalysisBackendSettings>(() => loadBackendSettings(scanSettings.backend));
+  // Analyst conversations by signal id, the one waiting for an answer, and the levels drawn on the chart
+  const [chats, setChats] = useState<Record<string, ChatMessage[]>>({});
+  const [chatPending, setChatPending] = useState<string | null>(null);
+  const [chartLevels, setChartLevels] = useState<ChartLevel[]>([]);
+  // Desktop/sound/webhook alerts for strong live signals
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(() => loadSettings(ALERTS_KEY, DEFAULT_ALERTS));
+
+  // Fetch through the selected provider. Strict providers (MT5) throw when
+  // unreachable: keep the error for the banner and return null.
+  // Cancelled requests also return null, without touching the banner.
+  const loadCandles = async (pair: string, tf: Timeframe = timeframe, options: FetchOptions = {}): Promise<Candle[] | null> => {
+    try {
+      const candles = await fetchMarketData(pair, providerId, tf, options);
+      // Answered after the pair/timeframe/provider changed
+      if (options.signal?.aborted) return null;
+      setFeedError(null);
+      return candles;
+    } catch (e) {
+      if (options.signal?.aborted) return null;
+      setFeedError(e instanceof Error ? e.message : String(e));
+      return null;
+    }
+  };
+
+  // Apply a change to the signal history and persist the records it touched
+  const updateSignalHistory = (update: (prev: SignalRecord[]) => { history: SignalRecord[]; changed: SignalRecord[] }) => {
+    setSignalHistory(prev => {
+      const { history, changed } = update(prev);
+      if (changed.length > 0) saveSignalRecords(changed).catch(e => console.error("Signal Store Error:", e));
+      return history;
+    });
+  };
+
+  // Keep every BUY/SELL (rejected ones too) with what the engine was given, for outcome tracking
+  const recordSignal = (signal: SignalData, mode: SignalRecord['mode'], scanned: Record<string, Candle[]>) => {
+    const record = createSignalRecord(signal, { mode, providerId, timeframe, marketData: scanned });
+    if (!record) return;
+    updateSignalHistory(prev => isDuplicateSignal(prev, record) ? { history: prev, changed: [] } : { history: [...prev, record], changed: [record] });
+  };
+
+  // A later scan returning the same pair, direction and timeframe keeps the signal id,
+  // so the analyst conversation carries on; anything else starts a new one
+  const showSignal = (signal: SignalData) => {
+    setActiveSignal(prev => ({
+      ...signal,
+      id: prev?.id && prev.best_pair === signal.best_pair && prev.signal === signal.signal && prev.timeframe === signal.timeframe
+        ? prev.id
+        : `${Date.now()}-${signal.best_pair}`
+    }));
+  };
+
+  // Higher timeframe confirmation: tag the signal with the H1/H4 trend if the filter is on
+  const confirmWithHigherTimeframe = async (signal: SignalData): Promise<SignalData> => {
+    if (htfFilter === 'OFF' || signal.signal === 'NO_SIGNAL') return signal;
+    const htfCandles = await loadCandles(signal.best_pair, htfFilter);
+    if (!htfCandles) return signal;
+    return applyHigherTimeframeFilter(signal, htfCandles, htfFilter);
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    // Cached candles belong to the old provider
+    setMarketData({});
+    setBacktest(null);
+    setFeedError(null);
+    setProviderId(id);
+  };
 
-  // Helper for sequential delay
-  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  // A new token reloads the candles it was refused
+  const handleOandaTokenChange = (apiKey: string) => {
+    if (apiKey === oandaToken) return;
+    saveSettings(OANDA_KEY, { apiKey });
+    setOandaToken(apiKey);
+    setMarketData({});
+    setFeedError(null);
+  };
 
-  // Determine market type helper
-  const getMarketType = (pair: string): MarketType => {
-    if (pair.includes('BTC') || pair.includes('ETH')) return MarketType.CRYPTO;
-    if (pair.includes('XAU')) return MarketType.METALS;
-    return MarketType.FOREX;
+  // Load a CSV/JSON candle file into the replay provider
+  const handleReplayFile = async (file: File) => {
+    try {
+      const data = parseCandleFile(await file.text(), selectedPair);
+      replayProvider.load(data);
+      const pairs = Object.keys(data);
+      setMarketData({});
+      if (pairs.length > 0 && !pairs.includes(selectedPair)) setSelectedPair(pairs[0]);
+      setProviderId('replay');
+    } catch (e) {
+      console.error("Replay file error:", e);
+      alert("Could not parse candle file. Expected JSON candles or CSV with time,open,high,low,close.");
+    }
   };
 
-  const getContractSize = (pair: string) => {
-    if (pair.includes('BTC') || pair.includes('ETH')) return 1;
-    if (pair.includes('XAU')) return 100;
-    return 100000;
+  const handleTimeframeChange = (tf: Timeframe) => {
+    // Cached candles belong to the old timeframe
+    setMarketData({});
+    setBacktest(null);
+    setActiveSignal(null);
+    setTimeframe(tf);
+    if (htfFilter !== 'OFF' && TIMEFRAMES[htfFilter].seconds <= TIMEFRAMES[tf].seconds) {
+      setHtfFilter('OFF');
+    }
   };
 
   // Trade Logic
+  const hasOpenPosition = (pair: string) => positions.some(p => p.pair === pair);
+
   const handleExecuteTrade = (signal: SignalData) => {
-    if (activeTrade) return; // Prevent double trade
+    if (hasOpenPosition(signal.best_pair)) return; // Prevent double trade on the same pair
+    if (signal.validation?.status === 'REJECTED') return; // Failed the sanity checks
+    if (signal.htf_trend && !signal.htf_trend.aligned) return; // Against the higher-timeframe trend
     
-    const newTrade: ActiveTrade = {
+    // Fill on the ask for a BUY, the bid for a SELL
+    const type = signal.signal === 'BUY' ? 'BUY' : 'SELL';
+    const candles = marketData[signal.best_pair];
+    const spread = candleSpread(signal.best_pair, candles?.[candles.length - 1]);
+
+    const newPosition: Position = {
+      id: Date.now().toString(),
       pair: signal.best_pair,
-      type: signal.signal === 'BUY' ? 'BUY' : 'SELL',
-      entryPrice: signal.entry_price,
+      type,
+      entryPrice: openPrice(type, quoteAt(signal.entry_price, spread)),
       lotSize: signal.lot_size,
+      initialLotSize: signal.lot_size,
       openTime: Date.now(),
-      marketType: getMarketType(signal.best_pair)
+      marketType: getInstrument(signal.best_pair).assetClass,
+      stopLoss: signal.stop_loss,
+      stopType: 'INITIAL',
+      tp1: signal.tp1,
+      tp2: signal.tp2,
+      tp3: signal.tp3,
+      targetsHit: 0
     };
     
-    setActiveTrade(newTrade);
+    setPositions(prev => [...prev, newPosition]);
+    saveOpenPosition(newPosition).catch(e => console.error("Journal Store Error:", e));
     // If trade executed on a different pair, switch view to it for convenience
     if (signal.best_pair !== selectedPair) {
       setSelectedPair(signal.best_pair);
     }
   };
 
-  const getCurrentTradePrice = () => {
-    if (!activeTrade) return 0;
-    const candles = marketData[activeTrade.pair];
-    if (candles && candles.length > 0) {
-      return candles[candles.length - 1].close;
-    }
-    return activeTrade.entryPrice; // Fallback
+  // Latest close of every loaded pair (cross rates for sizing and PnL conversion)
+  const latestPrices = pricesFromCandles(marketData);
+
+  // Open positions are valued at the price they would close at (bid for a BUY, ask for a SELL)
+  const livePrices: Record<string, number> = { ...latestPrices };
+  positions.forEach(p => {
+    const quote = latestQuote(p.pair, marketData[p.pair]);
+    livePrices[p.pair] = quote ? closePrice(p.type, quote) : p.entryPrice;
+  });
+
+  // Journal entry for a full or partial exit of a position, in the account currency
+  const toClosedTrade = (position: Position, closePrice: number, lots: number, exitReason: ExitReason, closeTime: number, leg = 0): ClosedTrade => {
+    const conversionRate = accountRateAt(position.pair, closePrice, account.currency, latestPrices);
+    return {
+      id: `${closeTime}-${position.id}-${leg}`,
+      pair: position.pair,
+      type: position.type,
+      entryPrice: position.entryPrice,
+      closePrice: closePrice,
+      lotSize: lots,
+      pnl: positionQuotePnL({ ...position, lotSize: lots }, closePrice) * conversionRate,
+      openTime: position.openTime,
+      closeTime,
+      exitReason,
+      positionId: position.id,
+      currency: account.currency,
+      conversionRate
+    };
   };
 
-  const handleCloseTrade = () => {
-    if (!activeTrade) return;
+  // The scan decides direction and levels; the lot size comes from the account risk.
+  // Recomputed only when the signal or the account changes, not on every price tick.
+  const sizedSignal = useMemo(
+    () => activeSignal && applyPositionSizing(activeSignal, account, latestPrices),
+    [activeSignal, account]
+  );
 
-    const closePrice = getCurrentTradePrice();
-    const contractSize = getContractSize(activeTrade.pair);
-    const direction = activeTrade.type === 'BUY' ? 1 : -1;
-    const pnl = (closePrice - activeTrade.entryPrice) * (activeTrade.lotSize * contractSize) * direction;
+  const handleAccountChange = (settings: AccountSettings) => {
+    // Backtest figures are in the old account currency
+    if (settings.currency !== account.currency) setBacktest(null);
+    setAccount(settings);
+    saveSettings(ACCOUNT_KEY, settings);
+  };
 
-    const closedTrade: ClosedTrade = {
-      id: Date.now().toString(),
-      pair: activeTrade.pair,
-      type: activeTrade.type,
-      entryPrice: activeTrade.entryPrice,
-      closePrice: closePrice,
-      lotSize: activeTrade.lotSize,
-      pnl: pnl,
-      closeTime: Date.now()
-    };
+  const handleClosePosition = (id: string) => {
+    const position = positions.find(p => p.id === id);
+    if (!position) return;
+
+    const closedTrade = toClosedTrade(position, livePrices[position.pair], position.lotSize, 'MANUAL', Date.now());
 
     setClosedTrades(prev => [...prev, closedTrade]);
-    setActiveTrade(null);
+    setPositions(prev => prev.filter(p => p.id !== id));
+    saveClosedTrades([closedTrade])
+      .then(() => deleteOpenPosition(id))
+      .catch(e => console.error("Journal Store Error:", e));
+  };
+
+  const handleTradeManagementChange = (settings: TradeManagementSettings) => {
+    setTradeManagement(settings);
+    saveSettings(TRADE_MANAGEMENT_KEY, settings);
+  };
+
+  const handleScanSettingsChange = (settings: ScanSettings) => {
+    setScanSettings(settings);
+    saveSettings(SCAN_KEY, settings);
+  };
+
+  const handleBackendChange = (id: AnalysisBackendId) => {
+    handleScanSettingsChange({ ...scanSettings, backend: id });
+    setBackendSettings(loadBackendSettings(id));
+    setBackendError(null);
+  };
+
+  const handleBackendSettingsChange = (settings: AnalysisBackendSettings) => {
+    setBackendSettings(settings);
+    saveSettings(analysisBackendKey(scanSettings.backend), settings);
+  };
+
+  const handleAlertSettingsChange = (settings: AlertSettings) => {
+    setAlertSettings(settings);
+    saveSettings(ALERTS_KEY, settings);
+  };
+
+  // Automatic SL/TP management: run every open position against its fresh candles
+  useEffect(() => {
+    const exits: ClosedTrade[] = [];
+    const updated: Position[] = [];
+    const closedIds: string[] = [];
+
+    positions.forEach(position => {
+      const candles = marketData[position.pair];
+      if (!candles) return;
+      const result = managePosition(position, candles, tradeManagement);
+      result.exits.forEach((leg, i) => {
+        exits.push(toClosedTrade(position, leg.price, leg.lots, leg.reason, leg.time, position.targetsHit + i));
+      });
+      if (result.closed) closedIds.push(position.id);
+      else if (result.position !== position) updated.push(result.position);
+    });
+
+    if (exits.length === 0 && updated.length === 0) return;
+
+    setPositions(prev => prev
+      .filter(p => !closedIds.includes(p.id))
+      .map(p => updated.find(u => u.id === p.id) || p));
+    if (exits.length > 0) setClosedTrades(prev => [...prev, ...exits]);
+
+    saveClosedTrades(exits)
+      .then(() => Promise.all([
+        ...closedIds.map(id => deleteOpenPosition(id)),
+        ...updated.map(p => saveOpenPosition(p))
+      ]))
+      .catch(e => console.error("Journal Store Error:", e));
+  }, [marketData, tradeManagement]);
+
+  const handleImportTrades = (imported: ClosedTrade[]) => {
+    setClosedTrades(prev => mergeTrades(prev, imported));
+    saveClosedTrades(imported).catch(e => console.error("Journal Store Error:", e));
   };
 
+  // Restore journal and open positions from the previous session
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const [trades, openPositions, signals] = await Promise.all([loadClosedTrades(), loadOpenPositions(), loadSignalHistory()]);
+        setClosedTrades(prev => mergeTrades(trades, prev));
+        setPositions(prev => [...openPositions.filter(o => !prev.some(p => p.id === o.id)), ...prev]);
+        setSignalHistory(prev => [...signals.filter(s => !prev.some(p => p.id === s.id)), ...prev]);
+      } catch (e) {
+        console.error("Journal Store Error:", e);
+      }
+    };
+    restore();
+  }, []);
+
+  // Keep every model call of a scan as a replayable fixture (npm run eval)
+  useEffect(() => {
+    pruneFixtures().catch(e => console.error("Fixture Store Error:", e));
+  }, []);
+
+  useEffect(() => subscribeFixtures(fixture => {
+    saveFixture({ ...fixture, providerId }).catch(e => console.error("Fixture Store Error:", e));
+  }), [providerId]);
+
+  // Stable key so the refresh loop only restarts when the set of position pairs changes
+  const positionPairs = Array.from(new Set<string>(positions.map(p => p.pair))).sort();
+  const positionPairsKey = positionPairs.join(',');
+
   // Load live data on mount
   useEffect(() => {
-    let isMounted = true;
+    // Aborting drops this effect's requests that are still waiting for quota
+    const controller = new AbortController();
+    const { signal } = controller;
 
     const loadAllPairs = async () => {
-      // 1. Fetch Selected Pair FIRST (Immediate UI feedback)
-      if (isMounted) {
-         const selectedData = await fetchMarketData(selectedPair, useMT5);
-         setMarketData(prev => ({ ...prev, [selectedPair]: selectedData }));
-         if (initialLoad) setInitialLoad(false);
+      // 1. Fetch Selected Pair FIRST (Immediate UI feedback), showing last session's candles meanwhile
+      const cachedSelected = await loadCachedMarketData(selectedPair, providerId, timeframe);
+      if (signal.aborted) return;
+      if (cachedSelected) {
+        setMarketData(prev => ({ ...prev, [selectedPair]: cachedSelected.candles }));
+        setInitialLoad(false);
       }
-
-      // 2. Fetch the rest sequentially to avoid Rate Limits
+      const selectedData = await loadCandles(selectedPair, timeframe, { priority: 'high', signal });
+      if (selectedData) setMarketData(prev => ({ ...prev, [selectedPair]: selectedData }));
+      if (initialLoad && !signal.aborted) setInitialLoad(false);
+      // Feed is down (strict provider): don't hammer it for every other pair
+      if (!selectedData) return;
+
+      // 2. Queue the rest at low priority: the scheduler paces them within the provider's
+      // budget, and the selected pair or an open position jumps ahead whenever it refreshes.
       // Only do full scan if not in live mode to save resources
       if (!isLive) {
-        for (const pair of MARKET_PAIRS) {
-          if (!isMounted) break;
-          if (pair === selectedPair) continue; // Already fetched
+        await Promise.all(MARKET_PAIRS.filter(pair => pair !== selectedPair).map(async pair => {
+          // Stored candles fetched within the current bucket need no request
+          const cached = await loadCachedMarketData(pair, providerId, timeframe);
+          if (signal.aborted) return;
+          if (cached) setMarketData(prev => ({ ...prev, [pair]: cached.candles }));
+          if (cached?.fresh) return;
+
+          const candles = await loadCandles(pair, timeframe, { priority: 'low', signal });
+          if (candles) setMarketData(prev => ({ ...prev, [pair]: candles }));
+        }));
+      }
 
-          const candles = await fetchMarketData(pair, useMT5);
-          setMarketData(prev => ({ ...prev, [pair]: candles }));
-          
-          // Throttling: Wait 800ms between requests to stay polite to the free API
-          await delay(800);
-        }
+      // 3. Deepen the selected pair's stored history (backtests), one page at a time
+      const history = await backfillMarketData(selectedPair, providerId, timeframe, signal);
+      if (history && !signal.aborted) {
+        setMarketData(prev => prev[selectedPair] ? { ...prev, [selectedPair]: extendHistory(prev[selectedPair], history) } : prev);
       }
     };
 
     loadAllPairs();
     
     // Background Refresh Loop
-    // Responsible for keeping Selected Pair AND Active Trade Pair updated
-    const interval = setInterval(async () => {
-       if(!isMounted) return;
-       
+    // Responsible for keeping Selected Pair AND every open position's pair updated
+    const interval = setInterval(() => {
        const pairsToUpdate = new Set<string>();
        pairsToUpdate.add(selectedPair);
-       if (activeTrade) pairsToUpdate.add(activeTrade.pair);
+       positionPairs.forEach(pair => pairsToUpdate.add(pair));
 
-       for (const pair of Array.from(pairsToUpdate)) {
+       Array.from(pairsToUpdate).forEach(async pair => {
          try {
-           const fresh = await fetchMarketData(pair, useMT5);
-           setMarketData(prev => ({ ...prev, [pair]: fresh }));
+           const fresh = await loadCandles(pair, timeframe, { priority: 'high', signal });
+           if (fresh) setMarketData(prev => ({ ...prev, [pair]: fresh }));
          } catch (e) {
            console.error("Bg Update Error:", pair, e);
          }
-       }
+       });
     }, isLive ? 30000 : 60000); // Update faster in Live Mode
 
     return () => {
-      isMounted = false;
+      controller.abort();
       clearInterval(interval);
     };
-  }, [selectedPair, isLive, activeTrade, useMT5]); 
+  }, [selectedPair, isLive, positionPairsKey, providerId, timeframe, oandaToken]); 
+
+  // Live ticks: update the forming candle of every loaded pair as ticks arrive.
+  // Open positions and the trade manager follow because they read marketData.
+  useEffect(() => {
+    if (!TICK_RELAY_URL) return;
+    return subscribeToRelay(TICK_RELAY_URL, event => {
+      setMarketData(prev => {
+        const candles = prev[event.pair];
+        if (!candles) return prev;
+        const next = applyRelayEvent(candles, event, timeframe);
+        return next === candles ? prev : { ...prev, [event.pair]: next };
+      });
+    }, setRelayConnected);
+  }, [timeframe]);
+
+  // Follow open signals on the candles as they close. Keyed on the closed candles,
+  // so ticks moving the forming candle do not re-run it.
+  const closedCandlesKey = Object.keys(marketData)
+    .map(pair => `${pair}:${marketData[pair].length}:${marketData[pair][marketData[pair].length - 2]?.time ?? 0}`)
+    .join(',');
+  useEffect(() => {
+    updateSignalHistory(prev => applyOutcomes(prev, providerId, timeframe, marketData));
+  }, [closedCandlesKey]);
+
+  // Open signals from another timeframe of this provider: fetch their candles now and then.
+  // Stable key so the loop only restarts when that set changes.
+  const pendingOutcomes = Array.from(new Set<string>(signalHistory
+    .filter(r => r.outcome === 'OPEN' && r.providerId === providerId && r.timeframe !== timeframe)
+    .map(r => `${r.signal.best_pair}|${r.timeframe}`))).sort();
+  const pendingOutcomesKey = pendingOutcomes.join(',');
+
+  useEffect(() => {
+    if (pendingOutcomes.length === 0) return;
+    const controller = new AbortController();
+
+    const evaluate = () => pendingOutcomes.forEach(async entry => {
+      const [pair, tf] = entry.split('|') as [string, Timeframe];
+      try {
+        // Never judge a signal on simulated candles
+        const candles = await fetchMarketData(pair, providerId, tf, { priority: 'low', signal: controller.signal, simulate: false });
+        if (!controller.signal.aborted) updateSignalHistory(prev => applyOutcomes(prev, providerId, tf, { [pair]: candles }));
+      } catch (e) {
+        if (!controller.signal.aborted) console.error("Signal Outcome Error:", pair, e);
+      }
+    });
+
+    evaluate();
+    const interval = setInterval(evaluate, OUTCOME_REFRESH_MS);
+    return () => {
+      controller.abort();
+      clearInterval(interval);
+    };
+  }, [pendingOutcomesKey, providerId, timeframe]);
 
   // Live Analysis Loop
   useEffect(() => {
@@ -168,12 +512,14 @@ const App: React.FC = () => {
       
       try {
         // Fetch latest data for selected pair
-        const candles = await fetchMarketData(selectedPair, useMT5);
+        const candles = await loadCandles(selectedPair, timeframe, { priority: 'high' });
+        if (!candles) return;
         setMarketData(prev => ({ ...prev, [selectedPair]: candles }));
 
         // Analyze ONLY the selected pair to save tokens/quota
-        const signal = await scanAllMarkets({ [selectedPair]: candles });
-        setActiveSignal(signal);
+        const signal = await confirmWithHigherTimeframe(await scanAllMarkets({ [selectedPair]: candles }, timeframe, scanSettings, backendSettings));
+        showSignal(signal);
+        recordSignal(signal, 'LIVE', { [selectedPair]: candles });
       } catch (err) {
         console.error("Live Loop Error:", err);
       }
@@ -181,33 +527,68 @@ const App: React.FC = () => {
 
     if (isLive) {
       runLiveAnalysis(); // Immediate run
-      // Increased from 30000 to 60000 (60s) to avoid 429 Rate Limits
-      interval = setInterval(runLiveAnalysis, 60000); 
+      // Model calls wait for their backend's budget and any Retry-After cooldown in the scheduler
+      interval = setInterval(runLiveAnalysis, 30000);
     }
 
     return () => clearInterval(interval);
-  }, [isLive, selectedPair, useMT5]);
+  }, [isLive, selectedPair, providerId, timeframe, htfFilter, scanSettings, backendSettings]);
 
 
-  const handleScanAllMarkets = async () => {
-    if (!process.env.API_KEY) {
-      setApiKeyError(true);
-      return;
+  // Strong live signals alert once per setup, for when nobody is watching the tab
+  useEffect(() => {
+    if (isLive && activeSignal) notifySignal(activeSignal, alertSettings);
+  }, [activeSignal]);
+
+  // Levels drawn for the previous signal do not apply to the new one
+  useEffect(() => {
+    setChartLevels([]);
+  }, [activeSignal?.id]);
+
+  // Follow-up question about the signal on the card, with the candles of its pair as context
+  const handleAskAnalyst = async (question: string) => {
+    if (!activeSignal?.id) return;
+    const id = activeSignal.id;
+    const pair = marketData[activeSignal.best_pair] ? activeSignal.best_pair : selectedPair;
+    const appendMessage = (message: ChatMessage) => setChats(prev => ({ ...prev, [id]: [...(prev[id] ?? []), message] }));
+
+    appendMessage({ role: 'user', text: question, createdAt: Date.now() });
+    setChatPending(id);
+    try {
+      const reply = await askAnalyst(
+        getBackend(scanSettings.backend),
+        backendSettings,
+        { signal: activeSignal, pair, candles: marketData[pair] || [], timeframe },
+        chats[id] ?? [],
+        question
+      );
+      appendMessage({ role: 'analyst', text: reply.text, levels: reply.levels, usage: reply.usage, createdAt: Date.now() });
+    } catch (e) {
+      console.error("Analyst Chat Error:", e);
+      appendMessage({ role: 'analyst', text: e instanceof Error ? e.message : String(e), error: true, createdAt: Date.now() });
+    } finally {
+      setChatPending(null);
     }
-    setApiKeyError(false);
+  };
+
+  const handleScanAllMarkets = async () => {
+    // Without a key the scan still runs, through the local rules engine
+    setBackendError(getBackend(scanSettings.backend).unavailable(backendSettings));
     setLoading(true);
     setIsLive(false); 
 
     try {
-      const freshSelected = await fetchMarketData(selectedPair, useMT5);
+      const freshSelected = await loadCandles(selectedPair, timeframe, { priority: 'high' });
+      if (!freshSelected) return;
       const currentDataSnapshot = { 
         ...marketData, 
         [selectedPair]: freshSelected 
       };
       setMarketData(currentDataSnapshot);
 
-      const signal = await scanAllMarkets(currentDataSnapshot);
-      setActiveSignal(signal);
+      const signal = await confirmWithHigherTimeframe(await scanAllMarkets(currentDataSnapshot, timeframe, scanSettings, backendSettings));
+      showSignal(signal);
+      recordSignal(signal, 'SCAN', currentDataSnapshot);
 
       if (signal.best_pair && signal.best_pair !== 'NONE') {
         setSelectedPair(signal.best_pair);
@@ -220,6 +601,9 @@ const App: React.FC = () => {
     }
   };
 
+  // Strict providers (MT5) show the outage instead; the simulation has nothing to fall back to
+  const hasSimulationFallback = !getProvider(providerId).strict && providerId !== 'synthetic';
+
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 p-4 md:p-8 font-sans">
       
@@ -231,25 +615,64 @@ const App: React.FC = () => {
           </div>
           <div>
             <h1 className="text-2xl font-black tracking-tight text-white italic">TITAN<span className="text-emerald-500">SIGNAL</span> <span className="text-slate-600 not-italic font-normal text-lg">| ELITE</span></h1>
-            <p className="text-xs text-slate-500 font-mono tracking-wider">INSTITUTIONAL M5 REVERSAL ENGINE</p>
+            <p className="text-xs text-slate-500 font-mono tracking-wider">INSTITUTIONAL {timeframe} REVERSAL ENGINE</p>
           </div>
         </div>
 
         <div className="flex items-center gap-4 flex-wrap justify-end">
-           {/* Data Source Toggle */}
-           <div className="flex items-center bg-slate-900 rounded-lg border border-slate-700 p-1 mr-2">
-            <button 
-              onClick={() => setUseMT5(false)}
-              className={`px-3 py-1 text-xs font-bold rounded ${!useMT5 ? 'bg-slate-700 text-white' : 'text-slate-500'}`}
-            >
-              API
-            </button>
-            <button 
-              onClick={() => setUseMT5(true)}
-              className={`px-3 py-1 text-xs font-bold rounded ${useMT5 ? 'bg-emerald-600 text-white' : 'text-slate-500'}`}
+           {/* Rate limit budgets of the providers and analysis backends */}
+           <RequestQuota />
+
+           {/* Analysis Backend Picker */}
+           <AnalysisBackendPicker
+             backends={listBackends()}
+             backend={getBackend(scanSettings.backend)}
+             settings={backendSettings}
+             onBackendChange={handleBackendChange}
+             onSettingsChange={handleBackendSettingsChange}
+             promptVersion={scanSettings.promptVersion}
+             onPromptVersionChange={(id) => handleScanSettingsChange({ ...scanSettings, promptVersion: id })}
+           />
+
+           {/* Desktop, sound and webhook alerts */}
+           <AlertSettingsPanel settings={alertSettings} onChange={handleAlertSettingsChange} />
+
+           {/* Data Source Picker */}
+           <div className="flex items-center gap-2 bg-slate-900 p-1 rounded-lg border border-slate-700 mr-2">
+            <Database size={16} className="text-slate-500 ml-2" />
+            <select 
+              className="bg-transparent text-white text-xs font-bold focus:ring-0 border-none outline-none py-1 pr-2 cursor-pointer"
+              value={providerId}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              title="Market data provider"
             >
-              MT5
-            </button>
+              {listProviders().map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+            {providerId === 'mt5' && <BridgeStatus pair={selectedPair} />}
+            {providerId === 'oanda' && (
+              <input
+                type="password"
+                placeholder="API TOKEN"
+                defaultValue={oandaToken}
+                onBlur={(e) => handleOandaTokenChange(e.target.value.trim())}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className={`w-28 bg-slate-950 border rounded px-2 py-1 text-xs text-white outline-none focus:border-emerald-500 ${oandaToken ? 'border-slate-700' : 'border-rose-500'}`}
+                title="OANDA v20 API token, kept in this browser only"
+              />
+            )}
+            {providerId === 'replay' && (
+              <label className="flex items-center gap-1 px-2 py-1 text-xs font-bold rounded bg-slate-700 text-white cursor-pointer" title="Load CSV/JSON candles">
+                <Upload size={12} /> FILE
+                <input 
+                  type="file" 
+                  accept=".csv,.json" 
+                  className="hidden"
+                  onChange={(e) => e.target.files?.[0] && handleReplayFile(e.target.files[0])}
+                />
+              </label>
+            )}
           </div>
 
           <div className="flex items-center gap-2 bg-slate-900 p-1 rounded-lg border border-slate-700">
@@ -263,6 +686,55 @@ const App: React.FC = () => {
                 <option key={pair} value={pair}>{pair}</option>
               ))}
             </select>
+            <Clock size={16} className="text-slate-500 ml-1" />
+            <select 
+              className="bg-transparent text-white text-sm focus:ring-0 border-none outline-none font-mono py-1 pr-2 cursor-pointer"
+              value={timeframe}
+              onChange={(e) => handleTimeframeChange(e.target.value as Timeframe)}
+              title="Chart / signal timeframe"
+            >
+              {TIMEFRAME_LIST.map(tf => (
+                <option key={tf} value={tf}>{tf}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Higher Timeframe Trend Filter */}
+          <div className="flex items-center gap-2 bg-slate-900 p-1 rounded-lg border border-slate-700" title="Signals must agree with this timeframe's trend">
+             <Layers size={16} className="text-slate-500 ml-2" />
+             <select 
+              className="bg-transparent text-white text-sm focus:ring-0 border-none outline-none font-mono py-1 pr-2 cursor-pointer"
+              value={htfFilter}
+              onChange={(e) => setHtfFilter(e.target.value as Timeframe | 'OFF')}
+            >
+              <option value="OFF">HTF OFF</option>
+              {HIGHER_TIMEFRAMES.filter(tf => TIMEFRAMES[tf].seconds > TIMEFRAMES[timeframe].seconds).map(tf => (
+                <option key={tf} value={tf}>HTF {tf}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Scan batching: pairs per model request, candles per pair */}
+          <div className="flex items-center gap-2 bg-slate-900 p-1 rounded-lg border border-slate-700" title="Pairs per AI request / candles per pair in the prompt">
+             <Boxes size={16} className="text-slate-500 ml-2" />
+             <select 
+              className="bg-transparent text-white text-sm focus:ring-0 border-none outline-none font-mono py-1 cursor-pointer"
+              value={scanSettings.batchSize}
+              onChange={(e) => handleScanSettingsChange({ ...scanSettings, batchSize: Number(e.target.value) })}
+            >
+              {SCAN_BATCH_SIZES.map(size => (
+                <option key={size} value={size}>{size}/REQ</option>
+              ))}
+            </select>
+             <select 
+              className="bg-transparent text-white text-sm focus:ring-0 border-none outline-none font-mono py-1 pr-2 cursor-pointer"
+              value={scanSettings.recentCandles}
+              onChange={(e) => handleScanSettingsChange({ ...scanSettings, recentCandles: Number(e.target.value) })}
+            >
+              {SCAN_RECENT_CANDLES.map(count => (
+                <option key={count} value={count}>{count} BARS</option>
+              ))}
+            </select>
           </div>
 
           {/* Live Signals Button */}
@@ -280,15 +752,22 @@ const App: React.FC = () => {
             className={`flex items-center gap-2 px-6 py-2.5 rounded-lg font-bold transition-all shadow-lg border border-transparent ${loading || initialLoad ? 'bg-slate-800 text-slate-500 cursor-not-allowed' : 'bg-gradient-to-r from-emerald-600 to-emerald-500 hover:from-emerald-500 hover:to-emerald-400 text-white shadow-emerald-900/40 hover:scale-105'}`}
           >
             {loading ? <RefreshCw className="animate-spin" size={18} /> : <ListFilter size={18} />}
-            {loading ? 'SCANNING 18 PAIRS...' : initialLoad ? 'LOADING DATA...' : 'SCAN ALL MARKETS'}
+            {loading ? `SCANNING ${MARKET_PAIRS.length} PAIRS...` : initialLoad ? 'LOADING DATA...' : 'SCAN ALL MARKETS'}
           </button>
         </div>
       </header>
 
-      {apiKeyError && (
+      {feedError && (
+        <div className="max-w-7xl mx-auto mb-6 p-4 bg-rose-950/30 border border-rose-900 rounded-lg flex items-center gap-3 text-rose-400">
+          <AlertTriangle size={20} />
+          <span>DATA FEED DOWN: {feedError}. Prices are NOT being updated and no simulated data is substituted for {getProvider(providerId).label}.</span>
+        </div>
+      )}
+
+      {backendError && (
         <div className="max-w-7xl mx-auto mb-6 p-4 bg-rose-950/30 border border-rose-900 rounded-lg flex items-center gap-3 text-rose-400">
           <AlertTriangle size={20} />
-          <span>API Key missing. Cannot connect to Titan Elite Engine. Please ensure process.env.API_KEY is set.</span>
+          <span>{backendError}. Scans run on the local rules engine only. Check the analysis backend settings (or GEMINI_API_KEY / LLM_* in .env.local) to enable Titan Elite AI analysis.</span>
         </div>
       )}
 
@@ -302,31 +781,66 @@ const App: React.FC = () => {
                <span className="text-slate-500 font-mono text-sm">CONNECTING TO LIVE DATA FEED...</span>
             </div>
           ) : (
-            <CandleChart data={marketData[selectedPair] || []} pairName={selectedPair} />
+            <CandleChart
+              data={marketData[selectedPair] || []}
+              pairName={selectedPair}
+              trades={backtest?.pair === selectedPair ? backtest.result.ledger : undefined}
+              currency={account.currency}
+              levels={chartLevels}
+            />
+          )}
+
+          {backtest?.pair === selectedPair && (
+            <BacktestChart result={backtest.result} pairName={backtest.pair} onClose={() => setBacktest(null)} />
           )}
           
           <PnLTracker 
-            activeSignal={activeSignal} 
-            activeTrade={activeTrade}
-            currentLivePrice={getCurrentTradePrice()}
-            onCloseTrade={handleCloseTrade}
+            activeSignal={sizedSignal}
+            positions={positions}
+            livePrices={livePrices}
+            onClosePosition={handleClosePosition}
+            management={tradeManagement}
+            onManagementChange={handleTradeManagementChange}
+            account={account}
+            onAccountChange={handleAccountChange}
+            streaming={relayConnected}
           />
+
+          <SignalHistory history={signalHistory} />
         </div>
 
         {/* Right Column: Signal Output & Journal */}
         <div className="lg:col-span-1 flex flex-col gap-6">
           <div className="flex-none">
             <SignalCard 
-              signalData={activeSignal} 
+              signalData={sizedSignal}
               history={marketData[activeSignal?.best_pair || selectedPair] || []}
               loading={loading} 
               onExecute={handleExecuteTrade}
-              isTradeActive={!!activeTrade}
+              isTradeActive={hasOpenPosition(activeSignal?.best_pair || '')}
+              accountCurrency={account.currency}
+              prices={latestPrices}
+              onBacktest={(result, pair) => setBacktest({ pair, result })}
             />
           </div>
+
+          {!loading && (
+            <AnalystChat
+              signal={activeSignal}
+              messages={activeSignal?.id ? chats[activeSignal.id] ?? [] : []}
+              pending={!!activeSignal?.id && chatPending === activeSignal.id}
+              unavailable={analystUnavailable(getBackend(scanSettings.backend), backendSettings)}
+              drawnLevels={chartLevels}
+              onAsk={handleAskAnalyst}
+              onDrawLevels={levels => {
+                setChartLevels(levels);
+                if (levels[0] && levels[0].pair !== selectedPair) setSelectedPair(levels[0].pair);
+              }}
+            />
+          )}
           
           <div className="flex-1 min-h-[300px]">
-            <TradeJournal trades={closedTrades} />
+            <TradeJournal trades={closedTrades} onImport={handleImportTrades} accountCurrency={account.currency} prices={latestPrices} />
           </div>
         </div>
 
@@ -334,7 +848,7 @@ const App: React.FC = () => {
 
       {/* Footer */}
       <footer className="max-w-7xl mx-auto mt-12 pt-6 border-t border-slate-900 text-center text-slate-600 text-xs font-mono">
-        <p>SYSTEM STATUS: {initialLoad ? 'INITIALIZING' : isLive ? 'LIVE SCANNING ACTIVE' : 'ONLINE'} | DATA FEED: HYBRID (LIVE + SIMULATION) | STRATEGY: SMART MONEY REVERSAL</p>
+        <p>SYSTEM STATUS: {initialLoad ? 'INITIALIZING' : isLive ? 'LIVE SCANNING ACTIVE' : 'ONLINE'} | DATA FEED: {getProvider(providerId).label.toUpperCase()}{hasSimulationFallback && ' (+ SIMULATION FALLBACK)'} | TICKS: {!TICK_RELAY_URL ? 'POLLING' : relayConnected ? 'RELAY STREAMING' : 'RELAY OFFLINE'} | STRATEGY: SMART MONEY REVERSAL</p>
         <p className="mt-2 text-[10px] text-slate-700">Trading Foreign Exchange (Forex) carries a high level of risk and may not be suitable for all investors.</p>
       </footer>
 
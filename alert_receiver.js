@@ -0,0 +1,96 @@
+/**
+ * SIGNAL ALERT TEST RECEIVER
+ *
+ * Stands in for the webhook targets of the dashboard's signal alerts, so the
+ * Telegram, Discord and generic JSON templates can be checked without real
+ * bots or channels. Every POST is printed and kept in memory.
+ *
+ * Endpoints:
+ *   POST /bot<token>/sendMessage       Telegram Bot API (needs chat_id and text)
+ *   POST /api/webhooks/<id>/<token>    Discord webhook (needs content), answers 204
+ *   POST /<anything else>              Generic JSON, answers { received: true }
+ *   GET  /received                     Everything received so far (newest last)
+ *   DELETE /received                   Forget it
+ *
+ * Usage:
+ *   ALERT_RECEIVER_PORT=8790 npm run alerts:receiver
+ *   # Webhook URLs in the dashboard's alert settings
+ *   http://localhost:8790/bot123:test/sendMessage     (TELEGRAM, any chat id)
+ *   http://localhost:8790/api/webhooks/1/test          (DISCORD)
+ *   http://localhost:8790/alerts                       (JSON)
+ */
+
+import http from 'http';
+
+// --- CONFIGURATION ---
+const PORT = parseInt(process.env.ALERT_RECEIVER_PORT || '8790', 10);
+const MAX_KEPT = 200;
+
+const received = [];
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(status === 204 ? undefined : JSON.stringify(body));
+}
+
+// What the real service would reject, so template mistakes show up here
+function checkTemplate(path, body) {
+  if (/^\/bot[^/]+\/sendMessage$/.test(path)) {
+    if (!body.chat_id) return { template: 'telegram', error: 'Bad Request: chat_id is empty' };
+    if (!body.text) return { template: 'telegram', error: 'Bad Request: message text is empty' };
+    return { template: 'telegram' };
+  }
+  if (/^\/api\/webhooks\/[^/]+\/[^/]+$/.test(path)) {
+    return body.content ? { template: 'discord' } : { template: 'discord', error: 'Cannot send an empty message' };
+  }
+  return { template: 'json' };
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+
+  const path = new URL(req.url, `http://localhost:${PORT}`).pathname;
+
+  if (path === '/received') {
+    if (req.method === 'DELETE') received.length = 0;
+    return send(res, 200, received);
+  }
+  if (req.method !== 'POST') return send(res, 404, { error: 'POST an alert, or GET /received' });
+
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch (e) {
+      console.error(`[${new Date().toISOString()}] ${path}: invalid JSON`);
+      return send(res, 400, { error: 'Body is not JSON' });
+    }
+
+    const { template, error } = checkTemplate(path, body);
+    received.push({ receivedAt: new Date().toISOString(), path, template, error: error || null, body });
+    if (received.length > MAX_KEPT) received.shift();
+    console.log(`[${new Date().toISOString()}] ${template.toUpperCase()} ${path}${error ? ` REJECTED: ${error}` : ''}`);
+    console.log(body.text || body.content || JSON.stringify(body, null, 2));
+
+    if (template === 'telegram') {
+      return error
+        ? send(res, 400, { ok: false, error_code: 400, description: error })
+        : send(res, 200, { ok: true, result: { message_id: received.length, chat: { id: body.chat_id }, text: body.text } });
+    }
+    if (template === 'discord') {
+      return error ? send(res, 400, { message: error, code: 50006 }) : send(res, 204, {});
+    }
+    send(res, 200, { received: true });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Alert test receiver listening on http://localhost:${PORT}`);
+});
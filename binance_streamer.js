@@ -1,32 +1,82 @@
 
-const WebSocket = require('ws');
+import { TIMEFRAMES, isTimeframe } from './utils/timeframes';
+import { pairFromSymbol } from './utils/instruments';
+import { createRelayPublisher } from './services/tickRelay';
+import { createCandleAggregator } from './utils/candleAggregator';
+
+let WebSocket;
+try {
+  ({ default: WebSocket } = await import('ws'));
+} catch (e) {
+  console.error("Error: 'ws' module is missing. Please run: npm install ws");
+  process.exit(1);
+}
 
 // Configuration
 // Default to BTCUSDT if no env var provided
 const SYMBOLS = (process.env.SYMBOLS || 'btcusdt').split(',').map(s => s.trim().toLowerCase());
+const TIMEFRAME = isTimeframe(process.env.TIMEFRAME || '') ? process.env.TIMEFRAME : 'M5';
 const RECONNECT_DELAY = 5000;
+// Optional: also push ticks and closed candles to tick_relay.js for the dashboard
+const relay = process.env.RELAY_URL ? createRelayPublisher(process.env.RELAY_URL) : null;
+// bookTicker fires on every top-of-book change: forward at most one tick per symbol per interval
+const TICK_THROTTLE_MS = 250;
+const lastTickSent = {};
 
 // URL Construction
 // Combined streams format: wss://stream.binance.com:9443/stream?streams=<stream1>/<stream2>
-// Stream name: <symbol>@kline_5m
-const streamNames = SYMBOLS.map(s => `${s}@kline_5m`);
+// Stream name: <symbol>@kline_<interval> (e.g. btcusdt@kline_5m)
+// With a relay, <symbol>@bookTicker adds best bid/ask for the live ticks
+const streamNames = SYMBOLS.flatMap(s => [
+  `${s}@kline_${TIMEFRAMES[TIMEFRAME].binance}`,
+  ...(relay ? [`${s}@bookTicker`] : [])
+]);
 const WS_URL = `wss://stream.binance.com:9443/stream?streams=${streamNames.join('/')}`;
 
-console.log(`Starting Binance Streamer for: ${SYMBOLS.join(', ').toUpperCase()}`);
+console.log(`Starting Binance Streamer for: ${SYMBOLS.join(', ').toUpperCase()} (${TIMEFRAME})`);
 console.log(`Stream URL: ${WS_URL}`);
+if (relay) console.log(`Publishing to tick relay: ${process.env.RELAY_URL}`);
 
-function startStream() {
-  let ws;
-  
-  try {
-    ws = new WebSocket(WS_URL);
-  } catch (e) {
-    if (e.message.includes('Cannot find module')) {
-      console.error("Error: 'ws' module is missing. Please run: npm install ws");
-      process.exit(1);
-    }
-    throw e;
+const BUCKET_MS = TIMEFRAMES[TIMEFRAME].seconds * 1000;
+
+// Kline snapshots go through the shared aggregator: it closes on the final
+// (x: true) snapshot, or by the clock if that never arrives, and flags gaps
+// (e.g. missed candles while reconnecting).
+const aggregator = createCandleAggregator({
+  timeframe: TIMEFRAME,
+  graceMs: 2000, // the first snapshot of the next kline may beat the final one
+  onCandle: ({ symbol, candle, gap, stale, revised }) => {
+    const output = {
+      symbol: symbol,     // Symbol (e.g., BTCUSDT)
+      time: new Date(candle.time * 1000 + BUCKET_MS).toISOString(), // ISO8601 of candle close time
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      ...(gap && { gap }),
+      ...(stale && { stale }),
+      ...(revised && { revised }) // final kline of a candle already closed by the clock
+    };
+
+    // Output strict JSON on a single line
+    console.log(JSON.stringify(output));
+
+    relay?.publish({ type: 'candle', pair: pairFromSymbol(symbol), timeframe: TIMEFRAME, candle });
   }
+});
+
+setInterval(() => aggregator.flush(), 1000);
+
+// bookTicker payload: { s: symbol, b: best bid, a: best ask } (no timestamp)
+function publishTick(book) {
+  const now = Date.now();
+  if (now - (lastTickSent[book.s] || 0) < TICK_THROTTLE_MS) return;
+  lastTickSent[book.s] = now;
+  relay.publish({ type: 'tick', pair: pairFromSymbol(book.s), time: Math.floor(now / 1000), bid: parseFloat(book.b), ask: parseFloat(book.a) });
+}
+
+function startStream() {
+  const ws = new WebSocket(WS_URL);
 
   ws.on('open', () => {
     console.log('Connected to Binance WebSocket.');
@@ -37,24 +87,19 @@ function startStream() {
       const message = JSON.parse(data);
       
       // Combined stream payload format: { "stream": "btcusdt@kline_5m", "data": { ... } }
+      if (relay && message.stream?.endsWith('@bookTicker')) return publishTick(message.data);
       if (!message.data || !message.data.k) return;
 
       const kline = message.data.k;
 
-      // Check if candle is closed (x: true means the candle is finished)
-      if (kline.x) {
-        const output = {
-          symbol: kline.s.toUpperCase(),     // Symbol (e.g., BTCUSDT)
-          time: new Date(kline.T).toISOString(), // ISO8601 of candle close time
-          open: parseFloat(kline.o),
-          high: parseFloat(kline.h),
-          low: parseFloat(kline.l),
-          close: parseFloat(kline.c)
-        };
-
-        // Output strict JSON on a single line
-        console.log(JSON.stringify(output));
-      }
+      // x: true means the candle is finished
+      aggregator.addBar(kline.s.toUpperCase(), {
+        time: kline.t, // open time, ms
+        open: parseFloat(kline.o),
+        high: parseFloat(kline.h),
+        low: parseFloat(kline.l),
+        close: parseFloat(kline.c)
+      }, kline.x);
     } catch (e) {
       console.error('Error parsing message:', e.message);
     }
@@ -0,0 +1,67 @@
+/**
+ * CANDLE STORE BACKFILL
+ *
+ * Fills the Node candle store (CANDLE_STORE_DIR, default .candles/) with the
+ * newest candles and as much older history as the provider serves, so the
+ * optimiser can run on weeks of data. Re-running only fetches what is missing.
+ *
+ * Usage:
+ *   PROVIDER=binance PAIRS=BTCUSD TIMEFRAME=M5 TARGET=10000 npm run backfill
+ *   PROVIDER=oanda OANDA_API_KEY=... PAIRS=EURUSD,XAUUSD npm run backfill
+ *
+ * Options (env):
+ *   PROVIDER      cryptocompare|oanda|binance (default cryptocompare)
+ *   TARGET        candles to hold per series (default 5000, max 20000)
+ *   PAGE_SIZE     candles per history request (default 500)
+ *   PAUSE_MS      pause between requests (default 800)
+ *   *_API_BASE    point providers at provider_stub_server.js, as for the dashboard
+ */
+
+import { getProvider } from './services/providers';
+import { backfillSeries, MAX_STORED_CANDLES, storeLatest } from './utils/candleStore';
+import { createFileCandleStore } from './utils/candleStoreFile';
+import { isTimeframe } from './utils/timeframes';
+
+const env = process.env;
+const PROVIDER = (env.PROVIDER || 'cryptocompare').toLowerCase();
+const PAIRS = (env.PAIRS || 'EURUSD').split(',').map(p => p.trim().toUpperCase()).filter(Boolean);
+const TIMEFRAME = isTimeframe(env.TIMEFRAME || '') ? env.TIMEFRAME : 'M5';
+const TARGET = Math.min(MAX_STORED_CANDLES, parseInt(env.TARGET || '5000', 10));
+const PAGE_SIZE = parseInt(env.PAGE_SIZE || '500', 10);
+const PAUSE_MS = parseInt(env.PAUSE_MS || '800', 10);
+
+const day = (time) => new Date(time * 1000).toISOString().slice(0, 16).replace('T', ' ');
+
+let provider;
+try {
+  provider = getProvider(PROVIDER);
+} catch (e) {
+  console.error(e.message);
+  process.exit(1);
+}
+if (!provider.fetchHistory) {
+  console.error(`${provider.label} cannot page back through history`);
+  process.exit(1);
+}
+
+const store = createFileCandleStore();
+let failures = 0;
+
+for (const pair of PAIRS) {
+  if (!provider.supports(pair)) {
+    console.error(`${pair}: not available on ${provider.label}, skipped`);
+    continue;
+  }
+  try {
+    // Newest first (reconnects to what is stored), then page back
+    await storeLatest(store, provider, pair, TIMEFRAME, await provider.fetchCandles(pair, TIMEFRAME, PAGE_SIZE), { pageSize: PAGE_SIZE, maxPages: Math.ceil(TARGET / PAGE_SIZE) });
+    const series = await backfillSeries(store, provider, pair, TIMEFRAME, { target: TARGET, pageSize: PAGE_SIZE, pauseMs: PAUSE_MS });
+    const candles = series?.candles ?? [];
+    console.log(`${provider.label} ${pair} ${TIMEFRAME}: ${candles.length} candles${candles.length ? ` (${day(candles[0].time)} -> ${day(candles[candles.length - 1].time)})` : ''}${series?.exhausted ? ', start of provider history reached' : ''}`);
+  } catch (e) {
+    failures++;
+    console.error(`Backfill Error: ${pair}: ${e.message}`);
+  }
+}
+
+process.exit(failures > 0 ? 1 : 0);
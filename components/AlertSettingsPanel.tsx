@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { AlertSettings, AlertWebhook, SignalData, WebhookTemplate } from '../types';
+import { AlertDelivery, desktopPermission, requestDesktopPermission, sendAlert } from '../services/alerts';
+import { Bell, BellOff, Plus, Trash2 } from 'lucide-react';
+
+interface AlertSettingsPanelProps {
+  settings: AlertSettings;
+  onChange: (settings: AlertSettings) => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500';
+
+const URL_PLACEHOLDERS: Record<WebhookTemplate, string> = {
+  telegram: 'https://api.telegram.org/bot<token>/sendMessage',
+  discord: 'https://discord.com/api/webhooks/<id>/<token>',
+  json: 'http://localhost:8790/alerts',
+};
+
+// Sent by the TEST button
+const TEST_SIGNAL: SignalData = {
+  best_pair: 'EURUSD',
+  timeframe: 'M5',
+  trend: 'UPTREND',
+  signal: 'BUY',
+  entry_price: 1.085,
+  stop_loss: 1.0835,
+  tp1: 1.08725,
+  tp2: 1.088,
+  tp3: 1.0895,
+  reason: 'Test alert from TitanSignal',
+  strength_score: 90,
+  lot_size: 0,
+  estimated_profit_tp1: 0,
+  estimated_profit_tp2: 0,
+  estimated_profit_tp3: 0,
+  live_pnl_formula: '',
+  source: 'RULES',
+};
+
+// Desktop, sound and webhook alerts for strong live signals
+const AlertSettingsPanel: React.FC<AlertSettingsPanelProps> = ({ settings, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [permission, setPermission] = useState(desktopPermission);
+  const [results, setResults] = useState<AlertDelivery[] | null>(null);
+
+  const updateWebhook = (id: string, changes: Partial<AlertWebhook>) =>
+    onChange({ ...settings, webhooks: settings.webhooks.map(w => w.id === id ? { ...w, ...changes } : w) });
+
+  const handleDesktopChange = async (desktop: boolean) => {
+    onChange({ ...settings, desktop });
+    if (desktop && permission === 'default') setPermission(await requestDesktopPermission());
+  };
+
+  const handleTest = async () => {
+    setResults(null);
+    setResults(await sendAlert(TEST_SIGNAL, settings));
+  };
+
+  return (
+    <div className="relative flex items-center bg-slate-900 p-1 rounded-lg border border-slate-700">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`px-2 py-1 transition-colors ${settings.enabled ? 'text-emerald-400' : 'text-slate-500 hover:text-white'}`}
+        title={settings.enabled ? `Alerts on for live signals ≥ ${settings.minStrength}` : 'Alerts off'}
+      >
+        {settings.enabled ? <Bell size={16} /> : <BellOff size={16} />}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-96 flex flex-col gap-3 p-4 bg-slate-950 border border-slate-700 rounded-lg shadow-xl text-xs font-mono text-slate-400">
+          <label className="flex items-center gap-2 text-white font-bold">
+            <input type="checkbox" checked={settings.enabled} onChange={(e) => onChange({ ...settings, enabled: e.target.checked })} />
+            ALERT ON LIVE SIGNALS
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              MIN STRENGTH
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={settings.minStrength}
+                onChange={(e) => onChange({ ...settings, minStrength: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              COOLDOWN (MIN)
+              <input
+                type="number"
+                min={0}
+                value={settings.cooldownMinutes}
+                onChange={(e) => onChange({ ...settings, cooldownMinutes: Math.max(0, Number(e.target.value)) })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={settings.desktop} onChange={(e) => handleDesktopChange(e.target.checked)} />
+              DESKTOP
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={settings.sound} onChange={(e) => onChange({ ...settings, sound: e.target.checked })} />
+              SOUND
+            </label>
+            {settings.desktop && permission !== 'granted' && (
+              <span className="text-amber-400">{permission === 'unsupported' ? 'NOT SUPPORTED' : permission === 'denied' ? 'BLOCKED BY BROWSER' : 'PERMISSION NEEDED'}</span>
+            )}
+          </div>
+
+          <div className="flex flex-col gap-2 border-t border-slate-800 pt-3">
+            <div className="flex items-center justify-between">
+              <span>WEBHOOKS</span>
+              <button
+                onClick={() => onChange({ ...settings, webhooks: [...settings.webhooks, { id: Date.now().toString(), url: '', template: 'json', enabled: true }] })}
+                className="flex items-center gap-1 hover:text-white"
+              >
+                <Plus size={12} /> ADD
+              </button>
+            </div>
+            {settings.webhooks.map(webhook => (
+              <div key={webhook.id} className="flex flex-col gap-1 p-2 border border-slate-800 rounded">
+                <div className="flex items-center gap-2">
+                  <input type="checkbox" checked={webhook.enabled} onChange={(e) => updateWebhook(webhook.id, { enabled: e.target.checked })} title="Enabled" />
+                  <select
+                    value={webhook.template}
+                    onChange={(e) => updateWebhook(webhook.id, { template: e.target.value as WebhookTemplate })}
+                    className={`${inputClass} cursor-pointer`}
+                  >
+                    <option value="telegram">TELEGRAM</option>
+                    <option value="discord">DISCORD</option>
+                    <option value="json">JSON</option>
+                  </select>
+                  {webhook.template === 'telegram' && (
+                    <input
+                      type="text"
+                      placeholder="chat id"
+                      value={webhook.chatId ?? ''}
+                      onChange={(e) => updateWebhook(webhook.id, { chatId: e.target.value.trim() })}
+                      className={`${inputClass} w-28`}
+                    />
+                  )}
+                  <button
+                    onClick={() => onChange({ ...settings, webhooks: settings.webhooks.filter(w => w.id !== webhook.id) })}
+                    className="ml-auto hover:text-rose-400"
+                    title="Remove"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  placeholder={URL_PLACEHOLDERS[webhook.template]}
+                  value={webhook.url}
+                  onChange={(e) => updateWebhook(webhook.id, { url: e.target.value.trim() })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-1 border-t border-slate-800 pt-3">
+            <button onClick={handleTest} className="self-start px-3 py-1 rounded bg-slate-800 text-white hover:bg-slate-700">
+              SEND TEST ALERT
+            </button>
+            {results && results.length === 0 && <span>No channel enabled</span>}
+            {results?.map((result, i) => (
+              <span key={i} className={`truncate ${result.ok ? 'text-emerald-400' : 'text-rose-400'}`} title={result.channel}>
+                {result.ok ? 'OK' : 'FAILED'} {result.channel}{result.error ? `: ${result.error}` : ''}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertSettingsPanel;
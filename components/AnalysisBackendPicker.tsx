@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { AnalysisBackend, AnalysisBackendId, AnalysisBackendSettings } from '../types';
+import { PROMPT_VERSIONS } from '../services/analysis/prompts';
+import { Cpu, Settings2 } from 'lucide-react';
+
+interface AnalysisBackendPickerProps {
+  backends: AnalysisBackend[];
+  backend: AnalysisBackend;
+  settings: AnalysisBackendSettings;
+  promptVersion: string;
+  onBackendChange: (id: AnalysisBackendId) => void;
+  onSettingsChange: (settings: AnalysisBackendSettings) => void;
+  onPromptVersionChange: (id: string) => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500';
+
+// Which engine answers the scans, with its model, temperature, timeout and prompt version
+const AnalysisBackendPicker: React.FC<AnalysisBackendPickerProps> = ({ backends, backend, settings, promptVersion, onBackendChange, onSettingsChange, onPromptVersionChange }) => {
+  const [showSettings, setShowSettings] = useState(false);
+  const unavailable = backend.unavailable(settings);
+
+  return (
+    <div className="relative flex items-center gap-2 bg-slate-900 p-1 rounded-lg border border-slate-700">
+      <Cpu size={16} className={`ml-2 ${unavailable ? 'text-rose-500' : 'text-slate-500'}`} />
+      <select
+        className="bg-transparent text-white text-xs font-bold focus:ring-0 border-none outline-none py-1 cursor-pointer"
+        value={backend.id}
+        onChange={(e) => onBackendChange(e.target.value as AnalysisBackendId)}
+        title={unavailable ?? (backend.usesModel ? `Analysis backend (${settings.model})` : 'Analysis backend')}
+      >
+        {backends.map(b => (
+          <option key={b.id} value={b.id}>{b.label}</option>
+        ))}
+      </select>
+      {backend.usesModel && (
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className={`pr-2 transition-colors ${showSettings ? 'text-emerald-400' : 'text-slate-500 hover:text-white'}`}
+          title="Model, temperature, timeout and prompt version"
+        >
+          <Settings2 size={14} />
+        </button>
+      )}
+
+      {showSettings && backend.usesModel && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-72 grid grid-cols-2 gap-3 p-4 bg-slate-950 border border-slate-700 rounded-lg shadow-xl text-xs font-mono text-slate-400">
+          <label className="col-span-2 flex flex-col gap-1">
+            MODEL
+            <input
+              type="text"
+              value={settings.model}
+              onChange={(e) => onSettingsChange({ ...settings, model: e.target.value.trim() })}
+              className={inputClass}
+            />
+          </label>
+          <label className="col-span-2 flex flex-col gap-1">
+            PROMPT
+            <select
+              value={promptVersion}
+              onChange={(e) => onPromptVersionChange(e.target.value)}
+              className={`${inputClass} cursor-pointer`}
+            >
+              {PROMPT_VERSIONS.map(v => (
+                <option key={v.id} value={v.id}>{v.id}: {v.description}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            TEMPERATURE
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step="0.05"
+              value={settings.temperature}
+              onChange={(e) => onSettingsChange({ ...settings, temperature: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            TIMEOUT (S)
+            <input
+              type="number"
+              min={1}
+              value={settings.timeoutMs / 1000}
+              onChange={(e) => onSettingsChange({ ...settings, timeoutMs: Math.max(1, Number(e.target.value)) * 1000 })}
+              className={inputClass}
+            />
+          </label>
+          {'baseUrl' in backend.defaults && (
+            <label className="col-span-2 flex flex-col gap-1">
+              BASE URL
+              <input
+                type="text"
+                placeholder="From LLM_API_BASE"
+                value={settings.baseUrl ?? ''}
+                onChange={(e) => onSettingsChange({ ...settings, baseUrl: e.target.value.trim() })}
+                className={inputClass}
+              />
+            </label>
+          )}
+          {'apiKey' in backend.defaults && (
+            <label className="col-span-2 flex flex-col gap-1">
+              API KEY
+              <input
+                type="password"
+                placeholder="From the environment"
+                value={settings.apiKey ?? ''}
+                onChange={(e) => onSettingsChange({ ...settings, apiKey: e.target.value.trim() })}
+                className={inputClass}
+              />
+            </label>
+          )}
+          {unavailable && <p className="col-span-2 text-rose-400">{unavailable}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisBackendPicker;
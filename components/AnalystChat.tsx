@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChartLevel, ChatMessage, SignalData } from '../types';
+import { getInstrument } from '../utils/instruments';
+import { Eraser, ChartLine, MessageSquare, Send } from 'lucide-react';
+
+interface AnalystChatProps {
+  signal: SignalData | null;
+  messages: ChatMessage[];
+  pending: boolean;
+  unavailable: string | null; // Why the backend cannot answer (rules engine, missing key)
+  drawnLevels: ChartLevel[];
+  onAsk: (question: string) => void;
+  onDrawLevels: (levels: ChartLevel[]) => void;
+}
+
+const SUGGESTIONS = ['Why not the other direction?', 'Where is the invalidation?', 'What would improve this setup?'];
+
+const levelClass: Record<ChartLevel['kind'], string> = {
+  ENTRY: 'text-slate-200',
+  STOP: 'text-rose-400',
+  TARGET: 'text-emerald-400',
+  INVALIDATION: 'text-amber-400',
+  SUPPORT: 'text-sky-400',
+  RESISTANCE: 'text-violet-400',
+};
+
+// Follow-up questions about the signal on the card; the conversation belongs to that signal
+const AnalystChat: React.FC<AnalystChatProps> = ({ signal, messages, pending, unavailable, drawnLevels, onAsk, onDrawLevels }) => {
+  const [question, setQuestion] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages, pending]);
+
+  if (!signal) return null;
+
+  const disabled = pending || !!unavailable;
+  const ask = (text: string) => {
+    if (disabled || !text.trim()) return;
+    onAsk(text.trim());
+    setQuestion('');
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-700 rounded-xl flex flex-col">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-800">
+        <MessageSquare size={14} className="text-emerald-500" />
+        <span className="text-xs font-bold text-white tracking-wider">ASK THE ANALYST</span>
+        <span className="text-[10px] font-mono text-slate-500 ml-auto">{signal.best_pair} {signal.signal}</span>
+        {drawnLevels.length > 0 && (
+          <button onClick={() => onDrawLevels([])} className="flex items-center gap-1 text-[10px] font-mono text-slate-400 hover:text-white" title="Remove the analyst levels from the chart">
+            <Eraser size={12} /> CLEAR
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} className="flex flex-col gap-3 p-4 max-h-[360px] overflow-y-auto text-xs">
+        {messages.length === 0 && !pending && (
+          <div className="flex flex-wrap gap-2">
+            {SUGGESTIONS.map(s => (
+              <button
+                key={s}
+                onClick={() => ask(s)}
+                disabled={disabled}
+                className="px-2 py-1 rounded border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 disabled:opacity-50"
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map((message, i) => (
+          <div key={i} className={`flex flex-col gap-1 ${message.role === 'user' ? 'items-end' : 'items-start'}`}>
+            <div className={`max-w-[90%] px-3 py-2 rounded-lg whitespace-pre-wrap ${
+              message.role === 'user' ? 'bg-slate-800 text-white' : message.error ? 'bg-rose-950/50 text-rose-300' : 'bg-slate-950 text-slate-300 border border-slate-800'
+            }`}>
+              {message.text}
+            </div>
+            {message.levels && message.levels.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 font-mono text-[10px]">
+                {message.levels.map((level, j) => (
+                  <span key={j} className={levelClass[level.kind]}>
+                    {level.label || level.kind} {level.price.toFixed(getInstrument(level.pair).digits)}
+                  </span>
+                ))}
+                <button
+                  onClick={() => onDrawLevels(message.levels!)}
+                  className={`flex items-center gap-1 ${drawnLevels === message.levels ? 'text-emerald-400' : 'text-slate-400 hover:text-white'}`}
+                  title={`Draw on the ${message.levels[0].pair} chart`}
+                >
+                  <ChartLine size={12} /> DRAW
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {pending && <span className="text-slate-500 font-mono animate-pulse">ANALYST IS THINKING...</span>}
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); ask(question); }}
+        className="flex items-center gap-2 p-3 border-t border-slate-800"
+      >
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder={unavailable ?? 'Why not SELL? Where is the invalidation?'}
+          disabled={!!unavailable}
+          className="flex-1 bg-slate-950 border border-slate-700 rounded px-3 py-2 text-xs text-white outline-none focus:border-emerald-500 disabled:opacity-50"
+        />
+        <button type="submit" disabled={disabled || !question.trim()} className="p-2 text-emerald-400 hover:text-emerald-300 disabled:text-slate-600">
+          <Send size={14} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AnalystChat;
@@ -0,0 +1,83 @@
+import React, { useMemo } from 'react';
+import { ResponsiveContainer, ComposedChart, Line, Area, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { BacktestResult } from '../types';
+import { LineChart as LineChartIcon, X } from 'lucide-react';
+
+interface BacktestChartProps {
+  result: BacktestResult;
+  pairName: string;
+  onClose: () => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time * 1000).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Equity curve with the running drawdown (percent below the equity peak) underneath
+const BacktestChart: React.FC<BacktestChartProps> = ({ result, pairName, onClose }) => {
+  const data = useMemo(() => {
+    let peak = -Infinity;
+    return result.equityCurve.map(point => {
+      peak = Math.max(peak, point.equity);
+      return {
+        time: point.time,
+        equity: parseFloat(point.equity.toFixed(2)),
+        drawdown: peak > 0 ? parseFloat((((point.equity - peak) / peak) * 100).toFixed(2)) : 0,
+      };
+    });
+  }, [result]);
+
+  return (
+    <div className="w-full bg-slate-900 rounded-lg border border-slate-700 p-3">
+      <div className="flex justify-between items-center mb-2 text-xs font-mono">
+        <div className="flex items-center gap-2 text-white font-bold">
+          <LineChartIcon size={14} className="text-emerald-500" />
+          BACKTEST EQUITY · {pairName}
+          <span className="text-slate-500 font-normal">{result.trades} trades</span>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-rose-400">MAX DD {result.maxDrawdownPercent.toFixed(1)}%</span>
+          <button onClick={onClose} className="text-slate-500 hover:text-white" title="Hide backtest">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="h-[180px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 5, right: 5, bottom: 0, left: 0 }}>
+            <CartesianGrid stroke="#1e293b" vertical={false} />
+            <XAxis dataKey="time" tickFormatter={formatTime} stroke="#475569" fontSize={10} minTickGap={40} />
+            <YAxis yAxisId="equity" stroke="#475569" fontSize={10} width={60} domain={['auto', 'auto']} />
+            <YAxis yAxisId="drawdown" orientation="right" stroke="#475569" fontSize={10} width={40} unit="%" domain={['dataMin', 0]} />
+            <Tooltip
+              contentStyle={{ background: '#020617', border: '1px solid #334155', fontSize: 11, fontFamily: 'monospace' }}
+              labelFormatter={(label) => formatTime(Number(label))}
+            />
+            <Area
+              yAxisId="drawdown"
+              dataKey="drawdown"
+              name="Drawdown %"
+              type="stepAfter"
+              stroke="#f43f5e"
+              fill="#f43f5e"
+              fillOpacity={0.2}
+              isAnimationActive={false}
+            />
+            <Line
+              yAxisId="equity"
+              dataKey="equity"
+              name="Equity"
+              type="linear"
+              stroke="#10b981"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default BacktestChart;
@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { Tick } from '../types';
+import { mt5Provider } from '../services/providers';
+import { Mt5Health, Mt5SymbolSpec } from '../services/providers/mt5Bridge';
+import { Wifi, WifiOff } from 'lucide-react';
+
+interface BridgeStatusProps {
+  pair: string;
+}
+
+const POLL_MS = 5000;
+
+// Connection indicator for the MT5 bridge with the terminal's live bid/ask
+const BridgeStatus: React.FC<BridgeStatusProps> = ({ pair }) => {
+  const [health, setHealth] = useState<Mt5Health | null>(null);
+  const [tick, setTick] = useState<Tick | null>(null);
+  const [spec, setSpec] = useState<Mt5SymbolSpec | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    // Specs don't change while the pair is selected: fetch once per pair
+    let cachedSpec: Mt5SymbolSpec | null = null;
+    setSpec(null);
+    setTick(null);
+
+    const poll = async () => {
+      try {
+        const h = await mt5Provider.health();
+        if (!h.connected) throw new Error('terminal not connected to broker');
+        const [t, s] = await Promise.all([
+          mt5Provider.fetchTick(pair),
+          cachedSpec || mt5Provider.fetchSymbolSpec(pair)
+        ]);
+        cachedSpec = s;
+        if (!isMounted) return;
+        setHealth(h);
+        setTick(t);
+        setSpec(s);
+        setError(null);
+      } catch (e) {
+        if (!isMounted) return;
+        setHealth(null);
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_MS);
+    return () => {
+      isMounted = false;
+      clearInterval(interval);
+    };
+  }, [pair]);
+
+  if (error || !health) {
+    return (
+      <span className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold rounded bg-rose-950 text-rose-400 border border-rose-900" title={error || 'Connecting...'}>
+        <WifiOff size={12} /> {error ? 'MT5 UNREACHABLE' : 'MT5 ...'}
+      </span>
+    );
+  }
+
+  const digits = spec?.digits ?? 5;
+  return (
+    <span className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold font-mono rounded bg-emerald-950 text-emerald-400 border border-emerald-900" title={`${health.terminal} | ${health.server} | #${health.account}`}>
+      <Wifi size={12} /> MT5
+      {tick && <span className="text-slate-300 ml-1">{tick.bid.toFixed(digits)}/{tick.ask.toFixed(digits)}</span>}
+    </span>
+  );
+};
+
+export default BridgeStatus;
@@ -1,19 +1,54 @@
 
-import React, { useEffect, useRef } from 'react';
-import { createChart, IChartApi, ISeriesApi } from 'lightweight-charts';
-import { Candle } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { createChart, ColorType, IChartApi, IPriceLine, ISeriesApi, LineStyle, SeriesMarker, Time } from 'lightweight-charts';
+import { BacktestTrade, Candle, ChartLevel, ChartLevelKind } from '../types';
+import { getInstrument } from '../utils/instruments';
 
 interface CandleChartProps {
   data: Candle[];
   pairName: string;
+  trades?: BacktestTrade[]; // Backtest entries/exits drawn as markers
+  currency?: string; // Of the backtest PnL
+  levels?: ChartLevel[]; // Analyst levels, drawn as dashed price lines when their pair is shown
 }
 
-const CandleChart: React.FC<CandleChartProps> = ({ data, pairName }) => {
+interface MarkerTooltip {
+  x: number;
+  y: number;
+  lines: string[];
+}
+
+const WIN_COLOR = '#10b981';
+const LOSS_COLOR = '#f43f5e';
+const NO_TRADES: BacktestTrade[] = [];
+const NO_LEVELS: ChartLevel[] = [];
+
+const LEVEL_COLORS: Record<ChartLevelKind, string> = {
+  ENTRY: '#e2e8f0', // Slate-200
+  STOP: '#f43f5e',
+  TARGET: '#10b981',
+  INVALIDATION: '#f59e0b', // Amber-500
+  SUPPORT: '#38bdf8', // Sky-400
+  RESISTANCE: '#a78bfa', // Violet-400
+};
+
+const describeTrade = (trade: BacktestTrade, event: 'ENTRY' | 'EXIT', digits: number, currency: string) =>
+  event === 'ENTRY'
+    ? `${trade.type} @ ${trade.entryPrice.toFixed(digits)} (${trade.rMultiple >= 0 ? '+' : ''}${trade.rMultiple.toFixed(2)}R)`
+    : `${trade.exitReason} @ ${trade.exitPrice.toFixed(digits)} · ${trade.rMultiple >= 0 ? '+' : ''}${trade.rMultiple.toFixed(2)}R · ${trade.pnl >= 0 ? '+' : ''}${trade.pnl.toFixed(2)} ${currency}`;
+
+const CandleChart: React.FC<CandleChartProps> = ({ data, pairName, trades = NO_TRADES, currency = 'USD', levels = NO_LEVELS }) => {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candleSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
   const sma20SeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
   const sma200SeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
+  const priceLinesRef = useRef<IPriceLine[]>([]);
+  const tradesRef = useRef<BacktestTrade[]>(trades);
+  const digitsRef = useRef(getInstrument(pairName).digits);
+  const currencyRef = useRef(currency);
+  currencyRef.current = currency;
+  const [tooltip, setTooltip] = useState<MarkerTooltip | null>(null);
 
   useEffect(() => {
     if (!chartContainerRef.current) return;
@@ -21,7 +56,7 @@ const CandleChart: React.FC<CandleChartProps> = ({ data, pairName }) => {
     // Initialize Chart
     const chart = createChart(chartContainerRef.current, {
       layout: {
-        background: { type: 'Solid', color: '#0f172a' }, // Slate-900
+        background: { type: ColorType.Solid, color: '#0f172a' }, // Slate-900
         textColor: '#94a3b8',
       },
       grid: {
@@ -66,6 +101,20 @@ const CandleChart: React.FC<CandleChartProps> = ({ data, pairName }) => {
     sma20SeriesRef.current = sma20Series;
     sma200SeriesRef.current = sma200Series;
 
+    // Marker tooltip: show the trades that entered/exited on the hovered candle
+    chart.subscribeCrosshairMove(param => {
+      if (!param.point || param.time === undefined) {
+        setTooltip(null);
+        return;
+      }
+      const lines: string[] = [];
+      tradesRef.current.forEach(trade => {
+        if (trade.entryTime === param.time) lines.push(describeTrade(trade, 'ENTRY', digitsRef.current, currencyRef.current));
+        if (trade.exitTime === param.time) lines.push(describeTrade(trade, 'EXIT', digitsRef.current, currencyRef.current));
+      });
+      setTooltip(lines.length > 0 ? { x: param.point.x, y: param.point.y, lines } : null);
+    });
+
     // Resize Observer
     const handleResize = () => {
       if (chartContainerRef.current && chartRef.current) {
@@ -76,6 +125,7 @@ const CandleChart: React.FC<CandleChartProps> = ({ data, pairName }) => {
 
     return () => {
       window.removeEventListener('resize', handleResize);
+      priceLinesRef.current = [];
       chart.remove();
     };
   }, []);
@@ -112,13 +162,79 @@ const CandleChart: React.FC<CandleChartProps> = ({ data, pairName }) => {
     }
   }, [data]);
 
+  // Price scale precision follows the instrument (5 digits EURUSD, 3 USDJPY, 2 XAUUSD)
+  useEffect(() => {
+    const { digits } = getInstrument(pairName);
+    digitsRef.current = digits;
+    const priceFormat = { type: 'price' as const, precision: digits, minMove: Math.pow(10, -digits) };
+    candleSeriesRef.current?.applyOptions({ priceFormat });
+    sma20SeriesRef.current?.applyOptions({ priceFormat });
+    sma200SeriesRef.current?.applyOptions({ priceFormat });
+  }, [pairName]);
+
+  // Backtest markers: arrow at the entry, circle at the exit, green for winners
+  useEffect(() => {
+    tradesRef.current = trades;
+    if (!candleSeriesRef.current) return;
+
+    const markers: SeriesMarker<Time>[] = trades.flatMap(trade => {
+      const color = trade.pnl > 0 ? WIN_COLOR : LOSS_COLOR;
+      const isBuy = trade.type === 'BUY';
+      return [
+        {
+          time: trade.entryTime as Time,
+          position: isBuy ? 'belowBar' : 'aboveBar',
+          shape: isBuy ? 'arrowUp' : 'arrowDown',
+          color,
+        },
+        {
+          time: trade.exitTime as Time,
+          position: isBuy ? 'aboveBar' : 'belowBar',
+          shape: 'circle',
+          color,
+        },
+      ] as SeriesMarker<Time>[];
+    });
+    // Markers must be sorted by time
+    candleSeriesRef.current.setMarkers(markers.sort((a, b) => (a.time as number) - (b.time as number)));
+  }, [trades, data]);
+
+  // Analyst levels of the shown pair
+  useEffect(() => {
+    const series = candleSeriesRef.current;
+    if (!series) return;
+    priceLinesRef.current.forEach(line => series.removePriceLine(line));
+    priceLinesRef.current = levels
+      .filter(level => level.pair === pairName)
+      .map(level => series.createPriceLine({
+        price: level.price,
+        color: LEVEL_COLORS[level.kind],
+        lineWidth: 1,
+        lineStyle: LineStyle.Dashed,
+        axisLabelVisible: true,
+        title: level.label,
+      }));
+  }, [levels, pairName]);
+
+  const shownLevels = levels.filter(level => level.pair === pairName).length;
+
   return (
     <div className="w-full h-[320px] bg-slate-900 rounded-lg border border-slate-700 p-1 relative">
       <div className="absolute top-2 left-3 z-10 bg-slate-950/80 px-2 py-1 rounded border border-slate-700 pointer-events-none">
         <span className="text-xs text-white font-bold">{pairName}</span>
         <span className="text-[10px] text-emerald-500 ml-2">LIVE DATA</span>
+        {trades.length > 0 && <span className="text-[10px] text-slate-400 ml-2">{trades.length} BACKTEST TRADES</span>}
+        {shownLevels > 0 && <span className="text-[10px] text-amber-400 ml-2">{shownLevels} ANALYST LEVELS</span>}
       </div>
       <div ref={chartContainerRef} className="w-full h-full rounded overflow-hidden" />
+      {tooltip && (
+        <div
+          className="absolute z-20 pointer-events-none bg-slate-950/95 border border-slate-600 rounded px-2 py-1 text-[10px] font-mono text-slate-200 whitespace-nowrap"
+          style={{ left: tooltip.x + 12, top: Math.max(tooltip.y - 10, 0) }}
+        >
+          {tooltip.lines.map((line, i) => <div key={i}>{line}</div>)}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,57 +1,61 @@
 
 import React, { useState, useEffect } from 'react';
-import { SignalData, MarketType, ActiveTrade } from '../types';
-import { Calculator, Lock, Unlock, XCircle } from 'lucide-react';
+import { SignalData, Position, TradeManagementSettings, AccountSettings } from '../types';
+import { accountRateAt, calculatePnL, positionPnL } from '../utils/pnl';
+import { INSTRUMENT_LIST, getInstrument } from '../utils/instruments';
+import { riskAmount } from '../utils/sizing';
+import { Calculator, Unlock, XCircle, Settings2 } from 'lucide-react';
 
 interface PnLTrackerProps {
   activeSignal: SignalData | null;
-  activeTrade: ActiveTrade | null;
-  currentLivePrice: number;
-  onCloseTrade: () => void;
+  positions: Position[];
+  livePrices: Record<string, number>;
+  onClosePosition: (id: string) => void;
+  management: TradeManagementSettings;
+  onManagementChange: (settings: TradeManagementSettings) => void;
+  account: AccountSettings;
+  onAccountChange: (account: AccountSettings) => void;
+  // Prices arrive tick by tick from the relay rather than by polling
+  streaming: boolean;
 }
 
-const PnLTracker: React.FC<PnLTrackerProps> = ({ activeSignal, activeTrade, currentLivePrice, onCloseTrade }) => {
+const ACCOUNT_CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'AUD', 'CAD', 'CHF'];
+
+const formatPnL = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const STOP_LABELS: Record<Position['stopType'], string> = {
+  INITIAL: 'SL',
+  BREAKEVEN: 'BE',
+  TRAILING: 'TRAIL',
+};
+
+const pnlColor = (value: number) => value > 0 ? 'text-emerald-400' : value < 0 ? 'text-rose-400' : 'text-slate-500';
+
+const PnLTracker: React.FC<PnLTrackerProps> = ({ activeSignal, positions, livePrices, onClosePosition, management, onManagementChange, account, onAccountChange, streaming }) => {
   const [currentPriceInput, setCurrentPriceInput] = useState<string>('');
   const [entryPrice, setEntryPrice] = useState<string>('');
   const [lots, setLots] = useState<string>('0.10');
-  const [marketType, setMarketType] = useState<MarketType>(MarketType.FOREX);
+  const [instrumentPair, setInstrumentPair] = useState('EURUSD');
   const [pnl, setPnl] = useState<number | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
 
-  // Mode: If activeTrade exists, we are in "Live Tracking" mode (Locked).
-  // Otherwise, we are in "Simulation/Manual" mode (Unlocked).
+  // Mode: with open positions we are in "Live Tracking" mode.
+  // Otherwise, we are in "Simulation/Manual" mode.
+  const isLive = positions.length > 0;
+  const pnlByPosition = positions.map(p => positionPnL(p, livePrices[p.pair] ?? p.entryPrice, account.currency, livePrices));
+  const floatingPnL = pnlByPosition.reduce((sum, value) => sum + value, 0);
 
-  // 1. Handle Active Trade (Live Mode)
+  // 1. Handle Signal Pre-fill (Simulation Mode)
   useEffect(() => {
-    if (activeTrade) {
-      setEntryPrice(activeTrade.entryPrice.toString());
-      setLots(activeTrade.lotSize.toString());
-      setMarketType(activeTrade.marketType);
-      
-      // Update price automatically from live feed
-      if (currentLivePrice > 0) {
-        setCurrentPriceInput(currentLivePrice.toString());
-      }
-    }
-  }, [activeTrade, currentLivePrice]);
-
-  // 2. Handle Signal Pre-fill (Simulation Mode)
-  useEffect(() => {
-    if (!activeTrade && activeSignal && activeSignal.signal !== 'NO_SIGNAL') {
+    if (activeSignal && activeSignal.signal !== 'NO_SIGNAL') {
       setEntryPrice(activeSignal.entry_price.toString());
       setLots(activeSignal.lot_size.toString());
       setCurrentPriceInput(activeSignal.entry_price.toString());
-      
-      if (activeSignal.best_pair.includes('BTC') || activeSignal.best_pair.includes('ETH')) {
-        setMarketType(MarketType.CRYPTO);
-      } else if (activeSignal.best_pair.includes('XAU')) {
-        setMarketType(MarketType.METALS);
-      } else {
-        setMarketType(MarketType.FOREX);
-      }
+      setInstrumentPair(activeSignal.best_pair);
     }
-  }, [activeSignal, activeTrade]);
+  }, [activeSignal]);
 
-  // 3. Calculation Logic
+  // 2. Calculation Logic
   useEffect(() => {
     const entry = parseFloat(entryPrice);
     const curr = parseFloat(currentPriceInput);
@@ -62,123 +66,266 @@ const PnLTracker: React.FC<PnLTrackerProps> = ({ activeSignal, activeTrade, curr
       return;
     }
 
-    let contractSize = 100000;
-    if (marketType === MarketType.METALS) contractSize = 100;
-    if (marketType === MarketType.CRYPTO) contractSize = 1;
-
-    let direction = 1; // Default Long
-    if (activeTrade) {
-      direction = activeTrade.type === 'BUY' ? 1 : -1;
-    } else if (activeSignal?.signal === 'SELL') {
-      direction = -1;
-    }
-
-    const diff = curr - entry;
-    const profit = diff * (lotSize * contractSize) * direction;
-    setPnl(profit);
-  }, [currentPriceInput, entryPrice, lots, marketType, activeSignal, activeTrade]);
+    const type = activeSignal?.signal === 'SELL' ? 'SELL' : 'BUY'; // Default Long
+    const quotePnL = calculatePnL(type, entry, curr, lotSize, getInstrument(instrumentPair).contractSize);
+    setPnl(quotePnL * accountRateAt(instrumentPair, curr, account.currency, livePrices));
+  }, [currentPriceInput, entryPrice, lots, instrumentPair, activeSignal, account.currency]);
 
   return (
-    <div className={`bg-slate-900 border rounded-xl p-6 transition-colors duration-500 ${activeTrade ? 'border-emerald-500/50 shadow-[0_0_20px_rgba(16,185,129,0.1)]' : 'border-slate-700'}`}>
+    <div className={`bg-slate-900 border rounded-xl p-6 transition-colors duration-500 ${isLive ? 'border-emerald-500/50 shadow-[0_0_20px_rgba(16,185,129,0.1)]' : 'border-slate-700'}`}>
       <div className="flex items-center justify-between mb-6 border-b border-slate-800 pb-4">
         <div className="flex items-center gap-2">
-          <Calculator className={activeTrade ? "text-emerald-400 animate-pulse" : "text-emerald-600"} size={20} />
+          <Calculator className={isLive ? "text-emerald-400 animate-pulse" : "text-emerald-600"} size={20} />
           <h2 className="text-lg font-bold text-white tracking-wide">
-            {activeTrade ? `LIVE TRADE: ${activeTrade.pair}` : 'PNL SIMULATOR'}
+            {isLive ? `LIVE POSITIONS (${positions.length})` : 'PNL SIMULATOR'}
           </h2>
         </div>
-        
-        {activeTrade && (
-          <button 
-            onClick={onCloseTrade}
-            className="flex items-center gap-2 px-4 py-1.5 bg-rose-600 hover:bg-rose-500 shadow-lg shadow-rose-900/40 rounded-lg text-white text-xs font-bold transition-all animate-pulse"
+        <div className="flex items-center gap-3">
+          {isLive && (streaming ? (
+            <span className="text-emerald-500 font-bold animate-pulse text-[10px] font-mono" title="Ticks pushed by the relay">LIVE FEED</span>
+          ) : (
+            <span className="text-slate-500 font-bold text-[10px] font-mono" title="Prices refresh every 30-60s">POLLING</span>
+          ))}
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className={`transition-colors ${showSettings ? 'text-emerald-400' : 'text-slate-500 hover:text-white'}`}
+            title="Account & automatic SL/TP management"
           >
-            <XCircle size={16} /> CLOSE TRADE
+            <Settings2 size={16} />
           </button>
-        )}
+        </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6 relative">
-        {/* Overlay if Active Trade to prevent manual edit */}
-        {activeTrade && (
-          <div className="absolute inset-0 z-10 cursor-not-allowed" title="Fields locked during active trade"></div>
-        )}
-
-        <div>
-          <label className="flex items-center gap-2 text-xs font-mono text-slate-500 mb-1">
-            MARKET {activeTrade ? <Lock size={10}/> : <Unlock size={10}/>}
+      {/* Account (position sizing) */}
+      {showSettings && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-3 p-4 bg-slate-950 border border-slate-800 rounded-lg text-xs font-mono text-slate-400">
+          <label className="flex flex-col gap-1">
+            BALANCE
+            <input
+              type="number"
+              min={0}
+              value={account.balance}
+              onChange={(e) => onAccountChange({ ...account, balance: Number(e.target.value) })}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            CURRENCY
+            <select
+              value={account.currency}
+              onChange={(e) => onAccountChange({ ...account, currency: e.target.value })}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500"
+            >
+              {ACCOUNT_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1" title={`Risk per trade: ${riskAmount(account).toFixed(2)} ${account.currency}`}>
+            RISK %
+            <input
+              type="number"
+              min={0}
+              step="0.1"
+              value={account.riskPercent}
+              onChange={(e) => onAccountChange({ ...account, riskPercent: Number(e.target.value) })}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            MAX LOT
+            <input
+              type="number"
+              min={0.01}
+              step="0.01"
+              value={account.maxLot}
+              onChange={(e) => onAccountChange({ ...account, maxLot: Number(e.target.value) })}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500"
+            />
           </label>
-          <select 
-            value={marketType}
-            onChange={(e) => setMarketType(e.target.value as MarketType)}
-            className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-emerald-500 outline-none"
-            disabled={!!activeTrade}
-          >
-            <option value={MarketType.FOREX}>FOREX (100k)</option>
-            <option value={MarketType.METALS}>METALS (100)</option>
-            <option value={MarketType.CRYPTO}>CRYPTO (1)</option>
-          </select>
         </div>
-        
-        <div>
-          <label className="flex items-center gap-2 text-xs font-mono text-slate-500 mb-1">
-            ENTRY {activeTrade ? <Lock size={10}/> : <Unlock size={10}/>}
+      )}
+
+      {/* Trade Management Settings */}
+      {showSettings && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6 p-4 bg-slate-950 border border-slate-800 rounded-lg text-xs font-mono text-slate-400">
+          <label className="flex flex-col gap-1">
+            TP1 CLOSE %
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={management.partialClosePercent.tp1}
+              onChange={(e) => onManagementChange({ ...management, partialClosePercent: { ...management.partialClosePercent, tp1: Number(e.target.value) } })}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            TP2 CLOSE %
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={management.partialClosePercent.tp2}
+              onChange={(e) => onManagementChange({ ...management, partialClosePercent: { ...management.partialClosePercent, tp2: Number(e.target.value) } })}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500"
+            />
           </label>
-          <input 
-            type="number" 
-            value={entryPrice}
-            onChange={(e) => setEntryPrice(e.target.value)}
-            className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-emerald-500 outline-none font-mono"
-            placeholder="0.0000"
-            disabled={!!activeTrade}
-          />
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={management.moveToBreakEven}
+              onChange={(e) => onManagementChange({ ...management, moveToBreakEven: e.target.checked })}
+              className="accent-emerald-500"
+            />
+            BREAK-EVEN AFTER TP1
+          </label>
+          <div className="flex flex-col gap-1">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={management.trailingStop.enabled}
+                onChange={(e) => onManagementChange({ ...management, trailingStop: { ...management.trailingStop, enabled: e.target.checked } })}
+                className="accent-emerald-500"
+              />
+              ATR TRAILING ×
+            </label>
+            <input
+              type="number"
+              step="0.1"
+              min={0.1}
+              value={management.trailingStop.atrMultiplier}
+              disabled={!management.trailingStop.enabled}
+              onChange={(e) => onManagementChange({ ...management, trailingStop: { ...management.trailingStop, atrMultiplier: Number(e.target.value) } })}
+              className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-white outline-none focus:border-emerald-500 disabled:opacity-40"
+            />
+          </div>
         </div>
+      )}
 
-        <div>
-           <label className="flex items-center gap-2 text-xs font-mono text-slate-500 mb-1">
-             LOTS {activeTrade ? <Lock size={10}/> : <Unlock size={10}/>}
-           </label>
-           <input 
-            type="number" 
-            value={lots}
-            onChange={(e) => setLots(e.target.value)}
-            className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-emerald-500 outline-none font-mono"
-            step="0.01"
-            disabled={!!activeTrade}
-          />
+      {isLive ? (
+        <div className="space-y-2 mb-6">
+          {positions.map((position, i) => (
+            <div key={position.id} className="grid grid-cols-12 items-center gap-2 bg-slate-950 border border-slate-800 rounded-lg px-4 py-3 font-mono text-xs">
+              <div className="col-span-3 flex items-center gap-2">
+                <span className="font-bold text-white text-sm">{position.pair}</span>
+                <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${position.type === 'BUY' ? 'bg-emerald-900/30 text-emerald-500' : 'bg-rose-900/30 text-rose-500'}`}>
+                  {position.type}
+                </span>
+              </div>
+              <div className="col-span-2 text-slate-400">
+                {position.lotSize}{position.initialLotSize && position.initialLotSize !== position.lotSize ? `/${position.initialLotSize}` : ''} lots
+              </div>
+              <div className="col-span-3 text-slate-400">
+                {position.entryPrice} → <span className="text-emerald-400">{livePrices[position.pair] ?? '--'}</span>
+                {position.stopLoss ? (
+                  <div className="flex items-center gap-2 mt-1 text-[10px]">
+                    <span className={position.stopType === 'INITIAL' ? 'text-rose-500' : 'text-amber-400'}>
+                      {STOP_LABELS[position.stopType]} {position.stopLoss.toFixed(getInstrument(position.pair).digits)}
+                    </span>
+                    {[1, 2, 3].map(n => (
+                      <span key={n} className={position.targetsHit >= n ? 'text-emerald-400 font-bold' : 'text-slate-600'}>TP{n}</span>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="mt-1 text-[10px] text-slate-600">UNMANAGED</div>
+                )}
+              </div>
+              <div className={`col-span-2 text-right font-bold text-sm ${pnlColor(pnlByPosition[i])}`}>
+                {formatPnL(pnlByPosition[i])}
+              </div>
+              <div className="col-span-2 flex justify-end">
+                <button
+                  onClick={() => onClosePosition(position.id)}
+                  className="flex items-center gap-1 px-3 py-1 bg-rose-600 hover:bg-rose-500 shadow-lg shadow-rose-900/40 rounded text-white text-[10px] font-bold transition-all"
+                  title={`Opened ${new Date(position.openTime).toLocaleTimeString()}`}
+                >
+                  <XCircle size={12} /> CLOSE
+                </button>
+              </div>
+            </div>
+          ))}
         </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+          <div>
+            <label className="flex items-center gap-2 text-xs font-mono text-slate-500 mb-1">
+              INSTRUMENT <Unlock size={10}/>
+            </label>
+            <select
+              value={instrumentPair}
+              onChange={(e) => setInstrumentPair(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-emerald-500 outline-none"
+            >
+              {INSTRUMENT_LIST.map(instrument => (
+                <option key={instrument.symbol} value={instrument.symbol}>
+                  {instrument.symbol} ({instrument.contractSize.toLocaleString()})
+                </option>
+              ))}
+            </select>
+          </div>
 
-        <div>
-          <label className="flex items-center gap-2 text-xs font-mono text-slate-500 mb-1">
-            CURRENT PRICE {activeTrade ? <span className="text-emerald-500 font-bold animate-pulse text-[10px] ml-auto">LIVE FEED</span> : null}
-          </label>
-          <input 
-            type="number" 
-            value={currentPriceInput}
-            onChange={(e) => setCurrentPriceInput(e.target.value)}
-            className={`w-full bg-slate-950 border rounded px-3 py-2 text-sm text-white focus:border-emerald-500 outline-none font-mono ${activeTrade ? 'border-emerald-900/50 text-emerald-400' : 'border-slate-700'}`}
-            placeholder="0.0000"
-            disabled={!!activeTrade}
-          />
+          <div>
+            <label className="flex items-center gap-2 text-xs font-mono text-slate-500 mb-1">
+              ENTRY <Unlock size={10}/>
+            </label>
+            <input
+              type="number"
+              value={entryPrice}
+              onChange={(e) => setEntryPrice(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-emerald-500 outline-none font-mono"
+              placeholder="0.0000"
+            />
+          </div>
+
+          <div>
+             <label className="flex items-center gap-2 text-xs font-mono text-slate-500 mb-1">
+               LOTS <Unlock size={10}/>
+               {activeSignal && activeSignal.signal !== 'NO_SIGNAL' && (
+                 <span className="text-slate-600" title="Sized from the account balance, risk % and stop distance">
+                   {account.riskPercent}% = {riskAmount(account).toFixed(0)} {account.currency}
+                 </span>
+               )}
+             </label>
+             <input
+              type="number"
+              value={lots}
+              onChange={(e) => setLots(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-emerald-500 outline-none font-mono"
+              step="0.01"
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-xs font-mono text-slate-500 mb-1">
+              CURRENT PRICE
+            </label>
+            <input
+              type="number"
+              value={currentPriceInput}
+              onChange={(e) => setCurrentPriceInput(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-sm text-white focus:border-emerald-500 outline-none font-mono"
+              placeholder="0.0000"
+            />
+          </div>
         </div>
-      </div>
+      )}
 
       <div className="bg-slate-950 rounded-lg p-6 flex flex-col items-center justify-center border border-slate-800 relative overflow-hidden">
          <span className="text-slate-500 text-xs font-mono uppercase tracking-widest mb-1">
-           {activeTrade ? 'REAL-TIME PROFIT/LOSS' : 'ESTIMATED PROFIT/LOSS'}
+           {isLive ? 'FLOATING PROFIT/LOSS (ALL POSITIONS)' : 'ESTIMATED PROFIT/LOSS'}
          </span>
-         <div className={`text-5xl font-black tracking-tight transition-all duration-300 ${pnl && pnl > 0 ? 'text-emerald-400 drop-shadow-[0_0_10px_rgba(52,211,153,0.3)]' : pnl && pnl < 0 ? 'text-rose-400 drop-shadow-[0_0_10px_rgba(244,63,94,0.3)]' : 'text-slate-500'}`}>
-            {pnl !== null ? (
-              <>
-                {pnl > 0 ? '+' : ''}{pnl.toFixed(2)} <span className="text-xl font-medium text-slate-600">USD</span>
-              </>
-            ) : (
-              '--.--'
-            )}
-         </div>
-         {activeTrade && (
-           <div className="mt-2 text-xs font-mono text-slate-500">
-             Trade Open: {new Date(activeTrade.openTime).toLocaleTimeString()} | Direction: <span className={activeTrade.type === 'BUY' ? 'text-emerald-500' : 'text-rose-500'}>{activeTrade.type}</span>
+         {isLive ? (
+           <div className={`text-5xl font-black tracking-tight transition-all duration-300 ${pnlColor(floatingPnL)}`}>
+             {formatPnL(floatingPnL)} <span className="text-xl font-medium text-slate-600">{account.currency}</span>
+           </div>
+         ) : (
+           <div className={`text-5xl font-black tracking-tight transition-all duration-300 ${pnl && pnl > 0 ? 'text-emerald-400 drop-shadow-[0_0_10px_rgba(52,211,153,0.3)]' : pnl && pnl < 0 ? 'text-rose-400 drop-shadow-[0_0_10px_rgba(244,63,94,0.3)]' : 'text-slate-500'}`}>
+              {pnl !== null ? (
+                <>
+                  {formatPnL(pnl)} <span className="text-xl font-medium text-slate-600">{account.currency}</span>
+                </>
+              ) : (
+                '--.--'
+              )}
            </div>
          )}
       </div>
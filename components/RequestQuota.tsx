@@ -0,0 +1,55 @@
+import React, { useState, useEffect } from 'react';
+import { Gauge } from 'lucide-react';
+import { BudgetStatus, getSchedulerStatus, subscribeScheduler } from '../services/requestScheduler';
+
+// Tokens refill continuously and cooldowns count down: redraw at least this often
+const REFRESH_MS = 1000;
+
+const pillClass = (budget: BudgetStatus, now: number) => {
+  if (budget.cooldownUntil > now) return 'bg-rose-950 text-rose-400 border-rose-900';
+  if (budget.queued > 0 || budget.tokens < 1) return 'bg-amber-950 text-amber-400 border-amber-900';
+  return 'bg-emerald-950 text-emerald-400 border-emerald-900';
+};
+
+const describe = (budget: BudgetStatus, now: number) => [
+  `${budget.label}: ${budget.tokens}/${budget.capacity} requests available`,
+  `${budget.queued} queued, ${budget.inFlight} in flight`,
+  `${budget.requests} sent, ${budget.rateLimited} rate limited, ${budget.failures} failed`,
+  ...(budget.cooldownUntil > now ? [`Cooling down for ${Math.ceil((budget.cooldownUntil - now) / 1000)}s`] : []),
+  ...(budget.lastError ? [`Last error: ${budget.lastError}`] : [])
+].join('\n');
+
+// Per-provider quota and health from the request scheduler
+const RequestQuota: React.FC = () => {
+  const [budgets, setBudgets] = useState<BudgetStatus[]>(() => getSchedulerStatus());
+
+  useEffect(() => {
+    const refresh = () => setBudgets(getSchedulerStatus());
+    const unsubscribe = subscribeScheduler(refresh);
+    const interval = setInterval(refresh, REFRESH_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (budgets.length === 0) return null;
+
+  const now = Date.now();
+  return (
+    <div className="flex items-center gap-1" title="Request quota per provider">
+      <Gauge size={16} className="text-slate-500" />
+      {budgets.map(budget => (
+        <span
+          key={budget.id}
+          className={`px-2 py-1 text-[10px] font-bold font-mono rounded border ${pillClass(budget, now)}`}
+          title={describe(budget, now)}
+        >
+          {budget.label.toUpperCase()} {budget.cooldownUntil > now ? `${Math.ceil((budget.cooldownUntil - now) / 1000)}s` : budget.queued > 0 ? `+${budget.queued}` : budget.tokens}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default RequestQuota;
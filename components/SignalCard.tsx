@@ -1,7 +1,10 @@
 
-import React, { useState } from 'react';
-import { SignalData, Candle, BacktestResult } from '../types';
-import { runBacktest } from '../utils/backtest';
+import React, { useEffect, useState } from 'react';
+import { SignalData, Candle, BacktestResult, BacktestSettings, BacktestExitRule, Timeframe } from '../types';
+import { runBacktest, DEFAULT_BACKTEST_CONFIG } from '../utils/backtest';
+import { loadSettings, saveSettings, BACKTEST_KEY } from '../utils/settings';
+import { modelSpreadPips } from '../utils/pricing';
+import { INSTRUMENT_LIST } from '../utils/instruments';
 import { ArrowUpCircle, ArrowDownCircle, AlertCircle, Copy, Terminal, Trophy, Target, TrendingUp, Zap, History, BarChart } from 'lucide-react';
 
 interface SignalCardProps {
@@ -10,22 +13,59 @@ interface SignalCardProps {
   loading: boolean;
   onExecute: (signal: SignalData) => void;
   isTradeActive: boolean;
+  onBacktest?: (result: BacktestResult, pair: string) => void; // Chart markers + equity curve
+  accountCurrency?: string;
+  prices?: Record<string, number>; // Cross rates for converting backtest PnL
 }
 
-const SignalCard: React.FC<SignalCardProps> = ({ signalData, history, loading, onExecute, isTradeActive }) => {
+// What a market scan covers, for the loading state
+const SCAN_PAIR_COUNT = INSTRUMENT_LIST.length;
+const SCAN_ASSETS = Array.from(new Set(INSTRUMENT_LIST.map(instrument => instrument.base))).join(', ');
+
+const formatMoney = (value: number, currency: string) =>
+  value.toLocaleString('en-US', { style: 'currency', currency, maximumFractionDigits: 0 });
+
+const formatDay = (time: number) => new Date(time * 1000).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+const SignalCard: React.FC<SignalCardProps> = ({ signalData, history, loading, onExecute, isTradeActive, onBacktest, accountCurrency = 'USD', prices }) => {
   const [backtestStats, setBacktestStats] = useState<BacktestResult | null>(null);
   const [isBacktesting, setIsBacktesting] = useState(false);
+  // History the last backtest replayed (grows as the candle store backfills)
+  const [backtestRange, setBacktestRange] = useState<{ bars: number; from: number; to: number } | null>(null);
+  const [backtestSettings, setBacktestSettings] = useState<BacktestSettings>(
+    () => loadSettings(BACKTEST_KEY, DEFAULT_BACKTEST_CONFIG)
+  );
+
+  // Results are in the account currency they were run with
+  useEffect(() => setBacktestStats(null), [accountCurrency]);
+
+  const updateBacktestSettings = (changes: Partial<BacktestSettings>) => {
+    const next = { ...backtestSettings, ...changes };
+    setBacktestSettings(next);
+    saveSettings(BACKTEST_KEY, next);
+  };
 
   const handleBacktest = () => {
     if (!signalData || !history) return;
     setIsBacktesting(true);
     
-    // Simulate async calculation for UI feel
+    // Let the spinner render before the synchronous replay
     setTimeout(() => {
-      const stats = runBacktest(history, signalData.signal as 'BUY' | 'SELL', signalData.lot_size);
+      const stats = runBacktest(history, {
+        ...DEFAULT_BACKTEST_CONFIG,
+        ...backtestSettings,
+        pair: signalData.best_pair,
+        timeframe: signalData.timeframe as Timeframe,
+        direction: signalData.signal as 'BUY' | 'SELL',
+        lotSize: signalData.lot_size,
+        accountCurrency,
+        prices
+      });
       setBacktestStats(stats);
+      setBacktestRange({ bars: history.length, from: history[0]?.time ?? 0, to: history[history.length - 1]?.time ?? 0 });
+      onBacktest?.(stats, signalData.best_pair);
       setIsBacktesting(false);
-    }, 800);
+    }, 50);
   };
 
   if (loading) {
@@ -33,8 +73,8 @@ const SignalCard: React.FC<SignalCardProps> = ({ signalData, history, loading, o
       <div className="w-full h-full min-h-[400px] flex flex-col items-center justify-center bg-slate-900 border border-slate-700 rounded-xl animate-pulse relative overflow-hidden">
         <div className="absolute inset-0 bg-gradient-to-t from-emerald-900/20 to-transparent"></div>
         <div className="w-16 h-16 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin mb-6 z-10"></div>
-        <span className="text-emerald-500 font-bold font-mono text-lg tracking-widest z-10">SCANNING 18 PAIRS...</span>
-        <span className="text-slate-500 text-xs font-mono mt-2 z-10">EUR, GBP, JPY, CAD, AUD, XAU, NZD</span>
+        <span className="text-emerald-500 font-bold font-mono text-lg tracking-widest z-10">SCANNING {SCAN_PAIR_COUNT} PAIRS...</span>
+        <span className="text-slate-500 text-xs font-mono mt-2 z-10">{SCAN_ASSETS}</span>
       </div>
     );
   }
@@ -55,6 +95,13 @@ const SignalCard: React.FC<SignalCardProps> = ({ signalData, history, loading, o
   // Handling "NONE" pair for waiting state
   const displayPair = signalData.best_pair === 'NONE' ? 'NO SETUP' : signalData.best_pair;
 
+  // A signal that fights the higher timeframe trend is shown but not executable
+  const htfConflict = !!signalData.htf_trend && !signalData.htf_trend.aligned;
+  // Model signals that failed the sanity checks (utils/signalValidation.ts) are shown but not executable
+  const rejected = signalData.validation?.status === 'REJECTED';
+  const repaired = signalData.validation?.status === 'REPAIRED';
+  const executeDisabled = isTradeActive || htfConflict || rejected;
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 h-full">
       
@@ -77,10 +124,18 @@ const SignalCard: React.FC<SignalCardProps> = ({ signalData, history, loading, o
             <div>
                <h1 className="text-3xl font-black tracking-tighter text-white">{displayPair}</h1>
                <div className="flex gap-2 mt-1">
-                 <span className="px-2 py-0.5 rounded text-xs font-bold bg-slate-800 text-slate-400">M5</span>
+                 <span className="px-2 py-0.5 rounded text-xs font-bold bg-slate-800 text-slate-400">{signalData.timeframe}</span>
                  <span className={`px-2 py-0.5 rounded text-xs font-bold ${isBuy ? 'bg-emerald-900/50 text-emerald-400' : isSell ? 'bg-rose-900/50 text-rose-400' : 'bg-slate-800 text-slate-500'}`}>
                     {signalData.trend}
                  </span>
+                 {signalData.htf_trend && (
+                   <span
+                     className={`px-2 py-0.5 rounded text-xs font-bold ${signalData.htf_trend.aligned ? 'bg-emerald-900/50 text-emerald-400' : 'bg-amber-900/50 text-amber-400'}`}
+                     title={`${signalData.htf_trend.timeframe} trend: ${signalData.htf_trend.trend}`}
+                   >
+                     {signalData.htf_trend.timeframe} {signalData.htf_trend.aligned ? 'ALIGNED' : 'CONFLICT'}
+                   </span>
+                 )}
                </div>
             </div>
             {!noSignal && (
@@ -104,7 +159,22 @@ const SignalCard: React.FC<SignalCardProps> = ({ signalData, history, loading, o
            <h2 className={`text-4xl font-black tracking-tighter ${isBuy ? 'text-emerald-400' : isSell ? 'text-rose-400' : 'text-slate-500'}`}>
              {signalData.signal === 'NO_SIGNAL' ? 'WAIT' : signalData.signal}
            </h2>
+           {htfConflict && (
+             <span className="mt-2 text-[10px] font-mono text-amber-400 text-center">
+               AGAINST {signalData.htf_trend!.timeframe} {signalData.htf_trend!.trend} - NOT VALID
+             </span>
+           )}
         </div>
+
+        {/* Sanity checks on the model's levels */}
+        {(rejected || repaired) && (
+          <div className={`mx-6 mb-4 p-2 rounded border text-[10px] font-mono ${rejected ? 'bg-rose-950/40 border-rose-900 text-rose-400' : 'bg-amber-950/40 border-amber-900 text-amber-400'}`}>
+            <span className="font-bold">{rejected ? 'REJECTED' : 'REPAIRED'}:</span>
+            <ul className="mt-1 space-y-0.5">
+              {signalData.validation!.issues.map(issue => <li key={issue}>- {issue}</li>)}
+            </ul>
+          </div>
+        )}
         
         {/* Action Buttons */}
         {!noSignal && (
@@ -120,42 +190,125 @@ const SignalCard: React.FC<SignalCardProps> = ({ signalData, history, loading, o
              
              <button
                onClick={() => onExecute(signalData)}
-               disabled={isTradeActive}
+               disabled={executeDisabled}
                className={`flex-[2] py-3 rounded-lg font-bold flex items-center justify-center gap-2 transition-all shadow-lg text-xs ${
-                 isTradeActive 
+                 executeDisabled 
                  ? 'bg-slate-800 text-slate-500 cursor-not-allowed border border-slate-700'
                  : isBuy 
                    ? 'bg-emerald-600 hover:bg-emerald-500 text-white shadow-emerald-900/50 animate-pulse' 
                    : 'bg-rose-600 hover:bg-rose-500 text-white shadow-rose-900/50 animate-pulse'
                }`}
              >
-               <Zap size={16} className={isTradeActive ? "" : "fill-current"} />
-               {isTradeActive ? 'ACTIVE' : 'AUTO EXECUTE'}
+               <Zap size={16} className={executeDisabled ? "" : "fill-current"} />
+               {isTradeActive ? 'ACTIVE' : rejected ? 'REJECTED' : htfConflict ? 'HTF CONFLICT' : 'AUTO EXECUTE'}
              </button>
            </div>
         )}
 
-        {/* Backtest Results Overlay */}
+        {/* Backtest Settings */}
+        {!noSignal && (
+          <div className="mx-6 mb-3 grid grid-cols-4 gap-2 text-[9px] font-mono text-slate-500 uppercase">
+            <label className="flex flex-col gap-1">
+              Exit
+              <select
+                value={backtestSettings.exitRule}
+                onChange={(e) => updateBacktestSettings({ exitRule: e.target.value as BacktestExitRule })}
+                className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+              >
+                <option value="TP1">TP1</option>
+                <option value="TP2">TP2</option>
+                <option value="TP3">TP3</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1" title="Close at market after N bars (0 = off)">
+              Time Stop
+              <input
+                type="number"
+                min={0}
+                value={backtestSettings.timeStopBars}
+                onChange={(e) => updateBacktestSettings({ timeStopBars: Number(e.target.value) })}
+                className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+              />
+            </label>
+            <label className="flex flex-col gap-1" title={`Spread and slippage in pips. The spread applies to ${signalData.best_pair} when the feed has no bid/ask`}>
+              Spread/Slip
+              <div className="flex gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={modelSpreadPips(signalData.best_pair, backtestSettings.spreadOverrides)}
+                  onChange={(e) => updateBacktestSettings({
+                    spreadOverrides: { ...backtestSettings.spreadOverrides, [signalData.best_pair]: Number(e.target.value) }
+                  })}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={backtestSettings.slippagePips}
+                  onChange={(e) => updateBacktestSettings({ slippagePips: Number(e.target.value) })}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+                />
+              </div>
+            </label>
+            <label className="flex flex-col gap-1" title="Round turn commission per lot">
+              Comm/Lot
+              <input
+                type="number"
+                min={0}
+                step="0.5"
+                value={backtestSettings.commissionPerLot}
+                onChange={(e) => updateBacktestSettings({ commissionPerLot: Number(e.target.value) })}
+                className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-xs text-white outline-none"
+              />
+            </label>
+          </div>
+        )}
+
+        {/* Backtest Results */}
         {backtestStats && (
-          <div className="mx-6 mb-4 p-3 bg-slate-950/80 rounded border border-slate-700 grid grid-cols-3 text-center gap-2">
-            <div>
-              <span className="block text-[9px] text-slate-500 uppercase">Win Rate</span>
-              <span className={`text-sm font-bold ${backtestStats.winRate > 50 ? 'text-emerald-400' : 'text-rose-400'}`}>
-                {backtestStats.winRate.toFixed(1)}%
-              </span>
-            </div>
-             <div>
-              <span className="block text-[9px] text-slate-500 uppercase">Trades</span>
-              <span className="text-sm font-bold text-white">
-                {backtestStats.trades}
-              </span>
-            </div>
-             <div>
-              <span className="block text-[9px] text-slate-500 uppercase">Est. PnL</span>
-              <span className={`text-sm font-bold ${backtestStats.totalPnL > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
-                ${backtestStats.totalPnL.toFixed(0)}
-              </span>
+          <div className="mx-6 mb-4 bg-slate-950/80 rounded border border-slate-700">
+            <div className="p-3 grid grid-cols-4 text-center gap-y-3 gap-x-2">
+              {[
+                { label: 'Trades', value: `${backtestStats.trades}`, color: 'text-white' },
+                { label: 'Win Rate', value: `${backtestStats.winRate.toFixed(1)}%`, color: backtestStats.winRate > 50 ? 'text-emerald-400' : 'text-rose-400' },
+                { label: 'Net PnL', value: formatMoney(backtestStats.totalPnL, accountCurrency), color: backtestStats.totalPnL > 0 ? 'text-emerald-400' : 'text-rose-400' },
+                { label: 'Profit F.', value: backtestStats.profitFactor.toFixed(2), color: backtestStats.profitFactor > 1 ? 'text-emerald-400' : 'text-rose-400' },
+                { label: 'Expect.', value: `${backtestStats.expectancyR.toFixed(2)}R`, color: backtestStats.expectancyR > 0 ? 'text-emerald-400' : 'text-rose-400' },
+                { label: 'Max DD', value: `${formatMoney(-backtestStats.maxDrawdown, accountCurrency)} (${backtestStats.maxDrawdownPercent.toFixed(1)}%)`, color: 'text-rose-400' },
+                { label: 'Avg W/L', value: `${formatMoney(backtestStats.avgWin, accountCurrency)}/${formatMoney(backtestStats.avgLoss, accountCurrency)}`, color: 'text-slate-300' },
+                { label: 'Lose Strk', value: `${backtestStats.longestLosingStreak}`, color: 'text-white' },
+                { label: 'Sharpe', value: backtestStats.sharpe.toFixed(2), color: backtestStats.sharpe > 0 ? 'text-emerald-400' : 'text-rose-400' },
+              ].map(stat => (
+                <div key={stat.label}>
+                  <span className="block text-[9px] text-slate-500 uppercase">{stat.label}</span>
+                  <span className={`text-xs font-bold font-mono ${stat.color}`}>{stat.value}</span>
+                </div>
+              ))}
             </div>
+
+            {backtestRange && (
+              <div className="px-3 pb-2 text-center text-[9px] text-slate-600 font-mono">
+                {backtestRange.bars} bars · {formatDay(backtestRange.from)} → {formatDay(backtestRange.to)}
+              </div>
+            )}
+
+            {/* Trade Ledger */}
+            {backtestStats.ledger.length > 0 && (
+              <div className="border-t border-slate-800 max-h-32 overflow-y-auto custom-scrollbar text-[10px] font-mono">
+                {backtestStats.ledger.map((trade, i) => (
+                  <div key={i} className="grid grid-cols-5 gap-1 px-3 py-1 border-b border-slate-900 text-slate-400">
+                    <span>{new Date(trade.entryTime * 1000).toLocaleString([], { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                    <span className={trade.type === 'BUY' ? 'text-emerald-500' : 'text-rose-500'}>{trade.type}</span>
+                    <span>{trade.exitReason} · {trade.bars}b</span>
+                    <span className={trade.rMultiple > 0 ? 'text-emerald-400' : 'text-rose-400'}>{trade.rMultiple.toFixed(2)}R</span>
+                    <span className={`text-right ${trade.pnl > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatMoney(trade.pnl, accountCurrency)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         )}
 
@@ -173,15 +326,19 @@ const SignalCard: React.FC<SignalCardProps> = ({ signalData, history, loading, o
                 </div>
              </div>
              
-             {/* Profit Targets */}
+             {/* Profit Targets (estimated profits in the account currency) */}
              <div className="p-3 space-y-2">
+                <div className="flex justify-between items-center text-xs">
+                   <span className="text-slate-400 font-mono">SIZE</span>
+                   <span className="text-white font-mono font-bold">{signalData.lot_size} LOTS</span>
+                </div>
                 <div className="flex justify-between items-center text-xs">
                    <span className="text-slate-400 flex items-center gap-1"><Target size={12}/> TP1 (1.5R)</span>
-                   <span className="text-emerald-400 font-mono">{signalData.tp1} <span className="text-emerald-700 ml-1">(${signalData.estimated_profit_tp1})</span></span>
+                   <span className="text-emerald-400 font-mono">{signalData.tp1} <span className="text-emerald-700 ml-1">(+{signalData.estimated_profit_tp1} {accountCurrency})</span></span>
                 </div>
                 <div className="flex justify-between items-center text-xs">
                    <span className="text-slate-400 flex items-center gap-1"><Target size={12}/> TP2 (2.0R)</span>
-                   <span className="text-emerald-400 font-mono">{signalData.tp2} <span className="text-emerald-700 ml-1">(${signalData.estimated_profit_tp2})</span></span>
+                   <span className="text-emerald-400 font-mono">{signalData.tp2} <span className="text-emerald-700 ml-1">(+{signalData.estimated_profit_tp2} {accountCurrency})</span></span>
                 </div>
              </div>
           </div>
@@ -202,6 +359,16 @@ const SignalCard: React.FC<SignalCardProps> = ({ signalData, history, loading, o
           <span className="text-xs font-mono text-emerald-500 flex items-center gap-2">
             <Terminal size={14} /> JSON_OUTPUT_STREAM
           </span>
+          {signalData.scan && (
+            <span
+              className="text-[10px] font-mono text-slate-500 ml-auto mr-3"
+              title={`Prompt ${signalData.scan.usage.prompt} / output ${signalData.scan.usage.output} / thinking ${signalData.scan.usage.thinking} tokens, ${(signalData.scan.durationMs / 1000).toFixed(1)}s`}
+            >
+              {(signalData.scan.model || signalData.scan.backend).toUpperCase()} · {signalData.scan.pairs} PAIRS · {signalData.scan.batches} {signalData.scan.batches === 1 ? 'BATCH' : 'BATCHES'}
+              {signalData.scan.failedBatches > 0 && <span className="text-amber-400"> ({signalData.scan.failedBatches} RULES)</span>}
+              {' · '}{signalData.scan.usage.total.toLocaleString()} TOKENS
+            </span>
+          )}
           <button 
             onClick={() => navigator.clipboard.writeText(JSON.stringify(signalData, null, 2))}
             className="text-slate-500 hover:text-white transition-colors"
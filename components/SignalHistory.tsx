@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { SignalOutcome, SignalRecord } from '../types';
+import { getInstrument } from '../utils/instruments';
+import { isHit, strengthBucket, summarizeSignals, SIGNAL_EXPIRY_BARS } from '../utils/signalHistory';
+import { exportFixtureBundle } from '../utils/fixtureStore';
+import { Download, Target } from 'lucide-react';
+
+interface SignalHistoryProps {
+  history: SignalRecord[];
+}
+
+type Grouping = 'PAIR' | 'DIRECTION' | 'STRENGTH' | 'PROMPT';
+
+const GROUPINGS: Record<Grouping, (record: SignalRecord) => string> = {
+  PAIR: record => record.signal.best_pair,
+  DIRECTION: record => record.signal.signal,
+  STRENGTH: record => strengthBucket(record.signal.strength_score),
+  PROMPT: record => record.signal.scan?.promptVersion || record.source,
+};
+
+const RECENT_LIMIT = 15;
+
+// '80-89' -> 80, '<60' -> 0
+const bucketFloor = (bucket: string) => parseInt(bucket, 10) || 0;
+
+const outcomeClass = (outcome: SignalOutcome) => {
+  if (isHit(outcome)) return 'bg-emerald-950 text-emerald-400';
+  if (outcome === 'SL') return 'bg-rose-950 text-rose-400';
+  if (outcome === 'EXPIRED') return 'bg-slate-800 text-slate-400';
+  if (outcome === 'REJECTED') return 'bg-slate-800 text-rose-300';
+  return 'bg-amber-950 text-amber-400';
+};
+
+// Recorded prompts/replies and the candles that followed, for prompt_eval.js
+const exportFixtures = async () => {
+  try {
+    const bundle = await exportFixtureBundle();
+    const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `titansignal-fixtures-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  } catch (e) {
+    console.error("Fixture Store Error:", e);
+  }
+};
+
+const hitRateClass = (rate: number) => rate >= 50 ? 'text-emerald-400' : rate >= 35 ? 'text-amber-400' : 'text-rose-400';
+
+// Every recorded BUY/SELL and how it played out, with hit rates per group
+const SignalHistory: React.FC<SignalHistoryProps> = ({ history }) => {
+  const [grouping, setGrouping] = useState<Grouping>('STRENGTH');
+
+  const overall = useMemo(() => summarizeSignals(history, () => 'ALL')[0], [history]);
+  const groups = useMemo(() => {
+    const stats = summarizeSignals(history, GROUPINGS[grouping]);
+    // Score buckets read best top-down
+    return grouping === 'STRENGTH' ? stats.sort((a, b) => bucketFloor(b.key) - bucketFloor(a.key)) : stats;
+  }, [history, grouping]);
+  const recent = useMemo(() => history.slice(-RECENT_LIMIT).reverse(), [history]);
+
+  return (
+    <div className="bg-slate-900 border border-slate-700 rounded-xl overflow-hidden">
+      <div className="p-4 border-b border-slate-800 flex justify-between items-center bg-slate-950/50">
+        <div className="flex items-center gap-2 text-white font-bold">
+          <Target size={18} className="text-emerald-500" />
+          <span className="tracking-wider text-sm">SIGNAL HISTORY</span>
+        </div>
+        <div className="flex items-center gap-3">
+          {overall && (
+            <div className="text-[10px] font-mono text-slate-400 flex items-center gap-3">
+              <span>{overall.signals} SIGNALS</span>
+              <span>{overall.open} OPEN</span>
+              {overall.rejected > 0 && <span title="Model signals that failed validation; not in the hit rate">{overall.rejected} REJECTED</span>}
+              <span className={`text-sm font-bold ${hitRateClass(overall.hitRate)}`} title="Resolved signals that reached at least TP1">
+                {overall.resolved > 0 ? `${overall.hitRate.toFixed(0)}% HIT` : '—'}
+              </span>
+            </div>
+          )}
+          <button
+            onClick={exportFixtures}
+            className="text-slate-500 hover:text-white transition-colors"
+            title="Export recorded prompts and replies for npm run eval"
+          >
+            <Download size={14} />
+          </button>
+        </div>
+      </div>
+
+      {history.length === 0 ? (
+        <div className="p-6 text-center text-xs font-mono text-slate-600">
+          NO SIGNALS RECORDED YET. EVERY BUY/SELL FROM A SCAN IS TRACKED TO TP, SL OR {SIGNAL_EXPIRY_BARS} BARS.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-800">
+          {/* Hit rates by group */}
+          <div className="p-3">
+            <div className="flex gap-1 mb-2">
+              {(Object.keys(GROUPINGS) as Grouping[]).map(g => (
+                <button
+                  key={g}
+                  onClick={() => setGrouping(g)}
+                  className={`px-2 py-0.5 text-[10px] font-bold rounded ${grouping === g ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-white'}`}
+                >
+                  {g}
+                </button>
+              ))}
+            </div>
+            <table className="w-full text-[10px] font-mono">
+              <thead>
+                <tr className="text-slate-500 text-left">
+                  <th className="font-bold py-1">{grouping}</th>
+                  <th className="font-bold text-right">N</th>
+                  <th className="font-bold text-right">TP1</th>
+                  <th className="font-bold text-right">TP2</th>
+                  <th className="font-bold text-right">TP3</th>
+                  <th className="font-bold text-right">SL</th>
+                  <th className="font-bold text-right">EXP</th>
+                  <th className="font-bold text-right">HIT</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(stats => (
+                  <tr key={stats.key} className="border-t border-slate-800 text-slate-300">
+                    <td className="py-1 font-bold text-white">{stats.key}</td>
+                    <td className="text-right" title={`${stats.resolved} resolved, ${stats.open} open, ${stats.rejected} rejected`}>{stats.resolved}/{stats.signals}</td>
+                    <td className="text-right">{stats.tp[0]}</td>
+                    <td className="text-right">{stats.tp[1]}</td>
+                    <td className="text-right">{stats.tp[2]}</td>
+                    <td className="text-right text-rose-400">{stats.stops}</td>
+                    <td className="text-right text-slate-500">{stats.expired}</td>
+                    <td className={`text-right font-bold ${stats.resolved > 0 ? hitRateClass(stats.hitRate) : 'text-slate-600'}`}>
+                      {stats.resolved > 0 ? `${stats.hitRate.toFixed(0)}%` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Latest signals */}
+          <div className="p-2 space-y-1 max-h-[260px] overflow-y-auto custom-scrollbar">
+            {recent.map(record => (
+              <div key={record.id} className="flex justify-between items-center px-2 py-1 bg-slate-950/50 border border-slate-800 rounded text-[10px] font-mono">
+                <div className="flex items-center gap-2">
+                  <span className="font-bold text-white text-xs">{record.signal.best_pair}</span>
+                  <span className={record.signal.signal === 'BUY' ? 'text-emerald-500' : 'text-rose-500'}>{record.signal.signal}</span>
+                  <span className="text-slate-500" title="Strength score">{record.signal.strength_score}</span>
+                  <span className="text-slate-600">{record.timeframe} · {record.source} · {record.mode}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span
+                    className="text-slate-500"
+                    title={`Entry ${record.signal.entry_price.toFixed(getInstrument(record.signal.best_pair).digits)} | SL ${record.signal.stop_loss} | TP ${record.signal.tp1} / ${record.signal.tp2} / ${record.signal.tp3}`}
+                  >
+                    {new Date(record.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <span
+                    className={`px-1.5 py-0.5 rounded font-bold ${outcomeClass(record.outcome)}`}
+                    title={record.outcome === 'OPEN' ? `${record.bars}/${SIGNAL_EXPIRY_BARS} bars, ${record.targetsHit > 0 ? `TP${record.targetsHit} reached` : 'no target yet'}`
+                      : record.outcome === 'REJECTED' ? record.signal.validation?.issues.join('; ')
+                      : `After ${record.bars} bars`}
+                  >
+                    {record.outcome === 'OPEN' && record.targetsHit > 0 ? `OPEN TP${record.targetsHit}` : record.outcome}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SignalHistory;
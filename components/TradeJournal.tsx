@@ -1,34 +1,128 @@
 
-import React from 'react';
-import { ClosedTrade } from '../types';
-import { History, TrendingUp, TrendingDown, DollarSign } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { ClosedTrade, TradingSession } from '../types';
+import { getInstrument } from '../utils/instruments';
+import { splitPair } from '../utils/currency';
+import { filterByDateRange, groupByDay, toDisplayCurrency, parseJournalFile, toDateKey, tradesToCSV, tradesToJSON } from '../utils/journal';
+import { History, Download, Upload, CalendarDays } from 'lucide-react';
 
 interface TradeJournalProps {
   trades: ClosedTrade[];
+  onImport: (trades: ClosedTrade[]) => void;
+  accountCurrency: string;
+  prices: Record<string, number>; // Cross rates for trades journaled in another currency
 }
 
-const TradeJournal: React.FC<TradeJournalProps> = ({ trades }) => {
-  const totalPnL = trades.reduce((sum, t) => sum + t.pnl, 0);
-  const winRate = trades.length > 0
-    ? (trades.filter(t => t.pnl > 0).length / trades.length) * 100
+const SESSION_LABELS: Record<TradingSession, string> = {
+  ASIA: 'ASIA',
+  LONDON: 'LDN',
+  NEW_YORK: 'NY',
+};
+
+const downloadFile = (filename: string, content: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const TradeJournal: React.FC<TradeJournalProps> = ({ trades, onImport, accountCurrency, prices }) => {
+  const today = toDateKey(Date.now());
+  const [fromDate, setFromDate] = useState(today);
+  const [toDate, setToDate] = useState(today);
+  const [importNote, setImportNote] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const filtered = useMemo(() => filterByDateRange(trades, fromDate, toDate), [trades, fromDate, toDate]);
+  // Totals in the account currency; exports keep the journaled figures
+  const converted = useMemo(() => toDisplayCurrency(filtered, accountCurrency, prices), [filtered, accountCurrency]);
+  const days = useMemo(() => groupByDay(converted), [converted]);
+
+  const totalPnL = converted.reduce((sum, t) => sum + t.pnl, 0);
+  const winRate = filtered.length > 0
+    ? (filtered.filter(t => t.pnl > 0).length / filtered.length) * 100
     : 0;
+  const isSingleDay = fromDate === toDate;
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const name = `titan-journal_${fromDate || 'start'}_${toDate || 'end'}.${format}`;
+    if (format === 'csv') downloadFile(name, tradesToCSV(filtered), 'text/csv');
+    else downloadFile(name, tradesToJSON(filtered), 'application/json');
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      const { trades: imported, rejected } = parseJournalFile(await file.text());
+      onImport(imported);
+      setImportNote(`Imported ${imported.length} trades${rejected > 0 ? `, ${rejected} rows rejected` : ''}`);
+    } catch (e) {
+      console.error("Journal Import Error:", e);
+      setImportNote('Import failed: file is not a journal CSV/JSON export');
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
 
   return (
     <div className="bg-slate-900 border border-slate-700 rounded-xl overflow-hidden flex flex-col h-full min-h-[300px]">
       <div className="p-4 border-b border-slate-800 flex justify-between items-center bg-slate-950/50">
         <div className="flex items-center gap-2 text-white font-bold">
           <History size={18} className="text-emerald-500" />
-          <span className="tracking-wider text-sm">DAY JOURNAL</span>
+          <span className="tracking-wider text-sm">{isSingleDay && fromDate === today ? 'DAY JOURNAL' : 'TRADE JOURNAL'}</span>
         </div>
         <div className={`text-lg font-mono font-bold ${totalPnL >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
-          {totalPnL >= 0 ? '+' : ''}{totalPnL.toFixed(2)} USD
+          {totalPnL >= 0 ? '+' : ''}{totalPnL.toFixed(2)} {accountCurrency}
         </div>
       </div>
 
+      {/* Date Range & Import/Export */}
+      <div className="px-4 py-2 border-b border-slate-800 flex flex-wrap items-center gap-2 text-[10px] font-mono text-slate-400">
+        <CalendarDays size={12} className="text-slate-500" />
+        <input
+          type="date"
+          value={fromDate}
+          onChange={(e) => setFromDate(e.target.value)}
+          className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+        />
+        <span>→</span>
+        <input
+          type="date"
+          value={toDate}
+          onChange={(e) => setToDate(e.target.value)}
+          className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+        />
+        <button onClick={() => { setFromDate(''); setToDate(''); }} className="hover:text-white">ALL</button>
+        <div className="ml-auto flex items-center gap-2">
+          <button onClick={() => handleExport('csv')} className="flex items-center gap-1 hover:text-white" title="Export filtered trades as CSV">
+            <Download size={12} /> CSV
+          </button>
+          <button onClick={() => handleExport('json')} className="flex items-center gap-1 hover:text-white" title="Export filtered trades as JSON">
+            <Download size={12} /> JSON
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 hover:text-white" title="Import CSV/JSON journal">
+            <Upload size={12} /> IMPORT
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleImportFile(e.target.files[0])}
+          />
+        </div>
+      </div>
+      {importNote && (
+        <div className="px-4 py-1 text-[10px] font-mono text-slate-400 border-b border-slate-800 flex justify-between">
+          <span>{importNote}</span>
+          <button onClick={() => setImportNote(null)} className="hover:text-white">×</button>
+        </div>
+      )}
+
       <div className="grid grid-cols-3 divide-x divide-slate-800 border-b border-slate-800 bg-slate-900 text-center py-3">
          <div>
            <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1">Trades</span>
-           <span className="text-sm font-bold text-white">{trades.length}</span>
+           <span className="text-sm font-bold text-white">{filtered.length}</span>
          </div>
          <div>
            <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1">Win Rate</span>
@@ -37,42 +131,69 @@ const TradeJournal: React.FC<TradeJournalProps> = ({ trades }) => {
          <div>
            <span className="block text-[10px] text-slate-500 uppercase font-bold mb-1">Net PnL</span>
            <span className={`text-sm font-bold ${totalPnL >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
-             ${totalPnL.toFixed(2)}
+             {totalPnL.toFixed(2)}
            </span>
          </div>
       </div>
 
       <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-2 max-h-[400px]">
-        {trades.length === 0 ? (
+        {filtered.length === 0 ? (
           <div className="h-full flex flex-col items-center justify-center text-slate-600 space-y-2 min-h-[150px]">
             <History size={32} className="opacity-20" />
-            <span className="text-xs font-mono">NO CLOSED TRADES TODAY</span>
+            <span className="text-xs font-mono">{isSingleDay && fromDate === today ? 'NO CLOSED TRADES TODAY' : 'NO CLOSED TRADES IN RANGE'}</span>
           </div>
         ) : (
-          trades.slice().reverse().map((trade) => (
-            <div key={trade.id} className="bg-slate-950/50 border border-slate-800 rounded p-3 flex justify-between items-center hover:border-slate-600 transition-colors group">
-               <div className="flex flex-col gap-1">
-                 <div className="flex items-center gap-2">
-                    <span className="font-bold text-white text-sm">{trade.pair}</span>
-                    <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${trade.type === 'BUY' ? 'bg-emerald-900/30 text-emerald-500' : 'bg-rose-900/30 text-rose-500'}`}>
-                      {trade.type}
+          days.map((day) => (
+            <div key={day.date} className="space-y-2">
+              {/* Trading Day Header */}
+              <div className="flex justify-between items-center px-1 pt-1 text-[10px] font-mono">
+                <span className="text-slate-400 font-bold">{day.date}</span>
+                <div className="flex items-center gap-2">
+                  {(Object.keys(day.sessions) as TradingSession[]).map(session => (
+                    <span key={session} className={day.sessions[session]!.pnl >= 0 ? 'text-emerald-600' : 'text-rose-600'}>
+                      {SESSION_LABELS[session]} {day.sessions[session]!.pnl >= 0 ? '+' : ''}{day.sessions[session]!.pnl.toFixed(0)}
                     </span>
-                 </div>
-                 <span className="text-[10px] text-slate-500 font-mono flex items-center gap-1">
-                   {new Date(trade.closeTime).toLocaleTimeString()}
-                   <span className="text-slate-700">|</span>
-                   {trade.lotSize} Lots
-                 </span>
-               </div>
-               
-               <div className="text-right">
-                 <div className={`font-bold font-mono text-sm ${trade.pnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
-                   {trade.pnl >= 0 ? '+' : ''}{trade.pnl.toFixed(2)}
-                 </div>
-                 <span className="text-[10px] text-slate-600 block group-hover:text-slate-400 transition-colors">
-                   {trade.entryPrice.toFixed(4)} → {trade.closePrice.toFixed(4)}
-                 </span>
-               </div>
+                  ))}
+                  <span className={`font-bold ${day.pnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                    {day.pnl >= 0 ? '+' : ''}{day.pnl.toFixed(2)}
+                  </span>
+                </div>
+              </div>
+
+              {day.trades.map((trade) => (
+                <div key={trade.id} className="bg-slate-950/50 border border-slate-800 rounded p-3 flex justify-between items-center hover:border-slate-600 transition-colors group">
+                   <div className="flex flex-col gap-1">
+                     <div className="flex items-center gap-2">
+                        <span className="font-bold text-white text-sm">{trade.pair}</span>
+                        <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${trade.type === 'BUY' ? 'bg-emerald-900/30 text-emerald-500' : 'bg-rose-900/30 text-rose-500'}`}>
+                          {trade.type}
+                        </span>
+                        {trade.exitReason && (
+                          <span className={`text-[10px] px-1.5 py-0.5 rounded font-mono ${trade.exitReason.startsWith('TP') ? 'bg-emerald-950 text-emerald-400' : trade.exitReason === 'MANUAL' ? 'bg-slate-800 text-slate-400' : 'bg-amber-950 text-amber-400'}`}>
+                            {trade.exitReason}
+                          </span>
+                        )}
+                     </div>
+                     <span className="text-[10px] text-slate-500 font-mono flex items-center gap-1">
+                       {new Date(trade.closeTime).toLocaleTimeString()}
+                       <span className="text-slate-700">|</span>
+                       {trade.lotSize} Lots
+                     </span>
+                   </div>
+
+                   <div className="text-right">
+                     <div
+                       className={`font-bold font-mono text-sm ${trade.pnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}
+                       title={trade.conversionRate ? `1 ${splitPair(trade.pair).quote} = ${trade.conversionRate} ${trade.currency} at close` : undefined}
+                     >
+                       {trade.pnl >= 0 ? '+' : ''}{trade.pnl.toFixed(2)}
+                     </div>
+                     <span className="text-[10px] text-slate-600 block group-hover:text-slate-400 transition-colors">
+                       {trade.entryPrice.toFixed(getInstrument(trade.pair).digits)} → {trade.closePrice.toFixed(getInstrument(trade.pair).digits)}
+                     </span>
+                   </div>
+                </div>
+              ))}
             </div>
           ))
         )}
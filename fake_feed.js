@@ -0,0 +1,96 @@
+/**
+ * FAKE TICK FEED
+ *
+ * Publishes ticks to the tick relay without a broker account, for testing
+ * the dashboard's live updates.
+ *
+ * Random walk (default): every TICK_MS each pair in PAIRS moves a fraction of
+ * a pip around its registry reference price, quoted with the pair's modelled
+ * spread. Use it with the Synthetic data source so the chart starts near the
+ * same prices.
+ *
+ * Scripted: SCRIPT=feed.jsonl replays one JSON object per line:
+ *   {"pair":"EURUSD","bid":1.05500,"ask":1.05508}     tick stamped now
+ *   {"pair":"EURUSD","price":1.0560}                  mid, modelled spread
+ *   {"wait":2000}                                     pause in ms
+ *   {"type":"candle","pair":"EURUSD",...}             any RelayEvent, sent as is
+ * LOOP=true repeats the script.
+ *
+ * Usage:
+ *   RELAY_URL=http://localhost:8090 PAIRS=EURUSD,XAUUSD TICK_MS=500 npm run feed:fake
+ */
+
+import fs from 'fs';
+import { getInstrument, roundPrice } from './utils/instruments';
+import { modelSpread } from './utils/pricing';
+import { createRelayPublisher } from './services/tickRelay';
+
+const RELAY_URL = process.env.RELAY_URL || 'http://localhost:8090';
+const PAIRS = (process.env.PAIRS || 'EURUSD,XAUUSD,BTCUSD').split(',').map(p => p.trim().toUpperCase()).filter(Boolean);
+const TICK_MS = Math.max(50, parseInt(process.env.TICK_MS || '500', 10));
+const SCRIPT = process.env.SCRIPT;
+const LOOP = process.env.LOOP === 'true';
+
+const relay = createRelayPublisher(RELAY_URL);
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+const nowSec = () => Math.floor(Date.now() / 1000);
+
+function tickAt(pair, mid, time = nowSec()) {
+  const spread = modelSpread(pair);
+  return { type: 'tick', pair, time, bid: roundPrice(pair, mid - spread / 2), ask: roundPrice(pair, mid + spread / 2) };
+}
+
+function runRandomWalk() {
+  const prices = Object.fromEntries(PAIRS.map(pair => [pair, getInstrument(pair).referencePrice]));
+  console.log(`Fake feed: random walk for ${PAIRS.join(', ')} every ${TICK_MS}ms -> ${RELAY_URL}`);
+
+  setInterval(() => {
+    const events = PAIRS.map(pair => {
+      // Up to +/- 2 pips per tick, pulled gently back to the reference price
+      const { pipSize, referencePrice } = getInstrument(pair);
+      const drift = (referencePrice - prices[pair]) * 0.001;
+      prices[pair] += (Math.random() - 0.5) * 4 * pipSize + drift;
+      return tickAt(pair, prices[pair]);
+    });
+    relay.publish(events);
+  }, TICK_MS);
+}
+
+function toEvent(line) {
+  if (line.type) return line;
+  const pair = String(line.pair || '').toUpperCase();
+  if (!pair) throw new Error('missing pair');
+  const time = line.time ?? nowSec();
+  if (line.bid !== undefined && line.ask !== undefined) {
+    return { type: 'tick', pair, time, bid: Number(line.bid), ask: Number(line.ask) };
+  }
+  if (line.price !== undefined) return tickAt(pair, Number(line.price), time);
+  throw new Error('expected bid/ask or price');
+}
+
+async function runScript(path) {
+  const lines = fs.readFileSync(path, 'utf8').split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('#'));
+  console.log(`Fake feed: replaying ${lines.length} lines from ${path} -> ${RELAY_URL}${LOOP ? ' (looping)' : ''}`);
+
+  do {
+    for (const [i, text] of lines.entries()) {
+      try {
+        const line = JSON.parse(text);
+        if (line.wait !== undefined) {
+          await sleep(Number(line.wait));
+          continue;
+        }
+        relay.publish(toEvent(line));
+        await sleep(TICK_MS);
+      } catch (e) {
+        console.error(`Script line ${i + 1} skipped:`, e.message);
+      }
+    }
+  } while (LOOP);
+}
+
+if (SCRIPT) {
+  runScript(SCRIPT).then(() => console.log('Fake feed: script finished'));
+} else {
+  runRandomWalk();
+}
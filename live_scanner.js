@@ -1,23 +1,31 @@
-
 /**
  * PREMIUM LIVE MARKET SIGNAL SCANNER
  * 
  * Sources: OANDA (Forex/Metals), BINANCE (Crypto)
- * Timeframe: M5
- * Strategy: Trend (SMA200) + Reversal (Sweep/Pin/BOS)
+ * Timeframe: TIMEFRAME env (M1|M5|M15|H1|H4, default M5)
+ * Strategy: utils/strategy.ts (same rules engine as the dashboard)
  * 
  * Usage: 
  *   export SYMBOLS=EUR_USD,XAU_USD,BTCUSDT
  *   export OANDA_API_KEY=...
  *   export OANDA_ACCOUNT_ID=...
- *   node live_scanner.js
+ *   npm run scanner
+ *
+ * Position sizing (lot_size / estimated_profit_* in the output):
+ *   ACCOUNT_BALANCE=10000 ACCOUNT_CURRENCY=USD RISK_PERCENT=1 MAX_LOT=5
  */
 
-const https = require('https');
-const EventEmitter = require('events');
+import https from 'https';
+import { analyzePair, STRATEGY_RULES } from './utils/strategy';
+import { TIMEFRAMES, isTimeframe } from './utils/timeframes';
+import { applyPositionSizing } from './utils/sizing';
+import { DEFAULT_ACCOUNT } from './utils/settings';
+import { pairFromSymbol } from './utils/instruments';
+import { createCandleAggregator, toUnixSeconds } from './utils/candleAggregator';
+
 let WebSocket;
 try {
-  WebSocket = require('ws');
+  ({ default: WebSocket } = await import('ws'));
 } catch (e) {
   console.warn("WARN: 'ws' module not found. Binance streaming will fail. Run 'npm install ws'");
 }
@@ -26,8 +34,7 @@ try {
 const CONFIG = {
   // dataSource: Removed preference. Now derived from SYMBOLS.
   symbols: (process.env.SYMBOLS || 'BTCUSDT').split(',').map(s => s.trim()),
-  timeframe: 'M5',
-  riskReward: { tp1: 1.5, tp2: 2.0, tp3: 3.0 },
+  timeframe: isTimeframe(process.env.TIMEFRAME || '') ? process.env.TIMEFRAME : 'M5',
   oanda: {
     apiKey: process.env.OANDA_API_KEY,
     accountId: process.env.OANDA_ACCOUNT_ID,
@@ -38,203 +45,128 @@ const CONFIG = {
   binance: {
     wsBase: 'wss://stream.binance.com:9443/ws',
     apiBase: 'https://api.binance.com'
+  },
+  account: {
+    balance: parseFloat(process.env.ACCOUNT_BALANCE || String(DEFAULT_ACCOUNT.balance)),
+    currency: (process.env.ACCOUNT_CURRENCY || DEFAULT_ACCOUNT.currency).toUpperCase(),
+    riskPercent: parseFloat(process.env.RISK_PERCENT || String(DEFAULT_ACCOUNT.riskPercent)),
+    maxLot: parseFloat(process.env.MAX_LOT || String(DEFAULT_ACCOUNT.maxLot)),
   }
 };
 
-// --- TECHNICAL ANALYSIS ENGINE ---
-class TechAnalysis {
-  static sma(data, period) {
-    if (data.length < period) return null;
-    const slice = data.slice(-period);
-    const sum = slice.reduce((a, b) => a + b, 0);
-    return sum / period;
-  }
-
-  static atr(candles, period) {
-    if (candles.length < period + 1) return null;
-    let trSum = 0;
-    // Simple ATR calc for efficiency
-    for (let i = candles.length - period; i < candles.length; i++) {
-      const high = candles[i].high;
-      const low = candles[i].low;
-      const prevClose = candles[i - 1].close;
-      const tr = Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
-      trSum += tr;
-    }
-    return trSum / period;
-  }
-
-  static detectPattern(candles) {
-    const current = candles[candles.length - 1];
-    const prev = candles[candles.length - 2];
-    
-    const bodySize = Math.abs(current.close - current.open);
-    const totalSize = current.high - current.low;
-    const wickTop = current.high - Math.max(current.open, current.close);
-    const wickBottom = Math.min(current.open, current.close) - current.low;
-    
-    // Pin Bar / Hammer / Shooting Star
-    const isPinBarBullish = wickBottom > (bodySize * 2) && wickTop < bodySize;
-    const isPinBarBearish = wickTop > (bodySize * 2) && wickBottom < bodySize;
-
-    // Engulfing
-    const isBullishEngulfing = current.close > current.open && prev.close < prev.open && current.close > prev.open && current.open < prev.close;
-    const isBearishEngulfing = current.close < current.open && prev.close > prev.open && current.close < prev.close && current.open > prev.open;
-
-    if (isPinBarBullish || isBullishEngulfing) return 'BULLISH';
-    if (isPinBarBearish || isBearishEngulfing) return 'BEARISH';
-    return 'NEUTRAL';
-  }
-
-  static detectSweep(candles, lookback = 10) {
-    // Basic sweep detection: Price broke a recent high/low but closed back inside
-    const current = candles[candles.length - 1];
-    const prevHigh = Math.max(...candles.slice(-lookback, -1).map(c => c.high));
-    const prevLow = Math.min(...candles.slice(-lookback, -1).map(c => c.low));
-
-    // Bearish Sweep (Liquidity Grab at Top)
-    if (current.high > prevHigh && current.close < prevHigh) return 'BEARISH_SWEEP';
-    
-    // Bullish Sweep (Liquidity Grab at Low)
-    if (current.low < prevLow && current.close > prevLow) return 'BULLISH_SWEEP';
-
-    return 'NONE';
-  }
-}
-
 // --- MARKET DATA MANAGER ---
 class MarketManager {
   constructor() {
-    this.candles = {}; // { symbol: [ {time, open, high, low, close} ] }
-    this.activeCandle = {}; // { symbol: { ... } }
+    this.candles = {}; // { symbol: [ {time (unix s), open, high, low, close} ] }
+    // Shared bucketing: out-of-order ticks, gaps and stale candles (utils/candleAggregator.ts)
+    this.aggregator = createCandleAggregator({
+      timeframe: CONFIG.timeframe,
+      // Binance: the first kline snapshot of the next bar may beat the final one of this bar
+      graceMs: 2000,
+      onCandle: (event) => this.closeCandle(event)
+    });
+    // Close candles whose ticks stopped (weekend close, dropped stream)
+    setInterval(() => this.aggregator.flush(), 1000);
   }
 
   initSymbol(symbol) {
     if (!this.candles[symbol]) this.candles[symbol] = [];
   }
 
+  // Closed candles only; times may be ISO strings, seconds or milliseconds
   addHistory(symbol, historyCandles) {
     this.initSymbol(symbol);
     // Merge history, ensuring no duplicates by time
-    const existingTimes = new Set(this.candles[symbol].map(c => c.time));
+    const byTime = new Map(this.candles[symbol].map(c => [c.time, c]));
     historyCandles.forEach(c => {
-      if (!existingTimes.has(c.time)) {
-        this.candles[symbol].push(c);
-      }
+      const time = toUnixSeconds(c.time);
+      if (Number.isFinite(time) && !byTime.has(time)) byTime.set(time, { ...c, time });
     });
-    this.candles[symbol].sort((a, b) => new Date(a.time) - new Date(b.time));
-    // Keep reasonable buffer
-    if (this.candles[symbol].length > 300) {
-      this.candles[symbol] = this.candles[symbol].slice(-300);
-    }
+    this.candles[symbol] = Array.from(byTime.values()).sort((a, b) => a.time - b.time).slice(-300);
+    const last = this.candles[symbol][this.candles[symbol].length - 1];
+    if (last) this.aggregator.seed(symbol, last);
   }
 
-  updateTick(symbol, price, time) {
-    this.initSymbol(symbol);
-    
-    const tickTime = new Date(time);
-    const m5Start = new Date(tickTime);
-    m5Start.setMinutes(Math.floor(tickTime.getMinutes() / 5) * 5, 0, 0);
-    const m5TimeStr = m5Start.toISOString();
+  // price = mid; spread = ask - bid of the tick (undefined for trade-price feeds)
+  updateTick(symbol, price, time, spread) {
+    this.aggregator.addTick(symbol, time, price, spread);
+  }
 
-    let active = this.activeCandle[symbol];
+  // Kline snapshot of the current bar; complete on its final update
+  updateBar(symbol, bar, complete) {
+    this.aggregator.addBar(symbol, bar, complete);
+  }
 
-    // Check if new candle started
-    if (active && active.time !== m5TimeStr) {
-      // Close previous candle
-      this.candles[symbol].push(active);
-      if (this.candles[symbol].length > 300) this.candles[symbol].shift();
-      
-      // Emit Candle Close Event
-      this.onCandleClose(symbol, active);
-      
-      active = null;
+  closeCandle({ symbol, candle, gap, stale, revised }) {
+    // Final kline for a candle the clock closed early: correct it in place
+    if (revised) {
+      const history = this.candles[symbol] || [];
+      const index = history.findIndex(c => c.time === candle.time);
+      if (index >= 0) history[index] = candle;
+      return;
     }
 
-    if (!active) {
-      this.activeCandle[symbol] = {
-        time: m5TimeStr,
-        open: price,
-        high: price,
-        low: price,
-        close: price
-      };
-    } else {
-      active.close = price;
-      if (price > active.high) active.high = price;
-      if (price < active.low) active.low = price;
-      this.activeCandle[symbol] = active;
+    if (gap && !gap.marketClosed) {
+      console.error(`Gap in ${symbol}: ${gap.buckets} missing ${CONFIG.timeframe} candle(s) from ${new Date(gap.from * 1000).toISOString()}`);
     }
+    if (stale) console.error(`${symbol}: no ticks since ${new Date(candle.time * 1000).toISOString()} candle, closed by the clock`);
+
+    this.initSymbol(symbol);
+    this.candles[symbol].push(candle);
+    if (this.candles[symbol].length > 300) this.candles[symbol].shift();
+
+    // Emit Candle Close Event
+    this.onCandleClose(symbol, candle);
+  }
+
+  // Last close of every streamed symbol, used as conversion rates for sizing
+  latestPrices() {
+    const prices = {};
+    for (const symbol of Object.keys(this.candles)) {
+      const history = this.candles[symbol];
+      if (history.length > 0) prices[pairFromSymbol(symbol)] = history[history.length - 1].close;
+    }
+    return prices;
   }
 
   // Called when a candle officially closes
   onCandleClose(symbol, candle) {
     const history = this.candles[symbol];
-    if (history.length < 200) {
-      console.log(JSON.stringify({ symbol, status: "WAIT", reason: `Not enough data (${history.length}/200)` }));
+    if (history.length < STRATEGY_RULES.smaSlow) {
+      console.log(JSON.stringify({ symbol, status: "WAIT", reason: `Not enough data (${history.length}/${STRATEGY_RULES.smaSlow})` }));
       return;
     }
 
     // --- RUN STRATEGY ---
-    const closes = history.map(c => c.close);
-    const sma20 = TechAnalysis.sma(closes, 20);
-    const sma200 = TechAnalysis.sma(closes, 200);
-    const atr = TechAnalysis.atr(history, 14);
-    const pattern = TechAnalysis.detectPattern(history);
-    const sweep = TechAnalysis.detectSweep(history);
-
-    // 1. TREND FILTER
-    const isUptrend = sma20 > sma200 && candle.close > sma200;
-    const isDowntrend = sma20 < sma200 && candle.close < sma200;
-
-    let signal = 'NONE';
-    let reason = '';
-    let score = 0;
-
-    // 2. SIGNAL DETECTION
-    if (isUptrend) {
-      if (pattern === 'BULLISH' || sweep === 'BULLISH_SWEEP') {
-        signal = 'BUY';
-        reason = `Uptrend (Price > SMA200) + ${pattern === 'BULLISH' ? 'Bullish Pattern' : 'Liquidity Sweep'}`;
-        score = 85;
-      }
-    } else if (isDowntrend) {
-      if (pattern === 'BEARISH' || sweep === 'BEARISH_SWEEP') {
-        signal = 'SELL';
-        reason = `Downtrend (Price < SMA200) + ${pattern === 'BEARISH' ? 'Bearish Pattern' : 'Liquidity Sweep'}`;
-        score = 85;
-      }
-    }
+    const pair = pairFromSymbol(symbol);
+    const result = applyPositionSizing(analyzePair(pair, history, CONFIG.timeframe), CONFIG.account, this.latestPrices());
 
-    // 3. OUTPUT
-    if (signal !== 'NONE') {
-      // Risk Management
-      const slDist = atr * 1.5;
-      const entry = candle.close;
-      const sl = signal === 'BUY' ? entry - slDist : entry + slDist;
-      const risk = Math.abs(entry - sl);
-      
-      const output = {
+    // --- OUTPUT ---
+    if (result.signal !== 'NO_SIGNAL') {
+      console.log(JSON.stringify({
         symbol: symbol,
-        timeframe: CONFIG.timeframe,
-        trend: isUptrend ? 'UPTREND' : 'DOWNTREND',
-        signal: signal,
-        entry_price: parseFloat(entry.toFixed(5)),
-        stop_loss: parseFloat(sl.toFixed(5)),
-        tp1: parseFloat((signal === 'BUY' ? entry + (risk * 1.5) : entry - (risk * 1.5)).toFixed(5)),
-        tp2: parseFloat((signal === 'BUY' ? entry + (risk * 2.0) : entry - (risk * 2.0)).toFixed(5)),
-        tp3: parseFloat((signal === 'BUY' ? entry + (risk * 3.0) : entry - (risk * 3.0)).toFixed(5)),
-        strength_score: score,
-        reason: reason
-      };
-      
-      console.log(JSON.stringify(output));
+        timeframe: result.timeframe,
+        trend: result.trend,
+        signal: result.signal,
+        entry_price: result.entry_price,
+        stop_loss: result.stop_loss,
+        tp1: result.tp1,
+        tp2: result.tp2,
+        tp3: result.tp3,
+        lot_size: result.lot_size,
+        estimated_profit_tp1: result.estimated_profit_tp1,
+        estimated_profit_tp2: result.estimated_profit_tp2,
+        estimated_profit_tp3: result.estimated_profit_tp3,
+        account_currency: CONFIG.account.currency,
+        strength_score: result.strength_score,
+        reason: result.reason
+      }));
     } else {
       console.log(JSON.stringify({
         symbol,
         status: "WAIT",
-        trend: isUptrend ? 'UP' : isDowntrend ? 'DOWN' : 'FLAT',
-        reason: "No valid reversal setup"
+        trend: result.trend === 'UPTREND' ? 'UP' : result.trend === 'DOWNTREND' ? 'DOWN' : 'FLAT',
+        reason: result.reason
       }));
     }
   }
@@ -259,7 +191,7 @@ async function startOanda(symbols) {
   for (const symbol of symbols) {
     const oandaSymbol = symbol.includes('_') ? symbol : symbol.replace('/', '_');
     try {
-      const path = `/v3/instruments/${oandaSymbol}/candles?count=250&granularity=M5`;
+      const path = `/v3/instruments/${oandaSymbol}/candles?count=250&granularity=${TIMEFRAMES[CONFIG.timeframe].oanda}&price=MBA`;
       const data = await httpsGet(apiHost, path, apiKey);
       if (data && data.candles) {
         const history = data.candles
@@ -269,7 +201,8 @@ async function startOanda(symbols) {
             open: parseFloat(c.mid.o),
             high: parseFloat(c.mid.h),
             low: parseFloat(c.mid.l),
-            close: parseFloat(c.mid.c)
+            close: parseFloat(c.mid.c),
+            spread: parseFloat(c.ask.c) - parseFloat(c.bid.c)
           }));
         marketManager.addHistory(oandaSymbol, history);
         console.error(`Loaded ${history.length} candles for ${oandaSymbol}`);
@@ -301,8 +234,9 @@ async function startOanda(symbols) {
         try {
           const msg = JSON.parse(line);
           if (msg.type === 'PRICE') {
-            const price = (parseFloat(msg.bids[0].price) + parseFloat(msg.asks[0].price)) / 2;
-            marketManager.updateTick(msg.instrument, price, msg.time);
+            const bid = parseFloat(msg.bids[0].price);
+            const ask = parseFloat(msg.asks[0].price);
+            marketManager.updateTick(msg.instrument, (bid + ask) / 2, msg.time, ask - bid);
           }
         } catch (e) {}
       }
@@ -323,11 +257,12 @@ async function startBinance(symbols) {
   console.error(`Fetching history from Binance for ${symbols.length} pairs...`);
   for (const symbol of symbols) {
     try {
-      const path = `/api/v3/klines?symbol=${symbol.toUpperCase()}&interval=5m&limit=250`;
+      const path = `/api/v3/klines?symbol=${symbol.toUpperCase()}&interval=${TIMEFRAMES[CONFIG.timeframe].binance}&limit=250`;
       const data = await httpsGet('api.binance.com', path);
       if (Array.isArray(data)) {
-        const history = data.map(k => ({
-          time: new Date(k[0]).toISOString(),
+        // The last kline is still forming (close time in the future)
+        const history = data.filter(k => k[6] < Date.now()).map(k => ({
+          time: k[0],
           open: parseFloat(k[1]),
           high: parseFloat(k[2]),
           low: parseFloat(k[3]),
@@ -342,7 +277,7 @@ async function startBinance(symbols) {
   }
 
   // 2. Start WebSocket Stream
-  const streams = symbols.map(s => `${s.toLowerCase()}@kline_5m`).join('/');
+  const streams = symbols.map(s => `${s.toLowerCase()}@kline_${TIMEFRAMES[CONFIG.timeframe].binance}`).join('/');
   const wsUrl = `${CONFIG.binance.wsBase}/stream?streams=${streams}`;
   
   console.error(`Connecting to Binance WS...`);
@@ -354,8 +289,13 @@ async function startBinance(symbols) {
     const msg = JSON.parse(data);
     if (msg.data && msg.data.k) {
       const k = msg.data.k;
-      const symbol = k.s;
-      marketManager.updateTick(symbol, parseFloat(k.c), new Date(k.t));
+      marketManager.updateBar(k.s, {
+        time: k.t,
+        open: parseFloat(k.o),
+        high: parseFloat(k.h),
+        low: parseFloat(k.l),
+        close: parseFloat(k.c)
+      }, k.x);
     }
   });
 }
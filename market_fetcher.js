@@ -3,20 +3,24 @@
  * LIVE MARKET DATA FETCHER
  * 
  * Supports: OANDA (Forex/Metals), BINANCE (Crypto)
- * Output: M5 Candle JSON on Close
+ * Output: Candle JSON on Close (TIMEFRAME=M1|M5|M15|H1|H4, default M5)
  * 
  * Usage:
  *   export DATA_SOURCE=OANDA  (or BINANCE)
  *   export SYMBOLS=EUR_USD,XAU_USD  (or btcusdt,ethusdt)
+ *   export TIMEFRAME=M15
  *   export OANDA_API_KEY=...
  *   export OANDA_ACCOUNT_ID=...
- *   node market_fetcher.js
+ *   npm run fetcher
  */
 
-const https = require('https');
+import https from 'https';
+import { TIMEFRAMES, isTimeframe } from './utils/timeframes';
+import { createCandleAggregator } from './utils/candleAggregator';
+
 let WebSocket;
 try {
-  WebSocket = require('ws');
+  ({ default: WebSocket } = await import('ws'));
 } catch (e) {
   console.warn("WARN: 'ws' module not found. Binance streaming will fail. Run 'npm install ws'");
 }
@@ -25,7 +29,7 @@ try {
 const CONFIG = {
   dataSource: process.env.DATA_SOURCE || 'OANDA', // 'OANDA' or 'BINANCE'
   symbols: (process.env.SYMBOLS || 'EUR_USD').split(',').map(s => s.trim()),
-  timeframe: 'M5', // 5 Minutes
+  timeframe: isTimeframe(process.env.TIMEFRAME || '') ? process.env.TIMEFRAME : 'M5',
   oanda: {
     apiKey: process.env.OANDA_API_KEY,
     accountId: process.env.OANDA_ACCOUNT_ID,
@@ -37,68 +41,50 @@ const CONFIG = {
   }
 };
 
-const M5_MS = 5 * 60 * 1000;
+const BUCKET_MS = TIMEFRAMES[CONFIG.timeframe].seconds * 1000;
 
 class MarketFetcher {
   constructor() {
-    this.activeCandles = {}; // { symbol: { open, high, low, close, bucketTime, currentPrice } }
-  }
-
-  // --- UTILS ---
-
-  getM5Bucket(timestamp) {
-    const ms = new Date(timestamp).getTime();
-    return ms - (ms % M5_MS);
+    // Shared bucketing: out-of-order ticks, gaps and stale candles (utils/candleAggregator.ts)
+    this.aggregator = createCandleAggregator({
+      timeframe: CONFIG.timeframe,
+      // The first kline snapshot of the next bar may beat the final one of this bar
+      graceMs: CONFIG.dataSource === 'BINANCE' ? 2000 : 0,
+      onCandle: (event) => this.emitCandle(event)
+    });
+    // Close candles whose ticks stopped (weekend close, dropped stream)
+    setInterval(() => this.aggregator.flush(), 1000);
   }
 
   // --- OUTPUT ---
 
-  emitCandle(symbol, candle) {
+  emitCandle({ symbol, candle, gap, stale, revised }) {
     const output = {
       symbol: symbol,
-      time: new Date(candle.bucketTime + M5_MS).toISOString(), // Close time
+      time: new Date(candle.time * 1000 + BUCKET_MS).toISOString(), // Close time
       open: candle.open,
       high: candle.high,
       low: candle.low,
       close: candle.close,
-      current_price: candle.close
+      current_price: candle.close,
+      ...(candle.spread !== undefined && { spread: candle.spread }), // ask - bid at the close
+      ...(gap && { gap }), // buckets with no ticks before this candle
+      ...(stale && { stale }), // closed by the clock, ticks had stopped
+      ...(revised && { revised }) // final bar replacing an earlier stale line for this time
     };
     console.log(JSON.stringify(output));
   }
 
   // --- PROCESSING ---
 
-  processTick(symbol, price, timeStr) {
-    const tickTime = new Date(timeStr).getTime();
-    const bucketStart = this.getM5Bucket(tickTime);
-    
-    let candle = this.activeCandles[symbol];
-
-    // 1. Check for Candle Close (New Bucket Started)
-    if (candle && bucketStart > candle.bucketTime) {
-      this.emitCandle(symbol, candle);
-      candle = null; // Reset
-    }
+  // price = mid; spread = ask - bid (undefined for trade-price feeds)
+  processTick(symbol, price, time, spread) {
+    this.aggregator.addTick(symbol, time, price, spread);
+  }
 
-    // 2. Initialize or Update Candle
-    if (!candle) {
-      // Start new candle
-      this.activeCandles[symbol] = {
-        bucketTime: bucketStart,
-        open: price,
-        high: price,
-        low: price,
-        close: price,
-        currentPrice: price
-      };
-    } else {
-      // Update existing
-      if (price > candle.high) candle.high = price;
-      if (price < candle.low) candle.low = price;
-      candle.close = price;
-      candle.currentPrice = price;
-      this.activeCandles[symbol] = candle;
-    }
+  // Kline snapshot of the current bar; complete on its final update
+  processBar(symbol, bar, complete) {
+    this.aggregator.addBar(symbol, bar, complete);
   }
 }
 
@@ -137,12 +123,12 @@ function startOanda() {
         try {
           const msg = JSON.parse(line);
           if (msg.type === 'PRICE') {
-            // Calculate Mid Price for Forex
+            // Mid price for the candle, keep the spread
             const bid = parseFloat(msg.bids[0].price);
             const ask = parseFloat(msg.asks[0].price);
             const mid = (bid + ask) / 2;
             
-            fetcher.processTick(msg.instrument, mid, msg.time);
+            fetcher.processTick(msg.instrument, mid, msg.time, ask - bid);
           } else if (msg.type === 'HEARTBEAT') {
             // Keep connection alive
           }
@@ -173,7 +159,8 @@ function startBinance() {
     process.exit(1);
   }
 
-  const streams = CONFIG.symbols.map(s => `${s.toLowerCase()}@kline_5m`).join('/');
+  const interval = TIMEFRAMES[CONFIG.timeframe].binance;
+  const streams = CONFIG.symbols.map(s => `${s.toLowerCase()}@kline_${interval}`).join('/');
   const wsUrl = `${CONFIG.binance.wsBase}/stream?streams=${streams}`;
 
   console.error(`Connecting to Binance WS: ${wsUrl}`);
@@ -190,30 +177,15 @@ function startBinance() {
       if (msg.data && msg.data.k) {
         const k = msg.data.k;
         
-        // Binance Klines map directly to candles
-        // We can either use their 'x' (closed) flag directly or feed ticks.
-        // To be consistent with "Live Market Data Fetcher" logic, we treat close as current price.
-        
-        const symbol = k.s;
-        const price = parseFloat(k.c);
-        const time = new Date(k.t).toISOString();
-        const isClosed = k.x;
-
-        if (isClosed) {
-          // Output immediately on close
-          const output = {
-            symbol: symbol,
-            time: new Date(k.T).toISOString(), // Candle End Time
-            open: parseFloat(k.o),
-            high: parseFloat(k.h),
-            low: parseFloat(k.l),
-            close: parseFloat(k.c),
-            current_price: parseFloat(k.c)
-          };
-          console.log(JSON.stringify(output));
-        } else {
-           // Optional: Track live price internally if needed for other logic
-        }
+        // Binance Klines map directly to candles: each update is a snapshot
+        // of the bar, 'x' marks its final one
+        fetcher.processBar(k.s, {
+          time: k.t, // open time, ms
+          open: parseFloat(k.o),
+          high: parseFloat(k.h),
+          low: parseFloat(k.l),
+          close: parseFloat(k.c)
+        }, k.x);
       }
     } catch (e) {
       console.error("Binance Parse Error:", e.message);
@@ -0,0 +1,144 @@
+/**
+ * MOCK MT5 BRIDGE
+ * 
+ * Implements the protocol in MT5_BRIDGE.md with random-walk prices so the
+ * dashboard's MT5 data source can be developed without a terminal.
+ * 
+ * Usage:
+ *   npm run mt5:mock
+ *   MT5_MOCK_PORT=5556 npm run mt5:mock
+ *   MT5_MOCK_OFFLINE=1 npm run mt5:mock   (terminal logged out)
+ */
+
+import http from 'http';
+import { INSTRUMENT_LIST } from './utils/instruments';
+
+const PORT = parseInt(process.env.MT5_MOCK_PORT || '5555', 10);
+const OFFLINE = process.env.MT5_MOCK_OFFLINE === '1';
+
+const TIMEFRAME_SECONDS = { M1: 60, M5: 300, M15: 900, H1: 3600, H4: 14400 };
+
+const INSTRUMENTS_BY_SYMBOL = Object.fromEntries(INSTRUMENT_LIST.map(i => [i.symbol, i]));
+const BASE_PRICES = Object.fromEntries(INSTRUMENT_LIST.map(i => [i.symbol, i.referencePrice]));
+
+function specFor(symbol) {
+  const instrument = INSTRUMENTS_BY_SYMBOL[symbol];
+  return {
+    symbol,
+    description: `${instrument.base} vs ${instrument.quote}`,
+    digits: instrument.digits,
+    point: Math.pow(10, -instrument.digits),
+    contract_size: instrument.contractSize,
+    volume_min: instrument.minLot,
+    volume_step: instrument.lotStep,
+    volume_max: instrument.assetClass === 'CRYPTO' ? 10 : 100,
+    currency_base: instrument.base,
+    currency_profit: instrument.quote
+  };
+}
+
+// Live price per symbol, moved by a random walk every second
+const prices = {};
+for (const symbol of Object.keys(BASE_PRICES)) prices[symbol] = BASE_PRICES[symbol];
+
+setInterval(() => {
+  for (const symbol of Object.keys(prices)) {
+    prices[symbol] += (Math.random() - 0.5) * BASE_PRICES[symbol] * 0.0001;
+  }
+}, 1000);
+
+// Typical spread of the instrument, in points
+const spreadPoints = (symbol) => {
+  const instrument = INSTRUMENTS_BY_SYMBOL[symbol];
+  return Math.round(instrument.spreadPips * instrument.pipSize * Math.pow(10, instrument.digits));
+};
+
+function tickFor(symbol) {
+  const spec = specFor(symbol);
+  const halfSpread = spec.point * spreadPoints(symbol) / 2;
+  const mid = prices[symbol];
+  return {
+    symbol,
+    time: Math.floor(Date.now() / 1000),
+    bid: Number((mid - halfSpread).toFixed(spec.digits)),
+    ask: Number((mid + halfSpread).toFixed(spec.digits))
+  };
+}
+
+// History walks backwards from the live price so the forming bar matches /tick.
+// Bars are bid prices, like MT5's CopyRates.
+function candlesFor(symbol, timeframe, count) {
+  const step = TIMEFRAME_SECONDS[timeframe];
+  const spec = specFor(symbol);
+  const spread = spreadPoints(symbol);
+  const halfSpread = spec.point * spread / 2;
+  const now = Math.floor(Date.now() / 1000);
+  const lastOpenTime = now - (now % step);
+  const volatility = BASE_PRICES[symbol] * 0.0005 * Math.sqrt(step / 300);
+  const candles = [];
+  let close = prices[symbol];
+
+  for (let i = 0; i < count; i++) {
+    const open = close - (Math.random() - 0.5) * volatility * 2;
+    const round = (v) => Number((v - halfSpread).toFixed(spec.digits));
+    candles.unshift({
+      time: lastOpenTime - i * step,
+      open: round(open),
+      high: round(Math.max(open, close) + Math.random() * volatility),
+      low: round(Math.min(open, close) - Math.random() * volatility),
+      close: round(close),
+      tick_volume: Math.floor(50 + Math.random() * 500),
+      spread
+    });
+    close = open;
+  }
+  return candles;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const q = url.searchParams;
+
+  if (url.pathname === '/health') {
+    return send(res, 200, {
+      status: 'ok',
+      terminal: 'MetaTrader 5 (mock)',
+      server: 'Mock-Demo',
+      account: 10000001,
+      connected: !OFFLINE,
+      server_time: Math.floor(Date.now() / 1000)
+    });
+  }
+
+  if (OFFLINE) return send(res, 503, { error: 'Terminal not connected' });
+
+  if (url.pathname === '/symbols') {
+    return send(res, 200, Object.keys(BASE_PRICES).map(specFor));
+  }
+
+  const symbolMatch = url.pathname.match(/^\/symbols\/([A-Z]+)$/);
+  const symbol = symbolMatch ? symbolMatch[1] : q.get('symbol');
+  if (symbol && !BASE_PRICES[symbol]) return send(res, 404, { error: `Unknown symbol ${symbol}` });
+
+  if (symbolMatch) return send(res, 200, specFor(symbol));
+
+  if (url.pathname === '/tick' && symbol) return send(res, 200, tickFor(symbol));
+
+  if (url.pathname === '/candles' && symbol) {
+    const timeframe = q.get('timeframe') || 'M5';
+    if (!TIMEFRAME_SECONDS[timeframe]) return send(res, 400, { error: `Unsupported timeframe ${timeframe}` });
+    const count = Math.min(parseInt(q.get('count') || '250', 10), 5000);
+    return send(res, 200, { symbol, timeframe, candles: candlesFor(symbol, timeframe, count) });
+  }
+
+  send(res, 404, { error: 'Unknown endpoint' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock MT5 bridge listening on http://127.0.0.1:${PORT}${OFFLINE ? ' (terminal OFFLINE)' : ''}`);
+});
@@ -1,11 +1,18 @@
 
-const https = require('https');
+import https from 'https';
+import { TIMEFRAMES, isTimeframe } from './utils/timeframes';
+import { pairFromSymbol } from './utils/instruments';
+import { createRelayPublisher } from './services/tickRelay';
+import { createCandleAggregator, toUnixSeconds } from './utils/candleAggregator';
 
 // Configuration from Environment Variables
 const ACCOUNT_ID = process.env.OANDA_ACCOUNT_ID;
 const API_KEY = process.env.OANDA_API_KEY;
 const INSTRUMENTS = (process.env.SYMBOLS || 'EUR_USD,XAU_USD').split(',').map(s => s.trim());
 const PRACTICE = process.env.OANDA_PRACTICE !== 'false'; // Default to true (Practice)
+const TIMEFRAME = isTimeframe(process.env.TIMEFRAME || '') ? process.env.TIMEFRAME : 'M5';
+// Optional: also push ticks and closed candles to tick_relay.js for the dashboard
+const relay = process.env.RELAY_URL ? createRelayPublisher(process.env.RELAY_URL) : null;
 
 const STREAM_DOMAIN = PRACTICE 
   ? 'stream-fxpractice.oanda.com' 
@@ -13,22 +20,40 @@ const STREAM_DOMAIN = PRACTICE
 
 if (!ACCOUNT_ID || !API_KEY) {
   console.error("Error: Missing OANDA_ACCOUNT_ID or OANDA_API_KEY environment variables.");
-  console.error("Usage: export OANDA_ACCOUNT_ID=... && export OANDA_API_KEY=... && node oanda_streamer.js");
+  console.error("Usage: export OANDA_ACCOUNT_ID=... && export OANDA_API_KEY=... && npm run stream:oanda");
   process.exit(1);
 }
 
-// State for aggregation
-const activeCandles = {}; // { symbol: { open, high, low, close, bucketTime (ms) } }
-const M5_MS = 5 * 60 * 1000;
+const BUCKET_MS = TIMEFRAMES[TIMEFRAME].seconds * 1000;
 
-console.log(`Starting OANDA Streamer for: ${INSTRUMENTS.join(', ')}`);
+console.log(`Starting OANDA Streamer for: ${INSTRUMENTS.join(', ')} (${TIMEFRAME})`);
 console.log(`Environment: ${PRACTICE ? 'Practice' : 'Live'}`);
+if (relay) console.log(`Publishing to tick relay: ${process.env.RELAY_URL}`);
+
+// Closed candles, in bucket order per instrument
+const aggregator = createCandleAggregator({
+  timeframe: TIMEFRAME,
+  onCandle: ({ symbol, candle, gap, stale }) => {
+    const output = {
+      symbol: symbol,
+      time: new Date(candle.time * 1000 + BUCKET_MS).toISOString(), // "ISO8601 of candle close"
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      spread: candle.spread, // ask - bid at the close
+      ...(gap && { gap }), // buckets with no ticks before this candle
+      ...(stale && { stale }) // closed by the clock, ticks had stopped
+    };
+
+    console.log(JSON.stringify(output));
+
+    relay?.publish({ type: 'candle', pair: pairFromSymbol(symbol), timeframe: TIMEFRAME, candle });
+  }
+});
 
-function getM5BucketStart(dateObj) {
-  const ms = dateObj.getTime();
-  const remainder = ms % M5_MS;
-  return ms - remainder;
-}
+// Close candles whose ticks stopped (market close, dropped stream)
+setInterval(() => aggregator.flush(), 1000);
 
 function processLine(line) {
   try {
@@ -42,56 +67,21 @@ function processLine(line) {
     // Handle Price Ticks
     if (data.type === 'PRICE') {
       const symbol = data.instrument;
-      const time = new Date(data.time);
-      const bucketStart = getM5BucketStart(time);
       
-      // Calculate Mid Price
-      let price = 0;
+      // Mid price for the candle, keep the spread
+      let bid, ask;
       if (data.bids && data.bids.length > 0 && data.asks && data.asks.length > 0) {
-        price = (parseFloat(data.bids[0].price) + parseFloat(data.asks[0].price)) / 2;
+        bid = parseFloat(data.bids[0].price);
+        ask = parseFloat(data.asks[0].price);
       } else if (data.closeoutBid && data.closeoutAsk) {
-        price = (parseFloat(data.closeoutBid) + parseFloat(data.closeoutAsk)) / 2;
+        bid = parseFloat(data.closeoutBid);
+        ask = parseFloat(data.closeoutAsk);
       } else {
         return; // Skip if no price data
       }
 
-      let candle = activeCandles[symbol];
-
-      // If we have a candle from a previous bucket, close it
-      if (candle && bucketStart > candle.bucketTime) {
-        const closeTime = new Date(candle.bucketTime + M5_MS).toISOString();
-        
-        const output = {
-          symbol: symbol,
-          time: closeTime, // "ISO8601 of candle close"
-          open: candle.open,
-          high: candle.high,
-          low: candle.low,
-          close: candle.close
-        };
-
-        console.log(JSON.stringify(output));
-        
-        // Clear old candle
-        candle = null;
-      }
-
-      // Initialize new candle if needed
-      if (!candle) {
-        activeCandles[symbol] = {
-          bucketTime: bucketStart,
-          open: price,
-          high: price,
-          low: price,
-          close: price
-        };
-      } else {
-        // Update existing candle
-        if (price > candle.high) candle.high = price;
-        if (price < candle.low) candle.low = price;
-        candle.close = price;
-        activeCandles[symbol] = candle;
-      }
+      relay?.publish({ type: 'tick', pair: pairFromSymbol(symbol), time: toUnixSeconds(data.time), bid, ask });
+      aggregator.addTick(symbol, data.time, (bid + ask) / 2, ask - bid);
     }
   } catch (e) {
     console.error("Error processing line:", e.message);
@@ -0,0 +1,113 @@
+/**
+ * STRATEGY OPTIMISER (walk-forward)
+ *
+ * Grid/random searches the rules engine constants (utils/strategy.ts) over a
+ * stored candle file and reports each walk-forward fold, the combined
+ * out-of-sample result and how stable the chosen parameters are.
+ *
+ * Usage:
+ *   CANDLE_FILE=eurusd_m5.csv PAIR=EURUSD TIMEFRAME=M5 npm run optimize
+ *
+ * Options (env):
+ *   CANDLE_FILE   CSV (time,open,high,low,close[,pair]) or JSON candles.
+ *   PROVIDER      cryptocompare|oanda|binance: use the candle store filled by
+ *                 `npm run backfill` instead of a file.
+ *                 Without either, synthetic candles are used, which is only useful to try the tool.
+ *   SEARCH=grid|random, SAMPLES=50, SEED=42
+ *   OBJECTIVE=expectancyR|sharpe|profitFactor|totalPnL, MIN_TRADES=5
+ *   FOLDS=4, IN_SAMPLE_RATIO=0.7, EXIT_RULE=TP1|TP2|TP3
+ *   SPREAD_PIPS=0.8  (when the file has no spread column; default: the instrument's typical spread)
+ *   SPACE='{"smaFast":[10,20],"atrMultiplier":[1,1.5,2]}'  (overrides the default space)
+ *   ACCOUNT_CURRENCY=USD  (PnL and balance currency; crosses use the registry reference prices)
+ *   REPORT_FILE=report.json  (write the full report)
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { parseCandleFile } from './services/providers/replay';
+import { generateSyntheticCandles } from './services/providers/synthetic';
+import { DEFAULT_BACKTEST_CONFIG } from './utils/backtest';
+import { DEFAULT_OPTIMISER_OPTIONS, DEFAULT_PARAMETER_SPACE, walkForward } from './utils/optimizer';
+import { isTimeframe } from './utils/timeframes';
+import { seriesKey } from './utils/candleStore';
+import { createFileCandleStore } from './utils/candleStoreFile';
+
+// --- CONFIGURATION ---
+const env = process.env;
+const PAIR = (env.PAIR || 'EURUSD').toUpperCase();
+const TIMEFRAME = isTimeframe(env.TIMEFRAME || '') ? env.TIMEFRAME : 'M5';
+
+const options = {
+  ...DEFAULT_OPTIMISER_OPTIONS,
+  search: env.SEARCH === 'random' ? 'random' : 'grid',
+  samples: Number(env.SAMPLES || DEFAULT_OPTIMISER_OPTIONS.samples),
+  seed: Number(env.SEED || DEFAULT_OPTIMISER_OPTIONS.seed),
+  objective: env.OBJECTIVE || DEFAULT_OPTIMISER_OPTIONS.objective,
+  minTrades: Number(env.MIN_TRADES || DEFAULT_OPTIMISER_OPTIONS.minTrades),
+  folds: Number(env.FOLDS || DEFAULT_OPTIMISER_OPTIONS.folds),
+  inSampleRatio: Number(env.IN_SAMPLE_RATIO || DEFAULT_OPTIMISER_OPTIONS.inSampleRatio),
+};
+const space = env.SPACE ? JSON.parse(env.SPACE) : DEFAULT_PARAMETER_SPACE;
+const config = {
+  ...DEFAULT_BACKTEST_CONFIG,
+  exitRule: env.EXIT_RULE || DEFAULT_BACKTEST_CONFIG.exitRule,
+  spreadOverrides: env.SPREAD_PIPS ? { [PAIR]: Number(env.SPREAD_PIPS) } : {},
+  accountCurrency: (env.ACCOUNT_CURRENCY || DEFAULT_BACKTEST_CONFIG.accountCurrency).toUpperCase(),
+  pair: PAIR,
+  timeframe: TIMEFRAME,
+};
+
+// --- DATA ---
+let candles;
+if (env.CANDLE_FILE) {
+  candles = parseCandleFile(readFileSync(env.CANDLE_FILE, 'utf8'), PAIR)[PAIR];
+  if (!candles) {
+    console.error(`No ${PAIR} candles in ${env.CANDLE_FILE}`);
+    process.exit(1);
+  }
+} else if (env.PROVIDER) {
+  const key = seriesKey(env.PROVIDER.toLowerCase(), PAIR, TIMEFRAME);
+  candles = (await createFileCandleStore().load(key))?.candles;
+  if (!candles || candles.length === 0) {
+    console.error(`No stored candles for ${key}. Run: PROVIDER=${env.PROVIDER} PAIRS=${PAIR} TIMEFRAME=${TIMEFRAME} npm run backfill`);
+    process.exit(1);
+  }
+} else {
+  console.warn('WARN: CANDLE_FILE not set, optimising on synthetic candles');
+  candles = generateSyntheticCandles(PAIR, TIMEFRAME, 3000);
+}
+
+const fmt = (value, digits = 2) => isFinite(value) ? value.toFixed(digits) : 'n/a';
+const day = (time) => new Date(time * 1000).toISOString().slice(0, 16).replace('T', ' ');
+
+console.log(`Optimising ${PAIR} ${TIMEFRAME}: ${candles.length} candles, ${options.search} search, objective ${options.objective}, ${options.folds} folds`);
+
+// --- RUN ---
+let report;
+try {
+  report = walkForward(candles, config, space, options);
+} catch (e) {
+  console.error(`Optimiser Error: ${e.message}`);
+  process.exit(1);
+}
+
+report.folds.forEach((fold, i) => {
+  console.log(`\nFold ${i + 1}  IS ${day(fold.inSample.from)} → ${day(fold.inSample.to)}  OOS ${day(fold.outOfSample.from)} → ${day(fold.outOfSample.to)}`);
+  console.log(`  best ${JSON.stringify(fold.best)}`);
+  console.log(`  in-sample ${fmt(fold.inSampleScore)}  out-of-sample ${fmt(fold.outOfSampleScore)}  (${fold.outOfSampleResult.trades} OOS trades, ${fmt(fold.outOfSampleResult.totalPnL)} ${config.accountCurrency})`);
+});
+
+const oos = report.outOfSample;
+console.log('\nCombined out-of-sample');
+console.log(`  trades ${oos.trades}  win rate ${fmt(oos.winRate, 1)}%  PnL ${fmt(oos.totalPnL)} ${config.accountCurrency}  expectancy ${fmt(oos.expectancyR)}R  max DD ${fmt(oos.maxDrawdownPercent, 1)}%  sharpe ${fmt(oos.sharpe)}`);
+console.log(`  walk-forward efficiency ${fmt(report.efficiency)} (OOS score / IS score)`);
+
+console.log('\nParameter stability');
+report.stability.forEach(p => {
+  console.log(`  ${p.key.padEnd(14)} ${p.stable ? 'STABLE  ' : 'UNSTABLE'} chosen [${p.chosen.join(', ')}]  mode ${p.mode} (${fmt(p.modeShare * 100, 0)}%)  cv ${fmt(p.coefficientOfVariation)}`);
+});
+
+if (env.REPORT_FILE) {
+  // Ledgers make the file large but allow re-plotting every fold
+  writeFileSync(env.REPORT_FILE, JSON.stringify({ pair: PAIR, timeframe: TIMEFRAME, options, space, report }, null, 2));
+  console.log(`\nReport written to ${env.REPORT_FILE}`);
+}
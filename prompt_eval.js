@@ -0,0 +1,160 @@
+/**
+ * PROMPT EVALUATION HARNESS (offline)
+ *
+ * Replays recorded scans (the fixture bundle exported from the dashboard's
+ * SIGNAL HISTORY panel) through prompt versions, scores each resulting signal
+ * against what price did after the snapshot and compares the versions.
+ *
+ * Usage:
+ *   FIXTURES=titansignal-fixtures.json npm run eval
+ *   FIXTURES=titansignal-fixtures.json PROMPTS=v1,v2 RESPONSES=live BACKEND=openai MODEL=qwen2.5:7b SAVE=1 npm run eval
+ *
+ * Options (env):
+ *   FIXTURES      Fixture bundle (JSON) exported from the dashboard. Required.
+ *   PROMPTS       Prompt version ids to compare (default: all, services/analysis/prompts.ts).
+ *   RESPONSES     recorded: only replies already in the bundle (the scan's own, or saved by SAVE=1). Fully offline.
+ *                 stub: canned replies from the stub backend, to check the pipeline.
+ *                 live: recorded when available, otherwise ask BACKEND (gemini|openai).
+ *   BACKEND, MODEL, TEMPERATURE, TIMEOUT_MS  for RESPONSES=live (defaults: the backend's own).
+ *                 GEMINI_API_KEY / LLM_API_BASE / LLM_API_KEY as for the dashboard.
+ *   SAVE=1        Write live replies back into FIXTURES, so the next run is offline.
+ *   REPORT_FILE   Write every case and the per-version report as JSON.
+ *
+ * Candles after a snapshot come from the bundle; series missing there are
+ * read from the Node candle store (`npm run backfill`).
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { getBackend } from './services/analysis';
+import { PROMPT_VERSIONS } from './services/analysis/prompts';
+import { buildReplayPrompt, scoreReply, summarizeEval } from './utils/promptEval';
+import { createFileCandleStore } from './utils/candleStoreFile';
+import { seriesKey } from './utils/candleStore';
+
+// --- CONFIGURATION ---
+const env = process.env;
+const MODE = ['recorded', 'stub', 'live'].includes(env.RESPONSES) ? env.RESPONSES : 'recorded';
+
+if (!env.FIXTURES) {
+  console.error('FIXTURES not set: export the fixture bundle from the dashboard (SIGNAL HISTORY → download)');
+  process.exit(1);
+}
+
+const ids = env.PROMPTS ? env.PROMPTS.split(',').map(id => id.trim()).filter(Boolean) : PROMPT_VERSIONS.map(v => v.id);
+const versions = ids.map(id => PROMPT_VERSIONS.find(v => v.id === id));
+if (versions.some(v => !v)) {
+  console.error(`Unknown prompt version in ${ids.join(',')}. Known: ${PROMPT_VERSIONS.map(v => v.id).join(', ')}`);
+  process.exit(1);
+}
+
+let backend = null;
+let settings = null;
+if (MODE !== 'recorded') {
+  backend = getBackend(MODE === 'stub' ? 'stub' : (env.BACKEND || 'gemini'));
+  settings = {
+    ...backend.defaults,
+    ...(env.MODEL && { model: env.MODEL }),
+    ...(env.TEMPERATURE && { temperature: Number(env.TEMPERATURE) }),
+    ...(env.TIMEOUT_MS && { timeoutMs: Number(env.TIMEOUT_MS) })
+  };
+  const unavailable = !backend.complete ? `${backend.label} does not call a model` : backend.unavailable(settings);
+  if (unavailable) {
+    console.error(unavailable);
+    process.exit(1);
+  }
+}
+
+// --- DATA ---
+const bundle = JSON.parse(readFileSync(env.FIXTURES, 'utf8'));
+bundle.responses = bundle.responses || {};
+const fixtures = bundle.fixtures || [];
+if (fixtures.length === 0) {
+  console.error(`No fixtures in ${env.FIXTURES}`);
+  process.exit(1);
+}
+
+// Series the export did not include (e.g. a pair only backfilled in Node)
+const store = createFileCandleStore();
+for (const fixture of fixtures) {
+  if (!fixture.providerId) continue;
+  for (const pair of Object.keys(fixture.snapshot)) {
+    const key = seriesKey(fixture.providerId, pair, fixture.timeframe);
+    if (bundle.series[key]) continue;
+    const stored = await store.load(key);
+    if (stored) bundle.series[key] = stored.candles;
+  }
+}
+
+console.log(`Evaluating ${fixtures.length} fixtures × ${ids.join(', ')}: ${MODE} replies${backend ? ` (${backend.label}${backend.usesModel ? ` ${settings.model}` : ''})` : ''}`);
+
+// --- RUN ---
+const recordedReply = (version, fixture) => {
+  if (fixture.promptVersion === version.id && fixture.response) {
+    return { text: fixture.response, source: 'recorded', usage: fixture.usage };
+  }
+  const saved = bundle.responses[`${version.id}:${fixture.id}`];
+  return saved ? { text: saved.response, source: 'recorded', usage: saved.usage } : null;
+};
+
+const cases = [];
+let saved = 0;
+for (const version of versions) {
+  for (const fixture of fixtures) {
+    let reply = MODE === 'stub' ? null : recordedReply(version, fixture);
+    if (!reply && backend) {
+      try {
+        const completion = await backend.complete({
+          system: version.system,
+          prompt: buildReplayPrompt(version, fixture),
+          schema: version.schema,
+          key: `eval:${version.id}:${fixture.id}`
+        }, settings);
+        reply = { text: completion.text, source: MODE, usage: completion.usage };
+        if (MODE === 'live') {
+          bundle.responses[`${version.id}:${fixture.id}`] = { response: completion.text, model: settings.model, usage: completion.usage };
+          saved++;
+        }
+      } catch (e) {
+        console.warn(`  ${version.id} ${fixture.id}: ${e.message}`);
+      }
+    }
+    cases.push(scoreReply(bundle, version, fixture, reply));
+  }
+}
+
+// --- REPORT ---
+const fmt = (value, digits = 2) => isFinite(value) ? value.toFixed(digits) : 'n/a';
+const reports = summarizeEval(cases);
+
+console.log('\nversion  replies  errors  none  rej  rep  trades  open  TP+  SL  EXP   hit%     avgR    totalR   tokens');
+reports.forEach(r => {
+  console.log(
+    `${r.promptVersion.padEnd(8)} ${String(r.replies).padStart(7)} ${String(r.errors).padStart(7)} ${String(r.noSignal).padStart(5)} ${String(r.rejected).padStart(4)} ${String(r.repaired).padStart(4)}` +
+    ` ${String(r.trades).padStart(7)} ${String(r.open).padStart(5)} ${String(r.hits).padStart(4)} ${String(r.stops).padStart(3)} ${String(r.expired).padStart(4)}` +
+    ` ${(r.resolved > 0 ? fmt(r.hitRate, 1) : '—').padStart(6)} ${fmt(r.avgR).padStart(8)} ${fmt(r.totalR).padStart(9)} ${String(r.tokens).padStart(8)}`
+  );
+});
+
+// Where the versions disagree on the same snapshot
+if (versions.length > 1) {
+  const byFixture = new Map();
+  cases.forEach(c => byFixture.set(c.fixtureId, [...(byFixture.get(c.fixtureId) || []), c]));
+  const answered = Array.from(byFixture.values()).filter(group => group.every(c => c.source));
+  const differing = answered.filter(group =>
+    new Set(group.map(c => c.signal ? `${c.signal.best_pair} ${c.signal.signal}` : c.error)).size > 1
+  );
+  console.log(`\n${differing.length}/${answered.length} snapshots with a reply from every version were answered differently`);
+  differing.slice(0, 10).forEach(group => {
+    console.log(`  ${group[0].fixtureId}: ${group.map(c => `${c.promptVersion} ${c.signal ? `${c.signal.best_pair} ${c.signal.signal}` : c.error}${c.outcome ? ` → ${c.outcome}` : ''}`).join(' | ')}`);
+  });
+}
+
+if (saved > 0 && env.SAVE === '1') {
+  writeFileSync(env.FIXTURES, JSON.stringify(bundle));
+  console.log(`\n${saved} live replies saved to ${env.FIXTURES}`);
+}
+
+if (env.REPORT_FILE) {
+  writeFileSync(env.REPORT_FILE, JSON.stringify({ mode: MODE, versions: ids, reports, cases }, null, 2));
+  console.log(`\nReport written to ${env.REPORT_FILE}`);
+}
@@ -0,0 +1,53 @@
+/**
+ * PROVIDER SMOKE CHECK
+ * 
+ * Fetches one pair per timeframe through every registered market data
+ * provider and reports candle counts. Run it against provider_stub_server.js:
+ * 
+ *   npm run stub:providers &
+ *   CRYPTOCOMPARE_API_BASE=http://localhost:8787 OANDA_API_BASE=http://localhost:8787 \
+ *   OANDA_API_KEY=stub BINANCE_API_BASE=http://localhost:8787 npm run providers:check
+ * 
+ * Set REPLAY_FILE=candles.csv to include the replay provider (pair column or EURUSD).
+ * The MT5 bridge is checked only when MT5_BRIDGE_URL is set or --mt5 is passed
+ * (e.g. with `npm run mt5:mock` running); it has no stub here.
+ */
+
+import { readFileSync } from 'fs';
+import { listProviders, replayProvider } from './services/providers';
+import { parseCandleFile } from './services/providers/replay';
+import { TIMEFRAME_LIST } from './utils/timeframes';
+
+if (process.env.REPLAY_FILE) {
+  replayProvider.load(parseCandleFile(readFileSync(process.env.REPLAY_FILE, 'utf8'), 'EURUSD'));
+}
+
+const SAMPLE_PAIRS = ['EURUSD', 'XAUUSD', 'BTCUSD'];
+const CHECK_MT5 = Boolean(process.env.MT5_BRIDGE_URL) || process.argv.includes('--mt5');
+let failures = 0;
+
+for (const provider of listProviders()) {
+  if (provider.id === 'mt5' && !CHECK_MT5) {
+    console.log(`${provider.label}: skipped (set MT5_BRIDGE_URL or pass --mt5)`);
+    continue;
+  }
+  const pair = SAMPLE_PAIRS.find(p => provider.supports(p));
+  if (!pair) {
+    console.log(`${provider.label}: no sample pair loaded, skipped`);
+    continue;
+  }
+
+  for (const timeframe of TIMEFRAME_LIST) {
+    try {
+      const candles = await provider.fetchCandles(pair, timeframe, 250);
+      const sorted = candles.every((c, i) => i === 0 || c.time > candles[i - 1].time);
+      if (candles.length === 0 || !sorted) throw new Error(`bad series (${candles.length} candles, sorted=${sorted})`);
+      console.log(`${provider.label} ${pair} ${timeframe}: ${candles.length} candles, last close ${candles[candles.length - 1].close}`);
+    } catch (e) {
+      failures++;
+      console.error(`${provider.label} ${pair} ${timeframe}: FAILED - ${e.message}`);
+    }
+  }
+}
+
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,149 @@
+/**
+ * MARKET DATA PROVIDER STUB SERVER
+ * 
+ * Serves deterministic fake candles in the CryptoCompare, OANDA v20 and
+ * Binance REST formats so every provider can be exercised offline.
+ * 
+ * Endpoints:
+ *   GET /data/v2/histominute|histohour?fsym=EUR&tsym=USD&limit=250&aggregate=5[&toTs=]   (CryptoCompare)
+ *   GET /v3/instruments/EUR_USD/candles?count=250&granularity=M5[&to=]                  (OANDA, needs Bearer token)
+ *   GET /api/v3/klines?symbol=BTCUSDT&interval=5m&limit=250[&endTime=]                  (Binance)
+ *
+ * Prices are a function of time, so history pages (toTs/to/endTime) join up.
+ * 
+ * Usage:
+ *   STUB_PORT=8787 npm run stub:providers
+ *   # .env.local
+ *   CRYPTOCOMPARE_API_BASE=http://localhost:8787
+ *   OANDA_API_BASE=http://localhost:8787
+ *   BINANCE_API_BASE=http://localhost:8787
+ *   # OANDA token: any value (e.g. "stub") in the dashboard's API TOKEN field,
+ *   # or OANDA_API_KEY=stub for the Node scripts
+ */
+
+import http from 'http';
+
+const PORT = parseInt(process.env.STUB_PORT || '8787', 10);
+
+const GRANULARITY_SECONDS = { M1: 60, M5: 300, M15: 900, H1: 3600, H4: 14400 };
+const INTERVAL_SECONDS = { '1m': 60, '5m': 300, '15m': 900, '1h': 3600, '4h': 14400 };
+
+// Small deterministic PRNG so the same symbol always yields the same series
+function seededRandom(seedText) {
+  let seed = 0;
+  for (const ch of seedText) seed = (seed * 31 + ch.charCodeAt(0)) >>> 0;
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+}
+
+function basePriceFor(symbol) {
+  if (symbol.includes('BTC')) return 95000;
+  if (symbol.includes('XAU')) return 2650;
+  if (symbol.includes('JPY')) return 150;
+  return 1.1;
+}
+
+// Price is a function of time, so history pages requested separately join up
+function priceAt(symbol, stepSeconds, time) {
+  const base = basePriceFor(symbol);
+  const phase = seededRandom(symbol)() * 100;
+  const wave = 0.004 * Math.sin(time / (stepSeconds * 50) + phase) + 0.002 * Math.sin(time / (stepSeconds * 13) + phase * 2);
+  return base * (1 + wave);
+}
+
+// `count` candles, the newest opening before `endTime` (unix seconds, default: include the forming candle)
+function makeCandles(symbol, stepSeconds, count, endTime = Math.floor(Date.now() / 1000) + stepSeconds) {
+  const last = Math.floor((endTime - 1) / stepSeconds) * stepSeconds;
+  const volatility = basePriceFor(symbol) * 0.0005 * Math.sqrt(stepSeconds / 300);
+  const candles = [];
+
+  for (let i = count - 1; i >= 0; i--) {
+    const time = last - i * stepSeconds;
+    const random = seededRandom(`${symbol}:${stepSeconds}:${time}`);
+    const open = priceAt(symbol, stepSeconds, time);
+    const close = priceAt(symbol, stepSeconds, time + stepSeconds);
+    candles.push({
+      time,
+      open,
+      high: Math.max(open, close) + random() * volatility,
+      low: Math.min(open, close) - random() * volatility,
+      close
+    });
+  }
+  return candles;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization'
+  });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const q = url.searchParams;
+  console.log(`[${new Date().toISOString()}] ${req.method} ${url.pathname}${url.search}`);
+
+  // --- CryptoCompare ---
+  const cc = url.pathname.match(/^\/data\/v2\/(histominute|histohour)$/);
+  if (cc) {
+    const unit = cc[1] === 'histominute' ? 60 : 3600;
+    const step = unit * parseInt(q.get('aggregate') || '1', 10);
+    const limit = parseInt(q.get('limit') || '250', 10);
+    // toTs: newest candle at or before it (history paging)
+    const end = q.get('toTs') ? parseInt(q.get('toTs'), 10) + 1 : undefined;
+    const candles = makeCandles(`${q.get('fsym')}${q.get('tsym')}`, step, limit + 1, end);
+    return send(res, 200, { Response: 'Success', Data: { Data: candles } });
+  }
+
+  // --- OANDA v20 ---
+  const oanda = url.pathname.match(/^\/v3\/instruments\/([A-Z]+_[A-Z]+)\/candles$/);
+  if (oanda) {
+    if (!req.headers.authorization) return send(res, 401, { errorMessage: 'Insufficient authorization to perform request.' });
+    const step = GRANULARITY_SECONDS[q.get('granularity') || 'M5'];
+    if (!step) return send(res, 400, { errorMessage: 'Invalid granularity' });
+    // to: candles opening before it (history paging)
+    const end = q.get('to') ? Math.floor(new Date(q.get('to')).getTime() / 1000) : undefined;
+    const candles = makeCandles(oanda[1].replace('_', ''), step, parseInt(q.get('count') || '250', 10), end);
+    const price = q.get('price') || 'M';
+    // Fixed 0.01% spread around mid
+    const side = (c, shift) => ({ o: (c.open + shift).toFixed(5), h: (c.high + shift).toFixed(5), l: (c.low + shift).toFixed(5), c: (c.close + shift).toFixed(5) });
+    return send(res, 200, {
+      instrument: oanda[1],
+      granularity: q.get('granularity'),
+      candles: candles.map(c => ({
+        complete: c.time + step <= Date.now() / 1000,
+        volume: 100,
+        time: new Date(c.time * 1000).toISOString(),
+        ...(price.includes('M') && { mid: side(c, 0) }),
+        ...(price.includes('B') && { bid: side(c, -c.close * 0.00005) }),
+        ...(price.includes('A') && { ask: side(c, c.close * 0.00005) })
+      }))
+    });
+  }
+
+  // --- Binance ---
+  if (url.pathname === '/api/v3/klines') {
+    const step = INTERVAL_SECONDS[q.get('interval') || '5m'];
+    if (!step) return send(res, 400, { code: -1120, msg: 'Invalid interval.' });
+    // endTime (ms): newest kline opening at or before it (history paging)
+    const end = q.get('endTime') ? Math.floor(parseInt(q.get('endTime'), 10) / 1000) + 1 : undefined;
+    const candles = makeCandles(q.get('symbol') || 'BTCUSDT', step, parseInt(q.get('limit') || '250', 10), end);
+    return send(res, 200, candles.map(c => [
+      c.time * 1000, c.open.toFixed(2), c.high.toFixed(2), c.low.toFixed(2), c.close.toFixed(2), '10.0', (c.time + step) * 1000 - 1
+    ]));
+  }
+
+  send(res, 404, { error: 'Unknown stub endpoint' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Provider stub server listening on http://localhost:${PORT}`);
+});
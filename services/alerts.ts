@@ -0,0 +1,94 @@
+import { AlertSettings, AlertWebhook, SignalData } from '../types';
+import { loadSettings, saveSettings } from '../utils/settings';
+import { alertKey, alertText, alertTitle, SentAlert, shouldAlert, webhookBody } from '../utils/signalAlerts';
+
+/**
+ * SIGNAL ALERT DELIVERY
+ *
+ * Desktop notification, a short tone and a POST to every enabled webhook.
+ * The last alert per pair/timeframe is kept in localStorage, so a reload
+ * with LIVE SIGNALS back on does not repeat it. alert_receiver.js stands in
+ * for Telegram, Discord or any JSON endpoint when testing.
+ */
+
+const ALERT_LOG_KEY = 'alertLog';
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface AlertDelivery {
+  channel: string; // 'desktop', 'sound' or the webhook URL
+  ok: boolean;
+  error?: string;
+}
+
+let sent: Record<string, SentAlert> = loadSettings(ALERT_LOG_KEY, {});
+let audio: AudioContext | null = null;
+
+export const desktopPermission = (): NotificationPermission | 'unsupported' =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+export const requestDesktopPermission = async (): Promise<NotificationPermission | 'unsupported'> =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.requestPermission();
+
+const showDesktop = (signal: SignalData) => {
+  if (desktopPermission() !== 'granted') throw new Error(`Notification permission ${desktopPermission()}`);
+  new Notification(`TitanSignal: ${alertTitle(signal)}`, {
+    body: alertText(signal).split('\n').slice(1).join('\n'),
+    tag: alertKey(signal), // Replaces an older notification of the same pair
+  });
+};
+
+// Two rising beeps for BUY, two falling for SELL
+const playTone = (signal: SignalData) => {
+  audio = audio ?? new AudioContext();
+  const ctx = audio;
+  const notes = signal.signal === 'BUY' ? [660, 880] : [880, 660];
+  notes.forEach((frequency, i) => {
+    const start = ctx.currentTime + i * 0.18;
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.16);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.16);
+  });
+};
+
+const postWebhook = async (webhook: AlertWebhook, signal: SignalData) => {
+  const response = await fetch(webhook.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(webhookBody(webhook, signal)),
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+};
+
+const attempt = async (channel: string, send: () => void | Promise<void>): Promise<AlertDelivery> => {
+  try {
+    await send();
+    return { channel, ok: true };
+  } catch (e) {
+    console.error(`Alert Error (${channel}):`, e);
+    return { channel, ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+// Every configured channel, regardless of threshold and de-duplication (also the TEST button)
+export const sendAlert = (signal: SignalData, settings: AlertSettings): Promise<AlertDelivery[]> => Promise.all([
+  ...(settings.desktop ? [attempt('desktop', () => showDesktop(signal))] : []),
+  ...(settings.sound ? [attempt('sound', () => playTone(signal))] : []),
+  ...settings.webhooks
+    .filter(webhook => webhook.enabled && webhook.url)
+    .map(webhook => attempt(webhook.url, () => postWebhook(webhook, signal))),
+]);
+
+// Alerts a live signal once per setup; returns null when it was not alerted
+export const notifySignal = (signal: SignalData, settings: AlertSettings): Promise<AlertDelivery[]> | null => {
+  const key = alertKey(signal);
+  if (!shouldAlert(signal, settings, sent[key])) return null;
+  sent = { ...sent, [key]: { signal: signal.signal, sentAt: Date.now() } };
+  saveSettings(ALERT_LOG_KEY, sent);
+  return sendAlert(signal, settings);
+};
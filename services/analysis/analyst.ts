@@ -0,0 +1,143 @@
+import { AnalysisBackend, AnalysisBackendSettings, Candle, ChartLevel, ChartLevelKind, ChatMessage, ChatTurn, SignalData, Timeframe, TokenUsage } from '../../types';
+import { summarizePair } from '../../utils/marketSummary';
+import { lastATR } from '../../utils/indicators';
+import { getInstrument } from '../../utils/instruments';
+import { STRATEGY_RULES } from '../../utils/strategy';
+import { parseModelJson } from './model';
+
+/**
+ * ANALYST CHAT
+ *
+ * Follow-up questions about the signal on the card ("why not SELL?", "where
+ * is the invalidation?") go to the selected analysis backend. The signal and
+ * the pair's recent candles are the context of every turn; earlier turns of
+ * the same signal's conversation are sent as history. Levels the answer
+ * proposes come back as structured data and are sanity checked before they
+ * can be drawn on the chart.
+ */
+
+const CONTEXT_CANDLES = 30;
+const MAX_LEVELS = 8;
+// Levels further than this from the close are dropped as hallucinated
+const MAX_LEVEL_ATRS = 10;
+
+export const LEVEL_KINDS: ChartLevelKind[] = ['ENTRY', 'STOP', 'TARGET', 'INVALIDATION', 'SUPPORT', 'RESISTANCE'];
+
+const ANALYST_INSTRUCTION = `You are the analyst who produced the trading signal below. The trader asks follow-up questions about it.
+Answer from the signal and the candles given, briefly (at most 6 sentences), and say so when the data does not answer the question.
+When the answer names price levels (invalidation, alternative entry, stop or targets, support, resistance), also return each one in "levels".
+
+OUTPUT JSON:
+{
+  "answer": "string",
+  "levels": [{ "label": "string", "price": number, "kind": "${LEVEL_KINDS.join('|')}" }]
+}
+Return "levels": [] when the answer proposes no level.
+
+CONTEXT:`;
+
+export const ANALYST_SCHEMA = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    levels: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          price: { type: 'number' },
+          kind: { type: 'string', enum: LEVEL_KINDS },
+        },
+        required: ['label', 'price', 'kind'],
+      },
+    },
+  },
+  required: ['answer', 'levels'],
+};
+
+export interface AnalystContext {
+  signal: SignalData;
+  pair: string; // Whose candles are the context (and whose chart the levels belong to)
+  candles: Candle[];
+  timeframe: Timeframe;
+}
+
+// The signal as the model should see it: levels, reason, checks. Sizing and scan bookkeeping left out.
+const describeSignal = (signal: SignalData) => JSON.stringify({
+  best_pair: signal.best_pair,
+  timeframe: signal.timeframe,
+  trend: signal.trend,
+  signal: signal.signal,
+  ...(signal.signal !== 'NO_SIGNAL' && {
+    entry_price: signal.entry_price,
+    stop_loss: signal.stop_loss,
+    tp1: signal.tp1,
+    tp2: signal.tp2,
+    tp3: signal.tp3,
+  }),
+  reason: signal.reason,
+  strength_score: signal.strength_score,
+  source: signal.source,
+  ...(signal.htf_trend && { htf_trend: signal.htf_trend }),
+  ...(signal.validation && { validation: signal.validation }),
+});
+
+export const buildAnalystSystem = ({ signal, pair, candles, timeframe }: AnalystContext) => [
+  ANALYST_INSTRUCTION,
+  `SIGNAL (${timeframe}): ${describeSignal(signal)}`,
+  `CANDLES (O,H,L,C): ${summarizePair(pair, candles, CONTEXT_CANDLES) ?? `no candles loaded for ${pair}`}`,
+].join('\n');
+
+// Levels that are numbers near the market, rounded to the pair's digits; the rest are dropped
+export const sanitizeLevels = (raw: unknown, pair: string, candles: Candle[]): ChartLevel[] => {
+  if (!Array.isArray(raw)) return [];
+  const { digits } = getInstrument(pair);
+  const close = candles[candles.length - 1]?.close;
+  const atr = lastATR(candles, STRATEGY_RULES.atrPeriod);
+
+  return raw
+    .map(level => ({
+      pair,
+      price: parseFloat(Number(level?.price).toFixed(digits)),
+      label: String(level?.label ?? '').slice(0, 40),
+      kind: LEVEL_KINDS.includes(level?.kind) ? level.kind as ChartLevelKind : 'SUPPORT',
+    }))
+    .filter(level =>
+      Number.isFinite(level.price) && level.price > 0 &&
+      (!close || !atr || Math.abs(level.price - close) <= MAX_LEVEL_ATRS * atr)
+    )
+    .slice(0, MAX_LEVELS);
+};
+
+// Why the backend cannot answer questions, null when it can
+export const analystUnavailable = (backend: AnalysisBackend, settings: AnalysisBackendSettings): string | null =>
+  backend.complete ? backend.unavailable(settings) : `${backend.label} cannot answer questions: pick a model backend`;
+
+// Answered turns only: a failed call and its question are not sent again
+const toTurns = (history: ChatMessage[]): ChatTurn[] =>
+  history
+    .filter((message, i) => !message.error && !history[i + 1]?.error)
+    .map(message => ({ role: message.role === 'user' ? 'user' : 'model', text: message.text }));
+
+export const askAnalyst = async (
+  backend: AnalysisBackend,
+  settings: AnalysisBackendSettings,
+  context: AnalystContext,
+  history: ChatMessage[],
+  question: string
+): Promise<{ text: string; levels: ChartLevel[]; usage: TokenUsage }> => {
+  const unavailable = analystUnavailable(backend, settings);
+  if (unavailable || !backend.complete) throw new Error(unavailable ?? 'No model backend');
+
+  const completion = await backend.complete({
+    system: buildAnalystSystem(context),
+    prompt: question,
+    schema: ANALYST_SCHEMA,
+    history: toTurns(history),
+  }, settings);
+
+  const reply = parseModelJson(completion.text) as { answer?: unknown; levels?: unknown };
+  if (typeof reply.answer !== 'string' || !reply.answer.trim()) throw new Error('No answer in the model response');
+  return { text: reply.answer.trim(), levels: sanitizeLevels(reply.levels, context.pair, context.candles), usage: completion.usage };
+};
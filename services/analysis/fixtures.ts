@@ -0,0 +1,33 @@
+import { Candle, ScanFixture } from '../../types';
+
+/**
+ * PROMPT/RESPONSE FIXTURES
+ *
+ * Every model call of a scan is announced here with its prompt version,
+ * config, the candles it was built from and the raw reply (or error). The
+ * dashboard stores them (utils/fixtureStore.ts) and exports them with the
+ * candles that followed for prompt_eval.js.
+ */
+
+// Enough for SMA200 plus the swing lookback when a prompt is rebuilt from the snapshot
+export const FIXTURE_BARS = 210;
+
+const listeners = new Set<(fixture: ScanFixture) => void>();
+
+export const subscribeFixtures = (listener: (fixture: ScanFixture) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const recordFixture = (fixture: ScanFixture) => {
+  listeners.forEach(listener => listener(fixture));
+};
+
+// Raw OHLC (indicators are recomputed on replay)
+export const toSnapshot = (marketData: Record<string, Candle[]>): Record<string, Candle[]> =>
+  Object.fromEntries(Object.entries(marketData).map(([pair, candles]) => [
+    pair,
+    candles.slice(-FIXTURE_BARS).map(({ time, open, high, low, close, spread }): Candle => ({
+      time, open, high, low, close, ...(spread !== undefined && { spread })
+    }))
+  ]));
@@ -0,0 +1,52 @@
+import { GoogleGenAI, ApiError } from '@google/genai';
+import { AnalysisBackend, TokenUsage } from '../../types';
+import { HttpError, scheduleRequest } from '../requestScheduler';
+import { createModelBackend, withTimeout } from './model';
+
+// Gemini puts the wait in the error body (RetryInfo "retryDelay": "37s"), not a header
+const toHttpError = (error: unknown) => {
+  if (!(error instanceof ApiError)) return error;
+  const retryDelay = error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return new HttpError(error.message, error.status, retryDelay ? parseFloat(retryDelay[1]) * 1000 : undefined);
+};
+
+// envApiKey is baked in at build time; a key entered in the settings takes precedence
+export const createGeminiBackend = (envApiKey: string): AnalysisBackend => {
+  const clients = new Map<string, GoogleGenAI>();
+  const clientFor = (apiKey: string) => {
+    if (!clients.has(apiKey)) clients.set(apiKey, new GoogleGenAI({ apiKey }));
+    return clients.get(apiKey)!;
+  };
+
+  return createModelBackend({
+    id: 'gemini',
+    label: 'Gemini',
+    defaults: { model: 'gemini-2.5-flash', temperature: 0.1, timeoutMs: 60000, apiKey: '' },
+    unavailable: settings => settings.apiKey || envApiKey ? null : 'Gemini API key missing',
+    complete: async (request, settings) => {
+      const ai = clientFor(settings.apiKey || envApiKey);
+      const response = await scheduleRequest('gemini', () => withTimeout(settings.timeoutMs, 'Gemini', abortSignal => ai.models.generateContent({
+        model: settings.model,
+        contents: request.history
+          ? [...request.history, { role: 'user', text: request.prompt }].map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }))
+          : request.prompt,
+        config: {
+          systemInstruction: request.system,
+          temperature: settings.temperature,
+          abortSignal,
+          ...(request.schema && { responseMimeType: 'application/json', responseJsonSchema: request.schema }),
+        },
+      }).catch(e => { throw toHttpError(e); })), { key: request.key, retries: 1 });
+
+      if (!response.text) throw new Error('Empty response');
+      const meta = response.usageMetadata;
+      const usage: TokenUsage = {
+        prompt: meta?.promptTokenCount ?? 0,
+        output: meta?.candidatesTokenCount ?? 0,
+        thinking: meta?.thoughtsTokenCount ?? 0,
+        total: meta?.totalTokenCount ?? 0
+      };
+      return { text: response.text, usage };
+    }
+  });
+};
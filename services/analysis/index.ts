@@ -0,0 +1,36 @@
+import { AnalysisBackend, AnalysisBackendId } from '../../types';
+import { createGeminiBackend } from './gemini';
+import { createOpenAiBackend } from './openai';
+import { createRulesBackend } from './rules';
+import { createStubBackend } from './stub';
+
+/**
+ * Analysis backend registry.
+ *
+ * Endpoints and keys come from the environment; each backend's model,
+ * temperature and timeout (and optional key/URL overrides) are user settings
+ * (analysisBackendKey in utils/settings.ts).
+ */
+
+const registry = new Map<AnalysisBackendId, AnalysisBackend>();
+
+export const registerBackend = (backend: AnalysisBackend) => {
+  registry.set(backend.id, backend);
+};
+
+export const getBackend = (id: AnalysisBackendId): AnalysisBackend => {
+  const backend = registry.get(id);
+  if (!backend) throw new Error(`Unknown analysis backend: ${id}`);
+  return backend;
+};
+
+export const listBackends = (): AnalysisBackend[] => Array.from(registry.values());
+
+registerBackend(createGeminiBackend(process.env.GEMINI_API_KEY || ''));
+registerBackend(createOpenAiBackend({
+  baseUrl: process.env.LLM_API_BASE || 'http://127.0.0.1:11434/v1',
+  apiKey: process.env.LLM_API_KEY || '',
+  model: process.env.LLM_MODEL || 'llama3.1:8b'
+}));
+registerBackend(createRulesBackend());
+registerBackend(createStubBackend());
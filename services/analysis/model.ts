@@ -0,0 +1,91 @@
+import { AnalysisBackend, AnalysisBackendSettings, Completion, CompletionRequest, TokenUsage } from '../../types';
+import { validateSignal } from '../../utils/signalValidation';
+import { HttpError } from '../requestScheduler';
+import { getPromptVersion } from './prompts';
+import { recordFixture, toSnapshot } from './fixtures';
+
+/**
+ * Shared by the backends that send the scan to a language model (Gemini,
+ * OpenAI-compatible, stub): the prompt of the selected version, recording
+ * the call as a fixture, and the parsing/validation of the reply. A backend
+ * only supplies `complete`.
+ */
+
+export const NO_USAGE: TokenUsage = { prompt: 0, output: 0, thinking: 0, total: 0 };
+
+// Local models often wrap the JSON in a ```json fence or add a sentence around it
+export const parseModelJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  if (start < 0 || end < start) throw new Error('No JSON object in the model response');
+  return JSON.parse(body.slice(start, end + 1));
+};
+
+// Runs `task` with an abort signal that fires after timeoutMs; the timeout is a retryable 408
+export const withTimeout = async <T>(timeoutMs: number, label: string, task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await task(controller.signal);
+  } catch (e) {
+    if (controller.signal.aborted) throw new HttpError(`${label} timed out after ${timeoutMs / 1000}s`, 408);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+interface ModelBackendConfig {
+  id: AnalysisBackend['id'];
+  label: string;
+  defaults: AnalysisBackendSettings;
+  unavailable: AnalysisBackend['unavailable'];
+  complete: (request: CompletionRequest, settings: AnalysisBackendSettings) => Promise<Completion>;
+}
+
+export const createModelBackend = ({ id, label, defaults, unavailable, complete }: ModelBackendConfig): AnalysisBackend => ({
+  id,
+  label,
+  usesModel: true,
+  defaults,
+  unavailable,
+  complete,
+  analyze: async (marketData, timeframe, settings, { recentCandles, promptVersion }) => {
+    const version = getPromptVersion(promptVersion);
+    const prompt = version.buildPrompt(marketData, timeframe, recentCandles);
+    const started = Date.now();
+    const fixture = (response: string | null, error: string | null, usage: TokenUsage) => recordFixture({
+      id: `${started}-${Object.keys(marketData).join('-')}`,
+      createdAt: started,
+      promptVersion: version.id,
+      config: { backend: id, model: settings.model, temperature: settings.temperature, timeoutMs: settings.timeoutMs },
+      timeframe,
+      recentCandles,
+      snapshot: toSnapshot(marketData),
+      prompt,
+      response,
+      error,
+      usage,
+      durationMs: Date.now() - started
+    });
+
+    let completion: Completion;
+    try {
+      completion = await complete({
+        system: version.system,
+        prompt,
+        schema: version.schema,
+        // The same pairs already queued (e.g. the live loop while cooling down) share one call
+        key: `scan:${version.id}:${settings.model}:${timeframe}:${Object.keys(marketData).join(',')}`
+      }, settings);
+    } catch (e) {
+      fixture(null, e instanceof Error ? e.message : String(e), NO_USAGE);
+      throw e;
+    }
+    fixture(completion.text, null, completion.usage);
+    // Checked against the candles it was given before it can reach the execute button
+    return { signal: validateSignal({ ...(parseModelJson(completion.text) as object), source: 'AI' }, marketData, timeframe), usage: completion.usage };
+  }
+});
@@ -0,0 +1,63 @@
+import { AnalysisBackend } from '../../types';
+import { httpError, scheduleRequest } from '../requestScheduler';
+import { createModelBackend, withTimeout } from './model';
+
+interface OpenAiConfig {
+  baseUrl: string; // e.g. http://127.0.0.1:11434/v1 (Ollama), http://127.0.0.1:8080/v1 (llama.cpp server)
+  apiKey: string; // Local servers usually need none
+  model: string;
+}
+
+/**
+ * Any OpenAI-compatible chat completions endpoint: llama.cpp server, Ollama,
+ * LM Studio, vLLM or a hosted API. The reply is requested as json_schema;
+ * servers that ignore it still get the format from the system instruction.
+ */
+export const createOpenAiBackend = (env: OpenAiConfig): AnalysisBackend => createModelBackend({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaults: { model: env.model, temperature: 0.1, timeoutMs: 120000, baseUrl: '', apiKey: '' },
+  unavailable: settings => settings.model ? null : 'No model set for the OpenAI-compatible backend',
+  complete: async (request, settings) => {
+    const baseUrl = (settings.baseUrl || env.baseUrl).replace(/\/+$/, '');
+    const apiKey = settings.apiKey || env.apiKey;
+
+    const json = await scheduleRequest('llm', () => withTimeout(settings.timeoutMs, 'LLM', async signal => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { 'Authorization': `Bearer ${apiKey}` })
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          temperature: settings.temperature,
+          stream: false,
+          messages: [
+            { role: 'system', content: request.system },
+            ...(request.history ?? []).map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+            { role: 'user', content: request.prompt }
+          ],
+          ...(request.schema && { response_format: { type: 'json_schema', json_schema: { name: 'signal', schema: request.schema } } })
+        })
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw httpError(response, body.error?.message || body.error || `LLM HTTP ${response.status}`);
+      return body;
+    }), { key: request.key, retries: 1 });
+
+    const text = json.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text) throw new Error('LLM: empty or malformed completion');
+    const usage = json.usage ?? {};
+    return {
+      text,
+      usage: {
+        prompt: usage.prompt_tokens ?? 0,
+        output: usage.completion_tokens ?? 0,
+        thinking: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+        total: usage.total_tokens ?? 0
+      }
+    };
+  }
+});
@@ -0,0 +1,173 @@
+import { Candle, PromptVersion, Timeframe } from '../../types';
+import { TIMEFRAME_LIST } from '../../utils/timeframes';
+import { summarizeMarketData } from '../../utils/marketSummary';
+
+/**
+ * PROMPT VERSIONS
+ *
+ * Every scan records the id of the prompt it used (services/analysis/fixtures.ts)
+ * so prompt_eval.js can replay the same market snapshots through each version
+ * and compare the results. Never edit a released version: add a new id.
+ */
+
+const OUTPUT_FORMAT = `
+OUTPUT JSON:
+{
+  "best_pair": "string",
+  "timeframe": "M1|M5|M15|H1|H4",
+  "trend": "UPTREND|DOWNTREND|RANGING",
+  "signal": "BUY|SELL|NO_SIGNAL",
+  "entry_price": number,
+  "stop_loss": number,
+  "tp1": number,
+  "tp2": number,
+  "tp3": number,
+  "reason": "string",
+  "strength_score": number,
+  "lot_size": number,
+  "estimated_profit_tp1": number,
+  "estimated_profit_tp2": number,
+  "estimated_profit_tp3": number,
+  "live_pnl_formula": "string",
+  "status": "ACTIVE|WAIT"
+}
+If no valid signal, set "best_pair": "NONE", "signal": "NO_SIGNAL".
+lot_size and estimated_profit_* are recomputed from the trader's account risk: return 0 for them.
+`;
+
+// Plain JSON Schema: Gemini (responseJsonSchema) and OpenAI-style json_schema both take it
+export const SIGNAL_SCHEMA = {
+  type: 'object',
+  properties: {
+    best_pair: { type: 'string' },
+    timeframe: { type: 'string', enum: TIMEFRAME_LIST },
+    trend: { type: 'string' },
+    signal: { type: 'string', enum: ['BUY', 'SELL', 'NO_SIGNAL'] },
+    entry_price: { type: 'number' },
+    stop_loss: { type: 'number' },
+    tp1: { type: 'number' },
+    tp2: { type: 'number' },
+    tp3: { type: 'number' },
+    reason: { type: 'string' },
+    strength_score: { type: 'number' },
+    lot_size: { type: 'number' },
+    estimated_profit_tp1: { type: 'number' },
+    estimated_profit_tp2: { type: 'number' },
+    estimated_profit_tp3: { type: 'number' },
+    live_pnl_formula: { type: 'string' },
+    status: { type: 'string', enum: ['ACTIVE', 'WAIT'] },
+  },
+  required: [
+    'best_pair',
+    'timeframe',
+    'trend',
+    'signal',
+    'entry_price',
+    'stop_loss',
+    'tp1',
+    'tp2',
+    'tp3',
+    'reason',
+    'strength_score',
+    'lot_size',
+    'estimated_profit_tp1',
+    'estimated_profit_tp2',
+    'estimated_profit_tp3',
+    'live_pnl_formula',
+  ],
+};
+
+// The baseline single-call prompt: close, SMAs and the last 3 raw candles per pair
+const summarizeLast3 = (marketData: Record<string, Candle[]>) => {
+  let summary = '';
+  for (const pair of Object.keys(marketData)) {
+    const candles = marketData[pair];
+    if (!candles || candles.length < 3) continue;
+
+    const last3 = candles.slice(-3);
+    const current = last3[2];
+    const ohlc = (c: Candle) => `[${c.open},${c.high},${c.low},${c.close}]`;
+    summary += `P:${pair}|C:${current.close}|SMA20:${current.sma20?.toFixed(4)}|SMA200:${current.sma200?.toFixed(4)}\n`;
+    summary += `L3:${last3.map(ohlc).join(',')}\n--\n`;
+  }
+  return summary;
+};
+
+// Verbatim, M5 wording and lot_size 0.10 included, so v1 stays the baseline to compare against
+const V1: PromptVersion = {
+  id: 'v1',
+  description: 'Baseline prompt (M5 only): close, SMA20/200 and the last 3 candles per pair',
+  system: `
+You are a PREMIUM FOREX SIGNAL ENGINE.
+Analyze the market data for M5 signals.
+
+STRATEGY:
+1. TREND: 
+   BUY = Price > SMA200 && SMA20 > SMA200.
+   SELL = Price < SMA200 && SMA20 < SMA200.
+2. ENTRY: 
+   Liquidity sweep + Rejection (Pin/Engulfing) + Pullback to SMA20.
+3. VALIDATION: 
+   Score 0-100. Return signal only if score >= 80.
+
+OUTPUT JSON:
+{
+  "best_pair": "string",
+  "timeframe": "M5",
+  "trend": "UPTREND|DOWNTREND|RANGING",
+  "signal": "BUY|SELL|NO_SIGNAL",
+  "entry_price": number,
+  "stop_loss": number,
+  "tp1": number,
+  "tp2": number,
+  "tp3": number,
+  "reason": "string",
+  "strength_score": number,
+  "lot_size": 0.10,
+  "estimated_profit_tp1": number,
+  "estimated_profit_tp2": number,
+  "estimated_profit_tp3": number,
+  "live_pnl_formula": "string",
+  "status": "ACTIVE|WAIT"
+}
+If no valid signal, set "best_pair": "NONE", "signal": "NO_SIGNAL".
+`,
+  schema: { ...SIGNAL_SCHEMA, properties: { ...SIGNAL_SCHEMA.properties, timeframe: { type: 'string', enum: ['M5'] } } },
+  buildPrompt: marketData => `Analyze:\n${summarizeLast3(marketData)}`
+};
+
+const V2: PromptVersion = {
+  id: 'v2',
+  description: 'ATR, swing highs/lows, SMA distances in ATRs and the last N candles per pair',
+  system: `
+You are a PREMIUM FOREX SIGNAL ENGINE.
+Analyze the market data for signals on the timeframe named in the prompt.
+Pick the single best setup among the pairs given; best_pair must be one of them.
+
+INPUT (one block per pair, blocks separated by "--"):
+P:pair|C:last close|ATR:atr|SMA20:value(distance from close in ATRs)|SMA200:value(distance)
+SWH:recent swing highs|SWL:recent swing lows (oldest first)
+L{n}:last n candles as open,high,low,close; oldest first
+
+STRATEGY:
+1. TREND:
+   BUY = Price > SMA200 && SMA20 > SMA200.
+   SELL = Price < SMA200 && SMA20 < SMA200.
+2. ENTRY:
+   Liquidity sweep of a swing high/low + Rejection (Pin/Engulfing) + Pullback to SMA20.
+   Stop beyond the swept swing, roughly 1-2 ATR from entry.
+3. VALIDATION:
+   Score 0-100. Return signal only if score >= 80.
+${OUTPUT_FORMAT}`,
+  schema: SIGNAL_SCHEMA,
+  buildPrompt: (marketData: Record<string, Candle[]>, timeframe: Timeframe, recentCandles: number) =>
+    `Timeframe: ${timeframe}\nAnalyze:\n${summarizeMarketData(marketData, recentCandles)}`
+};
+
+export const PROMPT_VERSIONS: PromptVersion[] = [V1, V2];
+
+export const CURRENT_PROMPT_VERSION = V2.id;
+
+// Unknown ids (e.g. a version removed since the setting was saved) get the current prompt
+export const getPromptVersion = (id: string): PromptVersion =>
+  PROMPT_VERSIONS.find(v => v.id === id) ?? PROMPT_VERSIONS.find(v => v.id === CURRENT_PROMPT_VERSION)!;
@@ -0,0 +1,16 @@
+import { AnalysisBackend } from '../../types';
+import { scanWithRules } from '../../utils/strategy';
+import { NO_USAGE } from './model';
+
+// The deterministic rules engine (utils/strategy.ts): offline, free, same answer every time
+export const createRulesBackend = (): AnalysisBackend => ({
+  id: 'rules',
+  label: 'Rules Engine',
+  usesModel: false,
+  defaults: { model: '', temperature: 0, timeoutMs: 0 },
+  unavailable: () => null,
+  analyze: async (marketData, timeframe) => ({
+    signal: { ...scanWithRules(marketData, timeframe), source: 'RULES' },
+    usage: NO_USAGE
+  })
+});
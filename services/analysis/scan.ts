@@ -0,0 +1,119 @@
+import { AnalysisBackend, AnalysisBackendSettings, Candle, ScanSettings, SignalData, Timeframe, TokenUsage } from '../../types';
+import { createNoSignal, scanWithRules } from '../../utils/strategy';
+import { isRateLimitError } from '../requestScheduler';
+import { getBackend } from '.';
+import { NO_USAGE } from './model';
+import { getPromptVersion } from './prompts';
+
+const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  prompt: a.prompt + b.prompt,
+  output: a.output + b.output,
+  thinking: a.thinking + b.thinking,
+  total: a.total + b.total
+});
+
+interface BatchResult {
+  signal: SignalData;
+  usage: TokenUsage;
+  failed: boolean; // Answered by the rules engine
+}
+
+// One backend request for a batch of pairs; failures fall back to the rules engine
+const scanBatch = async (
+  backend: AnalysisBackend,
+  batch: Record<string, Candle[]>,
+  timeframe: Timeframe,
+  settings: AnalysisBackendSettings,
+  scan: ScanSettings
+): Promise<BatchResult> => {
+  try {
+    const { signal, usage } = await backend.analyze(batch, timeframe, settings, scan);
+    return { signal, usage, failed: false };
+  } catch (error: any) {
+    // Graceful Rate Limit Handling (the scheduler already retried after the cooldown)
+    if (isRateLimitError(error)) {
+      console.warn(`${backend.label} Rate Limit Hit`);
+      return { signal: createFallbackSignal(batch, timeframe, 'API RATE LIMIT REACHED. Cooling down...'), usage: NO_USAGE, failed: true };
+    }
+
+    console.error(`${backend.label} Error:`, error);
+    return { signal: createFallbackSignal(batch, timeframe, 'Analysis Service Unavailable'), usage: NO_USAGE, failed: true };
+  }
+};
+
+const VALIDATION_RANK = { VALID: 0, REPAIRED: 1, REJECTED: 2 };
+const rankOf = (signal: SignalData) => VALIDATION_RANK[signal.validation?.status ?? 'VALID'];
+
+/**
+ * Best setup across batches: the strongest executable signal (validated
+ * before repaired on a tie), else the strongest rejected one so its reasons
+ * are shown, else no signal.
+ */
+export const pickBestSignal = (signals: SignalData[], timeframe: Timeframe): SignalData => {
+  const setups = signals
+    .filter(s => s.signal !== 'NO_SIGNAL')
+    .sort((a, b) =>
+      Number(rankOf(a) === 2) - Number(rankOf(b) === 2) ||
+      b.strength_score - a.strength_score ||
+      rankOf(a) - rankOf(b)
+    );
+  if (setups.length > 0) return setups[0];
+  if (signals.length === 1) return signals[0];
+  return { ...createNoSignal('NONE', `No valid setup in any of the ${signals.length} batches`, 'RANGING', timeframe), source: signals.every(s => s.source === 'RULES') ? 'RULES' : 'AI' };
+};
+
+/**
+ * Scan in batches of settings.batchSize pairs (one request each to the
+ * selected backend, paced by its scheduler budget) and keep the best setup
+ * across batches. The result carries the batch count and the tokens the scan cost.
+ */
+export const scanAllMarkets = async (
+  marketData: Record<string, Candle[]>,
+  timeframe: Timeframe,
+  settings: ScanSettings,
+  backendSettings: AnalysisBackendSettings
+): Promise<SignalData> => {
+  const started = Date.now();
+  const backend = getBackend(settings.backend);
+  const unavailable = backend.unavailable(backendSettings);
+  if (unavailable) console.error(unavailable);
+
+  // Pairs without enough candles to summarize are not sent
+  const pairs = Object.keys(marketData).filter(pair => marketData[pair]?.length >= 3);
+  const size = Math.max(1, settings.batchSize);
+  const batches: Record<string, Candle[]>[] = [];
+  for (let i = 0; i < pairs.length; i += size) {
+    batches.push(Object.fromEntries(pairs.slice(i, i + size).map(pair => [pair, marketData[pair]])));
+  }
+
+  const results = batches.length > 0
+    ? await Promise.all(batches.map(batch => unavailable
+      ? { signal: createFallbackSignal(batch, timeframe, unavailable), usage: NO_USAGE, failed: true }
+      : scanBatch(backend, batch, timeframe, backendSettings, settings)))
+    : [{ signal: createFallbackSignal(marketData, timeframe, 'No market data'), usage: NO_USAGE, failed: true }];
+
+  return {
+    ...pickBestSignal(results.map(r => r.signal), timeframe),
+    scan: {
+      backend: backend.id,
+      model: backend.usesModel ? backendSettings.model : '',
+      promptVersion: backend.usesModel ? getPromptVersion(settings.promptVersion).id : '',
+      pairs: pairs.length,
+      batches: batches.length,
+      failedBatches: results.filter(r => r.failed).length,
+      usage: results.reduce((sum, r) => addUsage(sum, r.usage), NO_USAGE),
+      durationMs: Date.now() - started
+    }
+  };
+};
+
+// When the backend cannot answer, fall back to the deterministic rules engine
+// so a scan still produces a real result instead of a blank NO_SIGNAL.
+function createFallbackSignal(marketData: Record<string, Candle[]>, timeframe: Timeframe, reason: string): SignalData {
+  const signal = scanWithRules(marketData, timeframe);
+  return {
+    ...signal,
+    reason: `[RULES ENGINE - ${reason}] ${signal.reason}`,
+    source: 'RULES'
+  };
+}
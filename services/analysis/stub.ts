@@ -0,0 +1,99 @@
+import { AnalysisBackend } from '../../types';
+import { HttpError } from '../requestScheduler';
+import { createModelBackend, withTimeout } from './model';
+
+/**
+ * Canned model for exercising the UI offline. The "model" setting picks the
+ * reply: buy, sell, repair (levels the validator has to fix), reject (entry
+ * far from the market), none, error, ratelimit, or cycle through the first
+ * five. Replies are built from the first pair in the prompt and go through
+ * the same parsing and validation as a real model's. Analyst chat questions
+ * get an answer with an invalidation and a resistance level. The latency counts
+ * against the timeout setting, so timeouts can be tried too.
+ */
+
+const SCENARIOS = ['buy', 'sell', 'repair', 'reject', 'none'] as const;
+const LATENCY_MS = 400;
+
+// Rough token count: ~4 characters per token
+const tokens = (text: string) => Math.ceil(text.length / 4);
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => { clearTimeout(timer); reject(new Error('aborted')); });
+});
+
+// First "P:PAIR|C:close[|ATR:atr]" line of the prompt (any prompt version)
+const firstPair = (prompt: string) => {
+  const match = prompt.match(/P:([A-Z0-9]+)\|C:([\d.]+)(?:\|ATR:([\d.]+|NA))?/);
+  if (!match) return null;
+  const close = parseFloat(match[2]);
+  return { pair: match[1], close, atr: !match[3] || match[3] === 'NA' ? close * 0.002 : parseFloat(match[3]) };
+};
+
+const cannedReply = (scenario: string, prompt: string) => {
+  const market = firstPair(prompt);
+  if (!market || scenario === 'none') {
+    return { best_pair: 'NONE', signal: 'NO_SIGNAL', trend: 'RANGING', reason: 'Stub: no setup', strength_score: 0 };
+  }
+  const { pair, close, atr } = market;
+  const sign = scenario === 'sell' ? -1 : 1;
+  const risk = 1.5 * atr;
+  const entry = scenario === 'reject' ? close + 5 * atr : close;
+  const levels = scenario === 'repair'
+    // Stop on the wrong side, targets out of order
+    ? { stop_loss: entry + risk, tp1: entry + 3 * risk, tp2: entry + 1.5 * risk, tp3: entry + 2 * risk }
+    : { stop_loss: entry - sign * risk, tp1: entry + sign * 1.5 * risk, tp2: entry + sign * 2 * risk, tp3: entry + sign * 3 * risk };
+
+  return {
+    best_pair: pair,
+    signal: sign > 0 ? 'BUY' : 'SELL',
+    trend: sign > 0 ? 'UPTREND' : 'DOWNTREND',
+    entry_price: entry,
+    ...levels,
+    reason: `Stub ${scenario.toUpperCase()} reply for ${pair}`,
+    strength_score: scenario === 'reject' ? 90 : 85,
+    lot_size: 0,
+    estimated_profit_tp1: 0,
+    estimated_profit_tp2: 0,
+    estimated_profit_tp3: 0,
+    live_pnl_formula: '',
+    status: 'ACTIVE'
+  };
+};
+
+// Analyst chat: the pair and its candles are in the system instruction, the question is the prompt
+const chatReply = (system: string, question: string) => {
+  const market = firstPair(system);
+  if (!market) return { answer: 'Stub: no candles in the context', levels: [] };
+  const { pair, close, atr } = market;
+  return {
+    answer: `Stub answer to "${question}": ${pair} setup is invalidated 2 ATR below ${close}, resistance 1.5 ATR above.`,
+    levels: [
+      { label: 'Invalidation', price: close - 2 * atr, kind: 'INVALIDATION' },
+      { label: 'Resistance', price: close + 1.5 * atr, kind: 'RESISTANCE' }
+    ]
+  };
+};
+
+export const createStubBackend = (): AnalysisBackend => {
+  let calls = 0;
+
+  return createModelBackend({
+    id: 'stub',
+    label: 'Stub (canned)',
+    defaults: { model: 'cycle', temperature: 0, timeoutMs: 5000 },
+    unavailable: () => null,
+    complete: (request, settings) => withTimeout(settings.timeoutMs, 'Stub', async signal => {
+      await sleep(LATENCY_MS, signal);
+      const scenario = request.history || settings.model !== 'cycle' ? settings.model : SCENARIOS[calls++ % SCENARIOS.length];
+      if (scenario === 'error') throw new HttpError('Stub: simulated server error', 500);
+      if (scenario === 'ratelimit') throw new HttpError('Stub: simulated rate limit', 429);
+
+      const text = JSON.stringify(request.history ? chatReply(request.system, request.prompt) : cannedReply(scenario, request.prompt));
+      const prompt = tokens(request.system + request.prompt);
+      const output = tokens(text);
+      return { text, usage: { prompt, output, thinking: 0, total: prompt + output } };
+    })
+  });
+};
@@ -0,0 +1,40 @@
+import { Candle, MarketDataProvider, Timeframe } from '../../types';
+import { TIMEFRAMES } from '../../utils/timeframes';
+import { providerSymbol } from '../../utils/instruments';
+import { httpError } from '../requestScheduler';
+import { field, parseCandles } from './parseCandle';
+
+// BTCUSD -> BTCUSDT (alias from the instrument registry)
+export const toBinanceSymbol = (pair: string) => providerSymbol(pair, 'binance') ?? pair;
+
+export const createBinanceProvider = (apiBase: string): MarketDataProvider => {
+  // endTime (ms, inclusive on the open time) pages back through history
+  const request = async (pair: string, timeframe: Timeframe, limit: number, endTimeMs?: number): Promise<Candle[]> => {
+    const interval = TIMEFRAMES[timeframe].binance;
+    const url = `${apiBase}/api/v3/klines?symbol=${toBinanceSymbol(pair)}&interval=${interval}&limit=${limit}${endTimeMs !== undefined ? `&endTime=${endTimeMs}` : ''}`;
+
+    const response = await fetch(url);
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok) throw httpError(response, json.msg || `Binance HTTP ${response.status}`);
+    if (!Array.isArray(json)) throw new Error('Binance: malformed klines response');
+
+    // Kline: [openTime(ms), open, high, low, close, volume, closeTime, ...]
+    return parseCandles(json, k => ({
+      time: field(k, 0),
+      open: field(k, 1),
+      high: field(k, 2),
+      low: field(k, 3),
+      close: field(k, 4)
+    }));
+  };
+
+  return {
+    id: 'binance',
+    label: 'Binance',
+    supports: (pair) => !!providerSymbol(pair, 'binance'),
+
+    fetchCandles: (pair, timeframe, limit) => request(pair, timeframe, limit),
+
+    fetchHistory: (pair, timeframe, endTime, limit) => request(pair, timeframe, limit, endTime * 1000 - 1)
+  };
+};
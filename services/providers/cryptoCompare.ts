@@ -0,0 +1,59 @@
+import { Candle, MarketDataProvider, Timeframe } from '../../types';
+import { INSTRUMENTS } from '../../utils/instruments';
+import { TIMEFRAMES, resampleCandles } from '../../utils/timeframes';
+import { HttpError, httpError } from '../requestScheduler';
+import { field, parseCandles } from './parseCandle';
+
+export const createCryptoCompareProvider = (apiBase: string): MarketDataProvider => {
+  // toTs (unix seconds, inclusive) pages back through history
+  const request = async (pair: string, timeframe: Timeframe, limit: number, toTs?: number): Promise<Candle[]> => {
+    const instrument = INSTRUMENTS[pair];
+    if (!instrument) throw new Error(`${pair} not available on CryptoCompare`);
+
+    // e.g. M5 = histominute aggregate 5, H4 = histohour aggregate 1 resampled locally
+    const spec = TIMEFRAMES[timeframe].cryptoCompare;
+    const fetchLimit = Math.max(limit, spec.limit);
+    const url = `${apiBase}/data/v2/${spec.endpoint}?fsym=${instrument.base}&tsym=${instrument.quote}&limit=${fetchLimit}&aggregate=${spec.aggregate}${toTs !== undefined ? `&toTs=${toTs}` : ''}`;
+
+    const response = await fetch(url);
+    if (!response.ok) throw httpError(response, `CryptoCompare HTTP ${response.status}`);
+    const json = await response.json();
+
+    if (json.Response !== 'Success' || !json.Data || !json.Data.Data) {
+      // Explicit API error. The rate limit comes back as HTTP 200 with a message: treat it as a 429
+      const message = json.Message || 'API Error';
+      throw /rate limit/i.test(message) ? new HttpError(message, 429) : new Error(message);
+    }
+
+    const candles = parseCandles(json.Data.Data, d => ({
+      time: field(d, 'time'), // Unix timestamp in seconds
+      open: field(d, 'open'),
+      high: field(d, 'high'),
+      low: field(d, 'low'),
+      close: field(d, 'close'),
+    }));
+
+    return resampleCandles(candles, timeframe);
+  };
+
+  return {
+    id: 'cryptocompare',
+    label: 'CryptoCompare',
+    supports: (pair) => !!INSTRUMENTS[pair],
+
+    fetchCandles: async (pair, timeframe, limit) => {
+      const candles = await request(pair, timeframe, limit);
+      if (candles.length === 0) throw new Error('No data returned');
+      return candles.slice(-limit);
+    },
+
+    fetchHistory: async (pair, timeframe, endTime, limit) => {
+      const spec = TIMEFRAMES[timeframe].cryptoCompare;
+      const fetchedSeconds = (spec.endpoint === 'histominute' ? 60 : 3600) * spec.aggregate;
+      // Before the start of its history CryptoCompare returns zero-price bars
+      const candles = (await request(pair, timeframe, limit, endTime - 1)).filter(c => c.time < endTime && c.close > 0);
+      // A locally resampled page may start mid-bucket: drop that partial candle
+      return candles.slice(TIMEFRAMES[timeframe].seconds > fetchedSeconds ? 1 : 0).slice(-limit);
+    }
+  };
+};
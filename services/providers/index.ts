@@ -0,0 +1,49 @@
+import { MarketDataProvider, ProviderId } from '../../types';
+import { createCryptoCompareProvider } from './cryptoCompare';
+import { createOandaProvider } from './oanda';
+import { createBinanceProvider } from './binance';
+import { createMt5BridgeProvider } from './mt5Bridge';
+import { createReplayProvider } from './replay';
+import { createSyntheticProvider } from './synthetic';
+import { loadSettings, OANDA_KEY, DEFAULT_OANDA } from '../../utils/settings';
+
+/**
+ * Market data provider registry.
+ *
+ * Base URLs come from the environment so every provider can be pointed at
+ * provider_stub_server.js (see README) instead of the real API. Account
+ * tokens never go into the bundle: the dashboard takes the OANDA token from
+ * its settings, the Node scripts from OANDA_API_KEY.
+ */
+
+const registry = new Map<ProviderId, MarketDataProvider>();
+
+export const registerProvider = (provider: MarketDataProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const getProvider = (id: ProviderId): MarketDataProvider => {
+  const provider = registry.get(id);
+  if (!provider) throw new Error(`Unknown market data provider: ${id}`);
+  return provider;
+};
+
+export const listProviders = (): MarketDataProvider[] => Array.from(registry.values());
+
+export const replayProvider = createReplayProvider();
+
+export const mt5Provider = createMt5BridgeProvider({
+  baseUrl: process.env.MT5_BRIDGE_URL || 'http://127.0.0.1:5555',
+  symbolSuffix: process.env.MT5_SYMBOL_SUFFIX || '',
+  timeoutMs: 5000
+});
+
+registerProvider(createCryptoCompareProvider(process.env.CRYPTOCOMPARE_API_BASE || 'https://min-api.cryptocompare.com'));
+registerProvider(createOandaProvider({
+  apiBase: process.env.OANDA_API_BASE || 'https://api-fxpractice.oanda.com',
+  apiKey: () => loadSettings(OANDA_KEY, DEFAULT_OANDA).apiKey || (typeof process !== 'undefined' && process.env?.OANDA_API_KEY) || ''
+}));
+registerProvider(createBinanceProvider(process.env.BINANCE_API_BASE || 'https://api.binance.com'));
+registerProvider(mt5Provider);
+registerProvider(replayProvider);
+registerProvider(createSyntheticProvider());
@@ -0,0 +1,106 @@
+import { Candle, MarketDataProvider, Tick } from '../../types';
+import { getInstrument } from '../../utils/instruments';
+import { httpError, scheduleRequest } from '../requestScheduler';
+import { field, parseCandles } from './parseCandle';
+
+/**
+ * MetaTrader 5 bridge client. Protocol: MT5_BRIDGE.md
+ *
+ * Strict provider: if the bridge is down the dashboard shows the error
+ * rather than pretending simulated prices came from the terminal.
+ */
+
+export interface Mt5SymbolSpec {
+  symbol: string;
+  description: string;
+  digits: number;
+  point: number;
+  contract_size: number;
+  volume_min: number;
+  volume_step: number;
+  volume_max: number;
+  currency_base: string;
+  currency_profit: string;
+}
+
+export interface Mt5Health {
+  status: string;
+  terminal: string;
+  server: string;
+  account: number;
+  connected: boolean;
+  server_time: number;
+}
+
+interface Mt5BridgeConfig {
+  baseUrl: string;
+  symbolSuffix: string;
+  timeoutMs: number;
+}
+
+export interface Mt5BridgeProvider extends MarketDataProvider {
+  baseUrl: string;
+  health: () => Promise<Mt5Health>;
+  fetchTick: (pair: string) => Promise<Tick>;
+  fetchSymbolSpec: (pair: string) => Promise<Mt5SymbolSpec>;
+}
+
+export const createMt5BridgeProvider = ({ baseUrl, symbolSuffix, timeoutMs }: Mt5BridgeConfig): Mt5BridgeProvider => {
+  const request = async <T>(path: string): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, { signal: AbortSignal.timeout(timeoutMs) });
+    } catch (e) {
+      throw new Error(`MT5 bridge unreachable at ${baseUrl}`);
+    }
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok) throw httpError(response, `MT5 bridge: ${json.error || `HTTP ${response.status}`}`);
+    return json as T;
+  };
+
+  // Status polls share the 'mt5' budget with candle requests; a stale poll is never worth retrying
+  const poll = <T>(path: string) => scheduleRequest('mt5', () => request<T>(path), { key: path, retries: 0 });
+
+  const symbolFor = (pair: string) => encodeURIComponent(`${pair}${symbolSuffix}`);
+
+  return {
+    id: 'mt5',
+    label: 'MT5 Bridge',
+    strict: true,
+    baseUrl,
+    supports: () => true,
+
+    health: () => poll<Mt5Health>('/health'),
+
+    fetchTick: (pair) => poll<Tick>(`/tick?symbol=${symbolFor(pair)}`),
+
+    fetchSymbolSpec: (pair) => poll<Mt5SymbolSpec>(`/symbols/${symbolFor(pair)}`),
+
+    fetchCandles: async (pair, timeframe, limit) => {
+      const json = await request<{ candles: unknown }>(`/candles?symbol=${symbolFor(pair)}&timeframe=${timeframe}&count=${limit}`);
+      if (!Array.isArray(json.candles)) throw new Error('MT5 bridge: malformed candles response');
+      // MT5 bars are bid prices with the spread in points: shift to mid
+      const point = Math.pow(10, -getInstrument(pair).digits);
+      const bars = parseCandles(json.candles, c => ({
+        time: field(c, 'time'),
+        open: field(c, 'open'),
+        high: field(c, 'high'),
+        low: field(c, 'low'),
+        close: field(c, 'close'),
+        spread: field(c, 'spread') // Points, converted below
+      }));
+      return bars.map(({ spread: points, ...bar }): Candle => {
+        const spread = points !== undefined ? points * point : undefined;
+        const half = (spread ?? 0) / 2;
+        return {
+          time: bar.time,
+          open: bar.open + half,
+          high: bar.high + half,
+          low: bar.low + half,
+          close: bar.close + half,
+          ...(spread !== undefined && { spread })
+        };
+      });
+    }
+  };
+};
@@ -0,0 +1,54 @@
+import { Candle, MarketDataProvider, Timeframe } from '../../types';
+import { TIMEFRAMES } from '../../utils/timeframes';
+import { providerSymbol } from '../../utils/instruments';
+import { httpError } from '../requestScheduler';
+import { field, parseCandles, toFiniteNumber } from './parseCandle';
+
+interface OandaConfig {
+  apiBase: string; // e.g. https://api-fxpractice.oanda.com
+  apiKey: () => string; // Read per request: the dashboard's token can change at runtime
+}
+
+// EURUSD -> EUR_USD, XAUUSD -> XAU_USD
+export const toOandaInstrument = (pair: string) => providerSymbol(pair, 'oanda') ?? `${pair.slice(0, 3)}_${pair.slice(3)}`;
+
+export const createOandaProvider = ({ apiBase, apiKey }: OandaConfig): MarketDataProvider => {
+  const request = async (pair: string, timeframe: Timeframe, limit: number, to?: string): Promise<Candle[]> => {
+    const token = apiKey();
+    if (!token) throw new Error('OANDA token missing');
+
+    const granularity = TIMEFRAMES[timeframe].oanda;
+    // Mid for the OHLC, bid/ask for the spread at the close
+    const url = `${apiBase}/v3/instruments/${toOandaInstrument(pair)}/candles?count=${limit}&granularity=${granularity}&price=MBA${to ? `&to=${encodeURIComponent(to)}` : ''}`;
+
+    const response = await fetch(url, { headers: { 'Authorization': `Bearer ${token}` } });
+    const json = await response.json().catch(() => ({}));
+    if (!response.ok) throw httpError(response, json.errorMessage || `OANDA HTTP ${response.status}`);
+    if (!Array.isArray(json.candles)) throw new Error('OANDA: malformed candles response');
+
+    // The last candle may be incomplete (forming), same as the other feeds
+    return parseCandles(json.candles, c => {
+      const mid = field(c, 'mid');
+      return {
+        time: field(c, 'time'),
+        open: field(mid, 'o'),
+        high: field(mid, 'h'),
+        low: field(mid, 'l'),
+        close: field(mid, 'c'),
+        spread: toFiniteNumber(field(field(c, 'ask'), 'c')) - toFiniteNumber(field(field(c, 'bid'), 'c'))
+      };
+    });
+  };
+
+  return {
+    id: 'oanda',
+    label: 'OANDA v20',
+    supports: (pair) => !!providerSymbol(pair, 'oanda'),
+
+    fetchCandles: (pair, timeframe, limit) => request(pair, timeframe, limit),
+
+    // Candles that open before endTime
+    fetchHistory: async (pair, timeframe, endTime, limit) =>
+      (await request(pair, timeframe, limit, new Date(endTime * 1000).toISOString())).filter(c => c.time < endTime)
+  };
+};
@@ -0,0 +1,50 @@
+import { Candle } from '../../types';
+import { toUnixSeconds } from '../../utils/candleAggregator';
+
+/**
+ * Untyped feed JSON -> Candle. Each provider only says where its fields are
+ * (`field` reads them without trusting the shape); prices may be numbers or
+ * numeric strings, times seconds, milliseconds or ISO strings. A bar with a
+ * non-finite time or OHLC value is dropped instead of reaching the chart as NaN.
+ */
+
+export interface CandleFields {
+  time: unknown;
+  open: unknown;
+  high: unknown;
+  low: unknown;
+  close: unknown;
+  spread?: unknown; // ask - bid at the close; left off when missing or not a number
+}
+
+// Property or array element of an untyped JSON value, or undefined
+export const field = (value: unknown, key: string | number): unknown =>
+  value !== null && typeof value === 'object' ? (value as Record<string | number, unknown>)[key] : undefined;
+
+export const toFiniteNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const toTime = (value: unknown): number =>
+  typeof value === 'number' || (typeof value === 'string' && value.trim() !== '') ? toUnixSeconds(value) : NaN;
+
+export const parseCandle = ({ time, open, high, low, close, spread }: CandleFields): Candle | null => {
+  const candle: Candle = {
+    time: toTime(time),
+    open: toFiniteNumber(open),
+    high: toFiniteNumber(high),
+    low: toFiniteNumber(low),
+    close: toFiniteNumber(close)
+  };
+  if (![candle.time, candle.open, candle.high, candle.low, candle.close].every(Number.isFinite)) return null;
+  const spreadValue = toFiniteNumber(spread);
+  return Number.isFinite(spreadValue) ? { ...candle, spread: spreadValue } : candle;
+};
+
+// Rows of a feed response (anything but an array gives none), invalid bars dropped
+export const parseCandles = (rows: unknown, toFields: (row: unknown) => CandleFields): Candle[] =>
+  (Array.isArray(rows) ? rows : [])
+    .map(row => parseCandle(toFields(row)))
+    .filter((candle): candle is Candle => candle !== null);
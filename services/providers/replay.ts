@@ -0,0 +1,93 @@
+import { Candle, MarketDataProvider } from '../../types';
+import { resampleCandles } from '../../utils/timeframes';
+import { CandleFields, field, parseCandle, parseCandles } from './parseCandle';
+
+/**
+ * Replays candles loaded from a local file (CSV or JSON).
+ *
+ * Every fetch reveals one more bar, so the dashboard's refresh loop plays the
+ * history forward as if it were live. Data is resampled to the requested
+ * timeframe, so a file of M1 bars can drive any higher timeframe.
+ */
+
+interface ReplaySeries {
+  candles: Candle[];
+  cursor: number; // number of source bars revealed so far
+}
+
+// Columns / keys of a file row
+const rowFields = (row: unknown): CandleFields => ({
+  time: field(row, 'time'),
+  open: field(row, 'open'),
+  high: field(row, 'high'),
+  low: field(row, 'low'),
+  close: field(row, 'close'),
+  spread: field(row, 'spread')
+});
+
+/**
+ * Parse a candle file into { pair: Candle[] }.
+ * JSON: Candle[] (uses defaultPair) or { "EURUSD": Candle[] }
+ * CSV:  header with time,open,high,low,close and optional pair / spread (ask - bid) columns
+ */
+export const parseCandleFile = (text: string, defaultPair: string): Record<string, Candle[]> => {
+  const result: Record<string, Candle[]> = {};
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const json: unknown = JSON.parse(trimmed);
+    const groups: Record<string, unknown> = Array.isArray(json) ? { [defaultPair]: json } : json as Record<string, unknown>;
+    for (const pair of Object.keys(groups)) {
+      result[pair] = parseCandles(groups[pair], rowFields);
+    }
+  } else {
+    const [headerLine, ...lines] = trimmed.split(/\r?\n/);
+    const header = headerLine.split(',').map(h => h.trim().toLowerCase());
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const cells = line.split(',');
+      const row: Record<string, string> = {};
+      header.forEach((h, i) => row[h] = cells[i]?.trim());
+      const pair = row.pair || defaultPair;
+      const candle = parseCandle(rowFields(row));
+      if (candle) (result[pair] = result[pair] || []).push(candle);
+    }
+  }
+
+  for (const pair of Object.keys(result)) {
+    result[pair] = result[pair].sort((a, b) => a.time - b.time);
+  }
+  return result;
+};
+
+export interface ReplayProvider extends MarketDataProvider {
+  load: (data: Record<string, Candle[]>) => void;
+  loadedPairs: () => string[];
+}
+
+export const createReplayProvider = (warmupBars: number = 250): ReplayProvider => {
+  const series: Record<string, ReplaySeries> = {};
+
+  return {
+    id: 'replay',
+    label: 'Replay File',
+    supports: (pair) => !!series[pair],
+
+    load: (data) => {
+      for (const pair of Object.keys(data)) {
+        series[pair] = { candles: data[pair], cursor: Math.min(warmupBars, data[pair].length) };
+      }
+    },
+
+    loadedPairs: () => Object.keys(series),
+
+    fetchCandles: async (pair, timeframe, limit) => {
+      const s = series[pair];
+      if (!s) throw new Error(`No replay data loaded for ${pair}`);
+
+      const revealed = s.candles.slice(0, s.cursor);
+      if (s.cursor < s.candles.length) s.cursor++;
+      return resampleCandles(revealed, timeframe).slice(-limit);
+    }
+  };
+};
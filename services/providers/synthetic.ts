@@ -0,0 +1,45 @@
+import { Candle, MarketDataProvider, Timeframe } from '../../types';
+import { INSTRUMENTS } from '../../utils/instruments';
+import { TIMEFRAMES } from '../../utils/timeframes';
+
+// Generate realistic looking random walk candles (also the fallback when a feed fails)
+export const generateSyntheticCandles = (pair: string, timeframe: Timeframe = 'M5', count: number = 250): Candle[] => {
+  const basePrice = INSTRUMENTS[pair]?.referencePrice || 1.0000;
+  const candles: Candle[] = [];
+  let currentPrice = basePrice;
+  const timeStep = TIMEFRAMES[timeframe].seconds;
+  const now = Math.floor(Date.now() / 1000 / timeStep) * timeStep;
+  // Scale the M5 volatility by sqrt(time) so higher timeframes look plausible
+  const volatilityScale = Math.sqrt(timeStep / 300);
+
+  // Generate history
+  for (let i = count; i > 0; i--) {
+    const time = now - (i * timeStep);
+    const volatility = basePrice * 0.0005 * volatilityScale; // 0.05% per M5 candle volatility
+    const change = (Math.random() - 0.5) * volatility * 2;
+    
+    const open = currentPrice;
+    const close = open + change;
+    const high = Math.max(open, close) + Math.random() * volatility;
+    const low = Math.min(open, close) - Math.random() * volatility;
+
+    candles.push({
+      time,
+      open,
+      high,
+      low,
+      close,
+    });
+    
+    currentPrice = close;
+  }
+
+  return candles;
+};
+
+export const createSyntheticProvider = (): MarketDataProvider => ({
+  id: 'synthetic',
+  label: 'Simulation',
+  supports: () => true,
+  fetchCandles: async (pair, timeframe, limit) => generateSyntheticCandles(pair, timeframe, limit)
+});
@@ -0,0 +1,306 @@
+/**
+ * REQUEST SCHEDULER
+ *
+ * Every outbound call (market data providers, analysis backends) runs through here:
+ *   - one token bucket per budget (provider id, 'gemini' or 'llm'),
+ *   - a priority queue, so the selected pair and open positions jump ahead
+ *     of background loads and backfills,
+ *   - de-duplication: a request with the same key as one queued or in flight
+ *     shares its result,
+ *   - retries with exponential backoff for 429/5xx/network errors, honouring
+ *     Retry-After; a 429 pauses the whole budget until it expires.
+ * getSchedulerStatus/subscribeScheduler feed the quota indicator in the header.
+ */
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface BudgetConfig {
+  label: string;
+  capacity: number; // Burst size
+  refillPerSecond: number;
+  maxConcurrent: number;
+}
+
+export interface ScheduleOptions {
+  key?: string; // De-duplication key
+  priority?: RequestPriority;
+  retries?: number; // Attempts after the first (default 2)
+  signal?: AbortSignal; // Drops the request while it is still queued (once every sharing caller has aborted)
+}
+
+export interface BudgetStatus {
+  id: string;
+  label: string;
+  tokens: number;
+  capacity: number;
+  queued: number;
+  inFlight: number;
+  cooldownUntil: number; // ms; > now while rate limited
+  requests: number;
+  rateLimited: number; // 429s received
+  failures: number; // Requests that failed after their retries
+  lastError: string | null;
+}
+
+// Non-2xx response; status and Retry-After drive the retry policy
+export class HttpError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined;
+};
+
+export const httpError = (response: Response, message: string) =>
+  new HttpError(message, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+
+// HttpError, Gemini ApiError and anything else carrying a numeric status
+const statusOf = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const isRateLimitError = (error: unknown) => statusOf(error) === 429;
+
+const isRetryable = (error: unknown) => {
+  const status = statusOf(error);
+  if (status === undefined) return error instanceof TypeError; // fetch network failure
+  return status === 429 || status === 408 || status >= 500;
+};
+
+const BUDGETS: Record<string, BudgetConfig> = {
+  cryptocompare: { label: 'CryptoCompare', capacity: 4, refillPerSecond: 1.25, maxConcurrent: 2 },
+  oanda: { label: 'OANDA', capacity: 20, refillPerSecond: 20, maxConcurrent: 4 },
+  binance: { label: 'Binance', capacity: 20, refillPerSecond: 10, maxConcurrent: 4 },
+  mt5: { label: 'MT5', capacity: 10, refillPerSecond: 10, maxConcurrent: 2 },
+  gemini: { label: 'Gemini', capacity: 2, refillPerSecond: 10 / 60, maxConcurrent: 1 }, // free tier: 10 RPM
+  llm: { label: 'LLM', capacity: 4, refillPerSecond: 2, maxConcurrent: 1 }, // OpenAI-compatible endpoint; local servers run one request at a time
+};
+// Budgets without their own limits
+const DEFAULT_BUDGET: Omit<BudgetConfig, 'label'> = { capacity: 50, refillPerSecond: 50, maxConcurrent: 8 };
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+
+interface Job {
+  seq: number;
+  key?: string;
+  priority: RequestPriority;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  attempt: number;
+  retries: number;
+  notBefore: number;
+  signals: AbortSignal[] | null; // One per sharing caller; null once a caller shared it without one
+}
+
+interface Budget {
+  config: BudgetConfig;
+  tokens: number;
+  refilledAt: number;
+  queue: Job[];
+  inFlight: number;
+  cooldownUntil: number;
+  pending: Map<string, { job: Job; promise: Promise<unknown> }>;
+  timer: ReturnType<typeof setTimeout> | null;
+  stats: { requests: number; rateLimited: number; failures: number; lastError: string | null };
+}
+
+const budgets = new Map<string, Budget>();
+const listeners = new Set<() => void>();
+let nextSeq = 0;
+
+const notify = () => listeners.forEach(listener => listener());
+
+const budgetFor = (id: string): Budget => {
+  let budget = budgets.get(id);
+  if (!budget) {
+    const config = BUDGETS[id] ?? { label: id, ...DEFAULT_BUDGET };
+    budget = {
+      config,
+      tokens: config.capacity,
+      refilledAt: Date.now(),
+      queue: [],
+      inFlight: 0,
+      cooldownUntil: 0,
+      pending: new Map(),
+      timer: null,
+      stats: { requests: 0, rateLimited: 0, failures: 0, lastError: null }
+    };
+    budgets.set(id, budget);
+  }
+  return budget;
+};
+
+const refill = (budget: Budget, now: number) => {
+  const { capacity, refillPerSecond } = budget.config;
+  budget.tokens = Math.min(capacity, budget.tokens + ((now - budget.refilledAt) / 1000) * refillPerSecond);
+  budget.refilledAt = now;
+};
+
+const abortError = () => new DOMException('Request cancelled', 'AbortError');
+
+// Shared requests are dropped only when every caller has cancelled
+const isCancelled = (job: Job) => job.signals !== null && job.signals.every(signal => signal.aborted);
+
+const wakeAt = (budget: Budget, at: number) => {
+  if (budget.timer) clearTimeout(budget.timer);
+  budget.timer = setTimeout(() => {
+    budget.timer = null;
+    pump(budget);
+  }, Math.max(0, at - Date.now()));
+};
+
+const settle = (budget: Budget, job: Job) => {
+  if (job.key && budget.pending.get(job.key)?.job === job) budget.pending.delete(job.key);
+};
+
+// Start every job the budget allows right now, then sleep until the next one can start
+function pump(budget: Budget) {
+  const now = Date.now();
+  refill(budget, now);
+
+  // Cancelled while queued
+  budget.queue = budget.queue.filter(job => {
+    if (!isCancelled(job)) return true;
+    settle(budget, job);
+    job.reject(abortError());
+    return false;
+  });
+  budget.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.seq - b.seq);
+
+  let wake = Infinity;
+  while (budget.inFlight < budget.config.maxConcurrent) {
+    if (now < budget.cooldownUntil) {
+      if (budget.queue.length > 0) wake = Math.min(wake, budget.cooldownUntil);
+      break;
+    }
+    const index = budget.queue.findIndex(job => job.notBefore <= now);
+    if (index === -1) {
+      budget.queue.forEach(job => { wake = Math.min(wake, job.notBefore); });
+      break;
+    }
+    if (budget.tokens < 1) {
+      wake = Math.min(wake, now + ((1 - budget.tokens) / budget.config.refillPerSecond) * 1000);
+      break;
+    }
+
+    const [job] = budget.queue.splice(index, 1);
+    budget.tokens -= 1;
+    budget.inFlight++;
+    budget.stats.requests++;
+    execute(budget, job);
+  }
+
+  if (wake !== Infinity) wakeAt(budget, wake);
+  notify();
+}
+
+async function execute(budget: Budget, job: Job) {
+  try {
+    const value = await job.run();
+    settle(budget, job);
+    job.resolve(value);
+  } catch (error) {
+    budget.stats.lastError = error instanceof Error ? error.message : String(error);
+    const retryAfter = error instanceof HttpError ? error.retryAfterMs : undefined;
+    const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** job.attempt * (1 + Math.random() * 0.25));
+    const retryAt = Date.now() + (retryAfter ?? backoff);
+
+    // The provider said stop: hold every request on this budget, not just this one
+    if (isRateLimitError(error)) {
+      budget.stats.rateLimited++;
+      budget.cooldownUntil = Math.max(budget.cooldownUntil, retryAt);
+    }
+
+    if (isRetryable(error) && job.attempt < job.retries && !isCancelled(job)) {
+      job.attempt++;
+      job.notBefore = retryAt;
+      budget.queue.push(job);
+    } else {
+      budget.stats.failures++;
+      settle(budget, job);
+      job.reject(error);
+    }
+  } finally {
+    budget.inFlight--;
+    pump(budget);
+  }
+}
+
+/**
+ * Run `task` under `budgetId`'s rate limit. Requests sharing a key while one
+ * is queued or in flight get the same promise (and can raise its priority).
+ */
+export const scheduleRequest = <T>(budgetId: string, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+  const { key, priority = 'normal', retries = 2, signal } = options;
+  const budget = budgetFor(budgetId);
+
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  const existing = key ? budget.pending.get(key) : undefined;
+  if (existing) {
+    if (PRIORITY_RANK[priority] < PRIORITY_RANK[existing.job.priority]) existing.job.priority = priority;
+    // A request without a signal must not be dropped because another caller cancelled
+    if (!signal) existing.job.signals = null;
+    else if (existing.job.signals) {
+      existing.job.signals.push(signal);
+      signal.addEventListener('abort', () => pump(budget), { once: true });
+    }
+    pump(budget);
+    return existing.promise as Promise<T>;
+  }
+
+  let job!: Job;
+  const promise = new Promise<T>((resolve, reject) => {
+    job = {
+      seq: nextSeq++,
+      key,
+      priority,
+      run: task,
+      resolve: resolve as (value: unknown) => void,
+      reject,
+      attempt: 0,
+      retries,
+      notBefore: 0,
+      signals: signal ? [signal] : null
+    };
+  });
+  if (key) budget.pending.set(key, { job, promise });
+  budget.queue.push(job);
+  signal?.addEventListener('abort', () => pump(budget), { once: true });
+  pump(budget);
+  return promise;
+};
+
+export const getSchedulerStatus = (): BudgetStatus[] => {
+  const now = Date.now();
+  return Array.from(budgets.entries()).map(([id, budget]) => {
+    refill(budget, now);
+    return {
+      id,
+      label: budget.config.label,
+      tokens: Math.floor(budget.tokens),
+      capacity: budget.config.capacity,
+      queued: budget.queue.length,
+      inFlight: budget.inFlight,
+      cooldownUntil: budget.cooldownUntil,
+      ...budget.stats
+    };
+  });
+};
+
+export const subscribeScheduler = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
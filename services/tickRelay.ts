@@ -0,0 +1,65 @@
+import { RelayEvent } from '../types';
+
+/**
+ * LIVE TICK RELAY CLIENT
+ *
+ * Streamers POST events to tick_relay.js (/publish); the dashboard listens on
+ * its Server-Sent Events stream (/events). See README "Live Tick Relay".
+ */
+
+export interface RelayPublisher {
+  publish: (events: RelayEvent | RelayEvent[]) => void;
+}
+
+// Fire-and-forget publisher for the Node streamers. A missing relay never
+// stops a streamer: the first failure is logged, then failures are silent
+// until a publish succeeds again.
+export const createRelayPublisher = (relayUrl: string): RelayPublisher => {
+  let failing = false;
+
+  return {
+    publish: (events) => {
+      fetch(`${relayUrl}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(events)
+      })
+        .then(response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          if (failing) console.log(`Tick relay reachable again at ${relayUrl}`);
+          failing = false;
+        })
+        .catch(e => {
+          if (!failing) console.error(`Tick Relay Error (${relayUrl}):`, e.message);
+          failing = true;
+        });
+    }
+  };
+};
+
+// Browser subscription. EventSource reconnects on its own; onStatus reports
+// whether the stream is currently open. Returns the unsubscribe function.
+export const subscribeToRelay = (
+  relayUrl: string,
+  onEvent: (event: RelayEvent) => void,
+  onStatus: (connected: boolean) => void = () => {}
+): (() => void) => {
+  const source = new EventSource(`${relayUrl}/events`);
+  const handle = (message: MessageEvent) => {
+    try {
+      onEvent(JSON.parse(message.data) as RelayEvent);
+    } catch (e) {
+      console.error("Tick Relay Error:", e);
+    }
+  };
+
+  source.addEventListener('tick', handle);
+  source.addEventListener('candle', handle);
+  source.onopen = () => onStatus(true);
+  source.onerror = () => onStatus(false);
+
+  return () => {
+    source.close();
+    onStatus(false);
+  };
+};
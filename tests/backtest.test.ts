@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BacktestConfig, Candle } from '../types';
+import { DEFAULT_BACKTEST_CONFIG, simulateTrade, summarizeLedger } from '../utils/backtest';
+
+const T = 1704672000;
+// EURUSD mid prices with a 2-pip spread from the feed
+const bar = (i: number, low: number, high: number, close = 1.1): Candle => ({ time: T + i * 300, open: 1.1, high, low, close, spread: 0.0002 });
+
+// 1 lot (100,000 EUR), 0.5 pip slippage, $7 per lot
+const config: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, pair: 'EURUSD', timeframe: 'M5', lotSize: 1, slippagePips: 0.5, commissionPerLot: 7 };
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} != ${expected}`);
+
+test('a winning BUY nets the target move minus half spread, slippage and commission', () => {
+  const trade = simulateTrade([bar(0, 1.0995, 1.1005), bar(1, 1.0998, 1.1025)], 0, 'BUY', 1.099, 1.102, config);
+  assert.equal(trade.exitReason, 'TP1');
+  close(trade.entryPrice, 1.10015); // Ask 1.1001 + 0.5 pip
+  close(trade.exitPrice, 1.102); // Limit: no slippage
+  close(trade.pnl, 185 - 7);
+  close(trade.costs, 10 + 5 + 10 + 7); // Half spread in, slippage in, half spread out, commission
+  close(trade.rMultiple, 178 / 100);
+});
+
+test('a losing BUY pays slippage on the stop as well', () => {
+  const trade = simulateTrade([bar(0, 1.0995, 1.1005), bar(1, 1.099, 1.1004)], 0, 'BUY', 1.099, 1.102, config);
+  assert.equal(trade.exitReason, 'SL');
+  close(trade.exitPrice, 1.09895);
+  close(trade.pnl, -120 - 7);
+  close(trade.costs, 10 + 5 + 10 + 5 + 7);
+});
+
+test('the time stop closes at market on the closing side', () => {
+  const trade = simulateTrade([bar(0, 1.0995, 1.1005), bar(1, 1.0995, 1.1005, 1.1003)], 0, 'BUY', 1.099, 1.102, { ...config, timeStopBars: 1 });
+  assert.equal(trade.exitReason, 'TIME');
+  close(trade.exitPrice, 1.1003 - 0.0001 - 0.00005);
+});
+
+test('the ledger summary tracks equity, drawdown and the losing streak', () => {
+  const win = simulateTrade([bar(0, 1.0995, 1.1005), bar(1, 1.0998, 1.1025)], 0, 'BUY', 1.099, 1.102, config);
+  const loss = simulateTrade([bar(2, 1.0995, 1.1005), bar(3, 1.099, 1.1004)], 0, 'BUY', 1.099, 1.102, config);
+  const result = summarizeLedger([win, loss, loss], 10000, T);
+
+  assert.equal(result.trades, 3);
+  assert.equal(result.wins, 1);
+  close(result.totalPnL, 178 - 254);
+  close(result.maxDrawdown, 254);
+  close(result.maxDrawdownPercent, (254 / 10178) * 100);
+  close(result.profitFactor, 178 / 254);
+  assert.equal(result.longestLosingStreak, 2);
+  assert.deepEqual(result.equityCurve.map(p => p.time), [T, T + 300, T + 900, T + 900]);
+});
@@ -0,0 +1,160 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AggregatedCandle } from '../types';
+import { AggregatorOptions, createCandleAggregator } from '../utils/candleAggregator';
+
+// Monday 2024-01-08 00:00 UTC, M5 buckets
+const T = 1704672000;
+const M5 = 300;
+
+const setup = (options: Partial<AggregatorOptions> = {}) => {
+  const events: AggregatedCandle[] = [];
+  let now = 0;
+  const aggregator = createCandleAggregator({
+    timeframe: 'M5',
+    onCandle: event => events.push(event),
+    clock: () => now,
+    ...options
+  });
+  return { aggregator, events, setNow: (ms: number) => { now = ms; } };
+};
+
+test('out-of-order ticks: open is the earliest tick, close the latest', () => {
+  const { aggregator, events } = setup();
+  aggregator.addTick('EURUSD', T + 60, 1.102);
+  aggregator.addTick('EURUSD', T + 10, 1.101); // Older: becomes the open
+  aggregator.addTick('EURUSD', T + 120, 1.103);
+  aggregator.addTick('EURUSD', T + 90, 1.099); // Older than the latest: high/low only
+  aggregator.addTick('EURUSD', T + M5, 1.104); // Next bucket closes this one
+
+  assert.equal(events.length, 1);
+  assert.deepEqual(events[0].candle, { time: T, open: 1.101, high: 1.103, low: 1.099, close: 1.103, spread: undefined });
+  assert.equal(events[0].stale, false);
+  assert.equal(aggregator.stats().outOfOrder, 2);
+});
+
+test('ticks for a closed bucket are dropped as late', () => {
+  const { aggregator, events } = setup();
+  aggregator.addTick('EURUSD', T + 10, 1.1);
+  aggregator.addTick('EURUSD', T + M5 + 10, 1.2);
+  aggregator.addTick('EURUSD', T + 200, 1.5);
+
+  assert.equal(events.length, 1);
+  assert.equal(events[0].candle.high, 1.1);
+  assert.equal(aggregator.stats().late, 1);
+  assert.equal(aggregator.forming('EURUSD')?.high, 1.2);
+});
+
+test('graceMs keeps a bucket open for ticks that arrive just after its end', () => {
+  const { aggregator, events } = setup({ graceMs: 2000 });
+  aggregator.addTick('EURUSD', T + 10, 1.1);
+  aggregator.addTick('EURUSD', (T + M5) * 1000 + 500, 1.2); // ms input
+  aggregator.addTick('EURUSD', T + 250, 1.3);
+  assert.equal(events.length, 0);
+
+  aggregator.addTick('EURUSD', (T + M5) * 1000 + 2000, 1.2);
+  assert.equal(events.length, 1);
+  assert.equal(events[0].candle.close, 1.3);
+  assert.equal(aggregator.stats().late, 0);
+});
+
+test('a gap over the FX weekend is flagged marketClosed', () => {
+  const { aggregator, events } = setup();
+  const friday = Date.UTC(2024, 0, 5, 20, 55) / 1000;
+  const sunday = Date.UTC(2024, 0, 7, 21, 0) / 1000;
+  aggregator.addTick('EURUSD', friday + 10, 1.1);
+  aggregator.addTick('EURUSD', sunday + 10, 1.11);
+  aggregator.addTick('EURUSD', sunday + M5 + 10, 1.12);
+
+  assert.equal(events.length, 2);
+  assert.equal(events[0].gap, null);
+  assert.deepEqual(events[1].gap, { from: friday + M5, to: sunday - M5, buckets: (sunday - friday) / M5 - 1, marketClosed: true });
+  assert.equal(aggregator.stats().gaps, 1);
+});
+
+test('a weekday gap is not marketClosed; fillGaps emits flat placeholders first', () => {
+  const { aggregator, events } = setup({ fillGaps: true });
+  aggregator.addTick('EURUSD', T + 10, 1.1, 0.0001);
+  aggregator.addTick('EURUSD', T + 3 * M5 + 10, 1.2);
+  aggregator.addTick('EURUSD', T + 4 * M5 + 10, 1.3);
+
+  assert.deepEqual(events.map(e => [e.candle.time, e.filled]), [[T, false], [T + M5, true], [T + 2 * M5, true], [T + 3 * M5, false]]);
+  assert.deepEqual(events[1].candle, { time: T + M5, open: 1.1, high: 1.1, low: 1.1, close: 1.1, spread: 0.0001 });
+  assert.deepEqual(events[3].gap, { from: T + M5, to: T + 2 * M5, buckets: 2, marketClosed: false });
+});
+
+test('flush() closes a bucket as stale once ticks stop past its end + staleAfterMs', () => {
+  const { aggregator, events, setNow } = setup();
+  setNow((T + 10) * 1000);
+  aggregator.addTick('EURUSD', T + 10, 1.1);
+
+  aggregator.flush((T + M5) * 1000 + 4999);
+  assert.equal(events.length, 0);
+  aggregator.flush((T + M5) * 1000 + 5000);
+  assert.equal(events.length, 1);
+  assert.equal(events[0].stale, true);
+});
+
+test('flush() runs on the feed clock: a replayed feed is not closed by the wall clock', () => {
+  const { aggregator, events, setNow } = setup();
+  const wall = Date.UTC(2026, 0, 1);
+  setNow(wall);
+  aggregator.addTick('EURUSD', T + 10, 1.1); // Two years old
+
+  aggregator.flush(wall + 1000);
+  assert.equal(events.length, 0);
+  // Silence for the rest of the bucket plus staleAfterMs, in feed time
+  aggregator.flush(wall + (M5 - 10) * 1000 + 5000);
+  assert.equal(events.length, 1);
+  assert.equal(events[0].stale, true);
+});
+
+test('a kline bar is closed by its final snapshot, not force-closed by the clock', () => {
+  const { aggregator, events, setNow } = setup();
+  const bar = (close: number) => ({ time: T * 1000, open: 1.1, high: Math.max(1.1, close), low: 1.09, close });
+  setNow((T + M5 - 2) * 1000);
+  aggregator.addBar('BTCUSDT', bar(1.105));
+
+  // 5s past the end with the final kline still on its way
+  aggregator.flush((T + M5) * 1000 + 6000);
+  assert.equal(events.length, 0);
+
+  aggregator.addBar('BTCUSDT', bar(1.107), true);
+  assert.equal(events.length, 1);
+  assert.equal(events[0].candle.close, 1.107);
+  assert.equal(events[0].stale, false);
+  assert.equal(aggregator.stats().late, 0);
+});
+
+test('a complete bar replaces a bucket the clock already closed', () => {
+  const { aggregator, events, setNow } = setup();
+  setNow((T + 10) * 1000);
+  aggregator.addBar('BTCUSDT', { time: T, open: 1.1, high: 1.2, low: 1.0, close: 1.15 });
+  // The whole bar plus staleAfterMs without input
+  aggregator.flush((T + 10 + M5) * 1000 + 5000);
+  assert.equal(events.length, 1);
+  assert.equal(events[0].stale, true);
+
+  aggregator.addBar('BTCUSDT', { time: T, open: 1.1, high: 1.25, low: 1.0, close: 1.2 }, true);
+  assert.equal(events.length, 2);
+  assert.deepEqual(events[1].candle, { time: T, open: 1.1, high: 1.25, low: 1.0, close: 1.2 });
+  assert.equal(events[1].revised, true);
+  assert.equal(events[1].stale, false);
+
+  // Only once: a second copy is late
+  aggregator.addBar('BTCUSDT', { time: T, open: 1.1, high: 1.25, low: 1.0, close: 1.2 }, true);
+  assert.equal(events.length, 2);
+  assert.equal(aggregator.stats().late, 1);
+});
+
+test('seed() gap-checks the first live candle against history and drops older ticks', () => {
+  const { aggregator, events } = setup();
+  aggregator.seed('EURUSD', { time: T - 3 * M5, open: 1, high: 1, low: 1, close: 1 });
+  aggregator.addTick('EURUSD', T - 3 * M5 + 10, 1.5);
+  assert.equal(aggregator.stats().late, 1);
+
+  aggregator.addTick('EURUSD', T + 10, 1.1);
+  aggregator.addTick('EURUSD', T + M5 + 10, 1.2);
+  assert.equal(events.length, 1);
+  assert.deepEqual(events[0].gap, { from: T - 2 * M5, to: T - M5, buckets: 2, marketClosed: false });
+});
@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StoredCandleSeries } from '../types';
+import { isFresh } from '../utils/candleStore';
+
+// Monday 2024-01-08 00:00 UTC, in ms
+const T = 1704672000 * 1000;
+const series = (fetchedAt: number): StoredCandleSeries => ({ key: 'binance:BTCUSD:M5', candles: [], fetchedAt, exhausted: false });
+
+test('a series is fresh only within the bucket it was fetched in', () => {
+  assert.equal(isFresh(series(T + 10000), 'M5', T + 290000), true);
+  // Fetched 1s before the boundary: the bar that just closed is not in it
+  assert.equal(isFresh(series(T + 299000), 'M5', T + 301000), false);
+  assert.equal(isFresh(series(0), 'M5', T), false);
+});
@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseJournalFile } from '../utils/journal';
+
+const row = { id: 't1', pair: 'EURUSD', type: 'BUY', entryPrice: 1.1, closePrice: 1.101, lotSize: 0.1, pnl: 10 };
+
+test('epoch seconds, epoch ms and date strings all import as ms', () => {
+  const ms = Date.UTC(2024, 0, 8, 12);
+  const { trades } = parseJournalFile(JSON.stringify([
+    { ...row, id: 's', closeTime: ms / 1000, openTime: String(ms / 1000 - 60) },
+    { ...row, id: 'ms', closeTime: ms },
+    { ...row, id: 'iso', closeTime: new Date(ms).toISOString() },
+  ]));
+  assert.deepEqual(trades.map(t => t.closeTime), [ms, ms, ms]);
+  assert.equal(trades[0].openTime, ms - 60000);
+});
+
+test('CSV rows with epoch seconds import as ms', () => {
+  const { trades, rejected } = parseJournalFile('id,pair,type,entryPrice,closePrice,lotSize,pnl,closeTime\nt1,EURUSD,SELL,1.1,1.09,0.1,100,1704715200');
+  assert.equal(rejected, 0);
+  assert.equal(trades[0].closeTime, 1704715200000);
+});
+
+test('null and non-object JSON rows are counted as rejected', () => {
+  const { trades, rejected } = parseJournalFile(JSON.stringify([null, 42, 'trade', [row], { ...row, closeTime: 1704715200 }]));
+  assert.equal(trades.length, 1);
+  assert.equal(rejected, 4);
+});
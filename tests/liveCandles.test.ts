@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '../types';
+import { withIndicators } from '../utils/indicators';
+import { applyRelayEvent } from '../utils/liveCandles';
+
+const T = 1704672000;
+const series = withIndicators(Array.from({ length: 300 }, (_, i): Candle => {
+  const close = 1.1 + Math.sin(i / 7) * 0.01;
+  return { time: T + i * 300, open: close, high: close + 0.001, low: close - 0.001, close };
+}));
+const tick = (time: number, price: number) => ({ type: 'tick' as const, pair: 'EURUSD', time, bid: price, ask: price });
+
+test('a tick updates the forming candle and its SMAs like a full recompute', () => {
+  const next = applyRelayEvent(series, tick(T + 299 * 300 + 10, 1.2), 'M5');
+  const expected = withIndicators([...series.slice(0, -1), { ...series[299], high: 1.2, close: 1.2, spread: 0 }]);
+  assert.equal(next.length, series.length);
+  assert.ok(Math.abs(next[299].sma20! - expected[299].sma20!) < 1e-12);
+  assert.ok(Math.abs(next[299].sma200! - expected[299].sma200!) < 1e-12);
+  // Earlier candles are the same objects
+  assert.equal(next[298], series[298]);
+});
+
+test('a tick in the next bucket appends a candle and drops the oldest', () => {
+  const next = applyRelayEvent(series, tick(T + 300 * 300, 1.1), 'M5');
+  const expected = withIndicators([...series, { time: T + 300 * 300, open: 1.1, high: 1.1, low: 1.1, close: 1.1, spread: 0 }]);
+  assert.equal(next.length, series.length);
+  assert.equal(next[0], series[1]);
+  assert.equal(next[299].time, T + 300 * 300);
+  assert.ok(Math.abs(next[299].sma200! - expected[300].sma200!) < 1e-12);
+});
+
+test('a tick that changes nothing returns the same series', () => {
+  const last = series[299];
+  const same = applyRelayEvent(series, { ...tick(last.time + 10, last.close) }, 'M5');
+  assert.equal(applyRelayEvent(same, { ...tick(last.time + 20, same[299].close) }, 'M5'), same);
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { field, parseCandle, parseCandles } from '../services/providers/parseCandle';
+import { parseCandleFile } from '../services/providers/replay';
+
+const T = 1704672000;
+
+test('numeric strings and ms/ISO times parse; a missing spread is left off', () => {
+  assert.deepEqual(parseCandle({ time: T * 1000, open: '1.1', high: '1.2', low: '1.0', close: '1.15' }), { time: T, open: 1.1, high: 1.2, low: 1.0, close: 1.15 });
+  assert.deepEqual(parseCandle({ time: new Date(T * 1000).toISOString(), open: 1, high: 1, low: 1, close: 1, spread: '0.0002' }), { time: T, open: 1, high: 1, low: 1, close: 1, spread: 0.0002 });
+});
+
+test('a non-finite time or OHLC value rejects the bar', () => {
+  const ok = { time: T, open: 1, high: 1, low: 1, close: 1 };
+  for (const bad of [{ close: 'n/a' }, { high: null }, { low: undefined }, { open: '' }, { open: Infinity }, { time: 'yesterday' }, { time: {} }]) {
+    assert.equal(parseCandle({ ...ok, ...bad }), null, JSON.stringify(bad));
+  }
+  assert.deepEqual(parseCandle({ ...ok, spread: 'n/a' }), ok);
+});
+
+test('parseCandles drops bad rows and reads nothing from a non-array', () => {
+  const rows = [[T * 1000, '1.1', '1.2', '1.0', '1.15'], null, [T * 1000 + 300000, 'x', '1', '1', '1']];
+  const toFields = (k: unknown) => ({ time: field(k, 0), open: field(k, 1), high: field(k, 2), low: field(k, 3), close: field(k, 4) });
+  assert.deepEqual(parseCandles(rows, toFields).map(c => c.time), [T]);
+  assert.deepEqual(parseCandles({ candles: rows }, toFields), []);
+});
+
+test('replay files keep only valid bars', () => {
+  const csv = `time,open,high,low,close,spread\n${T},1.1,1.2,1.0,1.15,\n${T + 300},1.1,bad,1.0,1.15,0.0002\n`;
+  assert.deepEqual(parseCandleFile(csv, 'EURUSD'), { EURUSD: [{ time: T, open: 1.1, high: 1.2, low: 1.0, close: 1.15 }] });
+  assert.deepEqual(parseCandleFile(JSON.stringify({ XAUUSD: [{ time: T, open: 2000, high: 2001, low: 1999, close: 2000.5 }, { time: T + 300 }] }), 'EURUSD').XAUUSD.length, 1);
+});
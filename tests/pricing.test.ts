@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BacktestConfig, Candle } from '../types';
+import { DEFAULT_BACKTEST_CONFIG, simulateTrade } from '../utils/backtest';
+import { candleSpread, closePrice, latestQuote, modelSpread, openPrice, quoteAt } from '../utils/pricing';
+
+const T = 1704672000;
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+
+test('a fill pays half the spread: BUY at the ask, SELL at the bid', () => {
+  const quote = quoteAt(1.1, 0.0002);
+  close(openPrice('BUY', quote), 1.1001);
+  close(openPrice('SELL', quote), 1.0999);
+  close(closePrice('BUY', quote), 1.0999);
+  close(closePrice('SELL', quote), 1.1001);
+});
+
+test('the feed spread wins over the spread model, which takes per-pair overrides', () => {
+  const candle: Candle = { time: T, open: 1.1, high: 1.1, low: 1.1, close: 1.1 };
+  close(candleSpread('EURUSD', { ...candle, spread: 0.0003 }), 0.0003);
+  close(candleSpread('EURUSD', candle), 0.8 * 0.0001);
+  close(candleSpread('EURUSD', candle, { EURUSD: 0.2 }), 0.2 * 0.0001);
+  close(modelSpread('USDJPY'), 1.0 * 0.01);
+  assert.equal(latestQuote('EURUSD', []), null);
+});
+
+// Mid 1.1000 entry, 2-pip spread, no slippage or commission
+const config: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, pair: 'EURUSD', timeframe: 'M5', lotSize: 1, slippagePips: 0, commissionPerLot: 0 };
+const bar = (i: number, low: number, high: number): Candle => ({ time: T + i * 300, open: 1.1, high, low, close: 1.1, spread: 0.0002 });
+
+test('a BUY stop triggers on the bid even when the mid low stays above it', () => {
+  // Mid low 1.09905 is above the stop; the bid low is 1.09895
+  const trade = simulateTrade([bar(0, 1.0995, 1.1005), bar(1, 1.09905, 1.1005)], 0, 'BUY', 1.099, 1.102, config);
+  assert.equal(trade.exitReason, 'SL');
+  close(trade.entryPrice, 1.1001);
+  close(trade.pnl, (1.099 - 1.1001) * 100000);
+});
+
+test('a BUY target needs the bid to reach it, not just the mid', () => {
+  // Mid high 1.10205 is past the target; the bid high 1.10195 is not
+  const trade = simulateTrade([bar(0, 1.0995, 1.1005), bar(1, 1.0995, 1.10205)], 0, 'BUY', 1.099, 1.102, config);
+  assert.equal(trade.exitReason, 'END');
+});
+
+test('a SELL stop triggers on the ask', () => {
+  // Mid high 1.10095 is below the stop; the ask high is 1.10105
+  const trade = simulateTrade([bar(0, 1.0995, 1.1005), bar(1, 1.0995, 1.10095)], 0, 'SELL', 1.101, 1.098, config);
+  assert.equal(trade.exitReason, 'SL');
+  close(trade.entryPrice, 1.0999);
+});
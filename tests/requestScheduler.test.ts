@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { scheduleRequest } from '../services/requestScheduler';
+
+// The 'llm' budget runs one request at a time: hold it so later ones stay queued
+const blockBudget = () => {
+  let release!: () => void;
+  const running = scheduleRequest('llm', () => new Promise<void>(resolve => { release = resolve; }));
+  return { running, release: () => release() };
+};
+
+test('a shared request survives one caller aborting', async () => {
+  const block = blockBudget();
+  const first = new AbortController();
+  const second = new AbortController();
+  const a = scheduleRequest('llm', async () => 'done', { key: 'shared-1', signal: first.signal });
+  const b = scheduleRequest('llm', async () => 'other', { key: 'shared-1', signal: second.signal });
+
+  first.abort();
+  block.release();
+  await block.running;
+  assert.equal(await a, 'done');
+  assert.equal(await b, 'done');
+});
+
+test('a shared request is dropped once every caller has aborted', async () => {
+  const block = blockBudget();
+  const first = new AbortController();
+  const second = new AbortController();
+  let ran = false;
+  const a = scheduleRequest('llm', async () => { ran = true; }, { key: 'shared-2', signal: first.signal });
+  const b = scheduleRequest('llm', async () => { ran = true; }, { key: 'shared-2', signal: second.signal });
+
+  first.abort();
+  second.abort();
+  await assert.rejects(a, { name: 'AbortError' });
+  await assert.rejects(b, { name: 'AbortError' });
+  block.release();
+  await block.running;
+  assert.equal(ran, false);
+});
+
+test('a caller without a signal keeps the shared request alive', async () => {
+  const block = blockBudget();
+  const first = new AbortController();
+  const a = scheduleRequest('llm', async () => 'done', { key: 'shared-3', signal: first.signal });
+  const b = scheduleRequest('llm', async () => 'other', { key: 'shared-3' });
+
+  first.abort();
+  block.release();
+  await block.running;
+  assert.equal(await a, 'done');
+  assert.equal(await b, 'done');
+});
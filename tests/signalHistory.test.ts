@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle, SignalData } from '../types';
+import { createSignalRecord, evaluateSignal, summarizeSignals } from '../utils/signalHistory';
+
+const T = 1704672000;
+const bar = (i: number, low: number, high: number): Candle => ({ time: T + i * 300, open: 1.1, high, low, close: 1.1, spread: 0 });
+
+const signal: SignalData = {
+  best_pair: 'EURUSD',
+  timeframe: 'M5',
+  trend: 'UPTREND',
+  signal: 'BUY',
+  entry_price: 1.1,
+  stop_loss: 1.09,
+  tp1: 1.11,
+  tp2: 1.12,
+  tp3: 1.13,
+  reason: '',
+  strength_score: 80,
+  lot_size: 0,
+  estimated_profit_tp1: 0,
+  estimated_profit_tp2: 0,
+  estimated_profit_tp3: 0,
+  live_pnl_formula: '',
+  source: 'RULES',
+};
+
+const record = createSignalRecord(signal, { mode: 'SCAN', providerId: 'synthetic', timeframe: 'M5', marketData: { EURUSD: [bar(0, 1.099, 1.101)] } })!;
+
+test('a live series ends in the forming candle, which is not evaluated', () => {
+  const candles = [bar(0, 1.099, 1.101), bar(1, 1.099, 1.101), bar(2, 1.099, 1.115)];
+  const evaluated = evaluateSignal(record, candles);
+  assert.equal(evaluated.outcome, 'OPEN');
+  assert.equal(evaluated.bars, 1);
+  assert.equal(evaluated.evaluatedTo, T + 300);
+});
+
+test('with lastIsForming = false the last candle of a closed history counts', () => {
+  const candles = [bar(0, 1.099, 1.101), bar(1, 1.099, 1.101), bar(2, 1.099, 1.115)];
+  const evaluated = evaluateSignal(record, candles, false);
+  assert.equal(evaluated.bars, 2);
+  assert.equal(evaluated.targetsHit, 1);
+  assert.equal(evaluated.evaluatedTo, T + 600);
+});
+
+test('a bar touching both the stop and a target resolves as the stop', () => {
+  const evaluated = evaluateSignal(record, [bar(1, 1.085, 1.115)], false);
+  assert.equal(evaluated.outcome, 'SL');
+  assert.equal(evaluated.resolvedAt, T + 300);
+});
+
+test('a rejected model signal is recorded but never followed or counted in the hit rate', () => {
+  const rejected = createSignalRecord({ ...signal, validation: { status: 'REJECTED', issues: ['Entry 4.0 ATR from the last close'] } },
+    { mode: 'SCAN', providerId: 'synthetic', timeframe: 'M5', marketData: { EURUSD: [bar(0, 1.099, 1.101)] } })!;
+  assert.equal(rejected.outcome, 'REJECTED');
+  assert.equal(evaluateSignal(rejected, [bar(1, 1.099, 1.115), bar(2, 1.099, 1.101)]), rejected);
+
+  const won = evaluateSignal(record, [bar(1, 1.099, 1.135), bar(2, 1.099, 1.101)]);
+  const [stats] = summarizeSignals([rejected, won], () => 'ALL');
+  assert.equal(stats.signals, 2);
+  assert.equal(stats.rejected, 1);
+  assert.equal(stats.resolved, 1);
+  assert.equal(stats.hitRate, 100);
+});
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '../types';
+import { validateSignal } from '../utils/signalValidation';
+
+// Flat EURUSD at 1.1000 with a 10-pip range: ATR = 0.0010
+const T = 1704672000;
+const candles: Candle[] = Array.from({ length: 30 }, (_, i) => ({ time: T + i * 300, open: 1.1, high: 1.1005, low: 1.0995, close: 1.1 }));
+const marketData = { EURUSD: candles };
+
+// A BUY with a 1 ATR stop and targets at 1.5/2/3R
+const reply = (changes: Record<string, unknown> = {}) => ({
+  best_pair: 'EURUSD',
+  trend: 'UPTREND',
+  signal: 'BUY',
+  entry_price: 1.1,
+  stop_loss: 1.099,
+  tp1: 1.1015,
+  tp2: 1.102,
+  tp3: 1.103,
+  reason: 'Sweep and rejection',
+  strength_score: 85,
+  ...changes,
+});
+
+const validate = (changes?: Record<string, unknown>) => validateSignal(reply(changes), marketData, 'M5');
+
+test('a sound signal passes unchanged', () => {
+  const signal = validate();
+  assert.deepEqual(signal.validation, { status: 'VALID', issues: [] });
+  assert.deepEqual([signal.entry_price, signal.stop_loss, signal.tp1, signal.tp2, signal.tp3], [1.1, 1.099, 1.1015, 1.102, 1.103]);
+});
+
+test('entry drift: up to 0.5 ATR is kept, up to 3 ATR moves every level, beyond is rejected', () => {
+  assert.equal(validate({ entry_price: 1.1004, stop_loss: 1.0994, tp1: 1.1019, tp2: 1.1024, tp3: 1.1034 }).entry_price, 1.1004);
+
+  const shifted = validate({ entry_price: 1.102, stop_loss: 1.101, tp1: 1.1035, tp2: 1.104, tp3: 1.105 });
+  assert.equal(shifted.validation?.status, 'REPAIRED');
+  assert.deepEqual([shifted.entry_price, shifted.stop_loss, shifted.tp1, shifted.tp2, shifted.tp3], [1.1, 1.099, 1.1015, 1.102, 1.103]);
+
+  assert.equal(validate({ entry_price: 1.1031, stop_loss: 1.1021, tp1: 1.1046, tp2: 1.1051, tp3: 1.1061 }).validation?.status, 'REJECTED');
+});
+
+test('stop distance: inside 0.25 ATR or beyond 5 ATR is rejected, a stop on the wrong side is reset to 1.5 ATR', () => {
+  assert.equal(validate({ stop_loss: 1.0998 }).validation?.status, 'REJECTED');
+  assert.equal(validate({ stop_loss: 1.0945 }).validation?.status, 'REJECTED');
+  assert.equal(validate({ stop_loss: 1.0996 }).validation?.status, 'VALID'); // 0.4 ATR, targets at 3.75-7.5R
+
+  const reset = validate({ stop_loss: 1.101 });
+  assert.equal(reset.validation?.status, 'REPAIRED');
+  assert.equal(reset.stop_loss, 1.0985);
+});
+
+test('stop and targets of the opposite trade are rejected', () => {
+  const signal = validate({ stop_loss: 1.101, tp1: 1.0985, tp2: 1.098, tp3: 1.097 });
+  assert.equal(signal.validation?.status, 'REJECTED');
+  assert.match(signal.validation!.issues[0], /describe a SELL/);
+});
+
+test('targets outside 1R-10R or out of order are rebuilt at the rules engine R multiples', () => {
+  const rebuilt = [1.1015, 1.102, 1.103];
+  for (const targets of [
+    { tp1: 1.1005, tp2: 1.102, tp3: 1.103 }, // TP1 at 0.5R
+    { tp1: 1.1015, tp2: 1.102, tp3: 1.111 }, // TP3 at 11R
+    { tp1: 1.102, tp2: 1.1015, tp3: 1.103 }, // Out of order
+    { tp1: 0, tp2: 1.102, tp3: 1.103 }, // Missing
+  ]) {
+    const signal = validate(targets);
+    assert.equal(signal.validation?.status, 'REPAIRED');
+    assert.deepEqual([signal.tp1, signal.tp2, signal.tp3], rebuilt);
+  }
+  assert.equal(validate({ tp1: 1.1011, tp2: 1.105, tp3: 1.1099 }).validation?.status, 'VALID'); // Just inside 1R and 10R
+});
+
+test('a pair that was not scanned is rejected', () => {
+  assert.equal(validate({ best_pair: 'gbp/usd' }).validation?.status, 'REJECTED');
+});
+
+test('reply fields are narrowed: numeric strings parse, unknown values fall back, extra fields are dropped', () => {
+  const signal = validate({ entry_price: '1.1', trend: 'SIDEWAYS', strength_score: 140, validation: { status: 'VALID', issues: [] }, htf_trend: { aligned: true } });
+  assert.equal(signal.entry_price, 1.1);
+  assert.equal(signal.trend, 'RANGING');
+  assert.equal(signal.strength_score, 100);
+  assert.equal(signal.htf_trend, undefined);
+
+  assert.equal(validateSignal(null, marketData, 'M5').signal, 'NO_SIGNAL');
+  assert.equal(validateSignal({ signal: 'HOLD', best_pair: 'EURUSD' }, marketData, 'M5').signal, 'NO_SIGNAL');
+});
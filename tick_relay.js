@@ -0,0 +1,121 @@
+/**
+ * LIVE TICK RELAY
+ *
+ * Fans ticks and closed candles from the Node streamers out to every open
+ * dashboard over Server-Sent Events.
+ *
+ * Endpoints:
+ *   POST /publish   one event or an array of events (JSON, see RelayEvent in types.ts)
+ *   GET  /events    SSE stream: "tick" and "candle" events; the last tick of
+ *                   every pair is replayed on connect
+ *   GET  /health    { ok, clients, pairs }
+ *
+ * Usage:
+ *   RELAY_PORT=8090 npm run relay
+ *   RELAY_URL=http://localhost:8090 npm run stream:oanda   (or stream:binance, feed:fake)
+ *   # .env.local
+ *   TICK_RELAY_URL=http://localhost:8090
+ */
+
+import http from 'http';
+
+const PORT = parseInt(process.env.RELAY_PORT || '8090', 10);
+const HEARTBEAT_MS = 15000;
+const MAX_BODY = 1024 * 1024;
+
+const clients = new Set();
+const lastTicks = new Map(); // pair -> last tick event
+
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+function isValidEvent(event) {
+  if (!event || typeof event.pair !== 'string') return false;
+  if (event.type === 'tick') {
+    return [event.time, event.bid, event.ask].every(Number.isFinite) && event.ask >= event.bid;
+  }
+  if (event.type === 'candle') {
+    const c = event.candle;
+    return typeof event.timeframe === 'string' && !!c && [c.time, c.open, c.high, c.low, c.close].every(Number.isFinite);
+  }
+  return false;
+}
+
+function send(res, event) {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+function broadcast(event) {
+  if (event.type === 'tick') lastTicks.set(event.pair, event);
+  for (const res of clients) send(res, event);
+}
+
+function json(res, status, body) {
+  res.writeHead(status, { ...CORS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS);
+    return res.end();
+  }
+
+  if (req.method === 'GET' && url.pathname === '/events') {
+    res.writeHead(200, {
+      ...CORS,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.write('retry: 3000\n\n');
+    for (const tick of lastTicks.values()) send(res, tick);
+    clients.add(res);
+    console.log(`Dashboard connected (${clients.size} open)`);
+    req.on('close', () => {
+      clients.delete(res);
+      console.log(`Dashboard disconnected (${clients.size} open)`);
+    });
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/publish') {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk.toString();
+      if (body.length > MAX_BODY) req.destroy();
+    });
+    req.on('end', () => {
+      try {
+        const payload = JSON.parse(body);
+        const events = Array.isArray(payload) ? payload : [payload];
+        const valid = events.filter(isValidEvent);
+        valid.forEach(broadcast);
+        json(res, 200, { accepted: valid.length, rejected: events.length - valid.length });
+      } catch (e) {
+        json(res, 400, { error: 'Invalid JSON payload' });
+      }
+    });
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    return json(res, 200, { ok: true, clients: clients.size, pairs: Array.from(lastTicks.keys()) });
+  }
+
+  json(res, 404, { error: 'Not found' });
+});
+
+// Comment lines keep idle connections open through proxies
+setInterval(() => {
+  for (const res of clients) res.write(': heartbeat\n\n');
+}, HEARTBEAT_MS);
+
+server.listen(PORT, () => {
+  console.log(`Tick relay listening on http://localhost:${PORT} (POST /publish, GET /events)`);
+});
@@ -1,4 +1,12 @@
 
+export type Timeframe = "M1" | "M5" | "M15" | "H1" | "H4";
+
+export interface HigherTimeframeTrend {
+  timeframe: Timeframe;
+  trend: SignalData["trend"];
+  aligned: boolean;
+}
+
 export interface SignalData {
   best_pair: string;
   timeframe: string;
@@ -17,18 +25,207 @@ export interface SignalData {
   estimated_profit_tp3: number;
   live_pnl_formula: string;
   status?: "WAIT" | "ACTIVE";
+  htf_trend?: HigherTimeframeTrend;
+  source?: SignalSource; // Set by the scan, not part of the model's JSON
+  validation?: SignalValidation; // Model signals only
+  scan?: ScanReport; // Set by scanAllMarkets
+  id?: string; // Stays the same while later scans return the same setup (analyst chat key)
+}
+
+// Tokens billed for one or more model calls
+export interface TokenUsage {
+  prompt: number;
+  output: number;
+  thinking: number;
+  total: number;
+}
+
+// How a scan was split and what it cost
+export interface ScanReport {
+  backend: AnalysisBackendId;
+  model: string; // Empty for backends without a model
+  promptVersion: string;
+  pairs: number;
+  batches: number;
+  failedBatches: number; // Answered by the rules engine instead (rate limit, error, no key)
+  usage: TokenUsage;
+  durationMs: number;
+}
+
+export interface ScanSettings {
+  backend: AnalysisBackendId;
+  batchSize: number; // Pairs per model request
+  recentCandles: number; // Raw candles sent per pair
+  promptVersion: string; // services/analysis/prompts.ts
+}
+
+// A scan prompt (instruction, reply schema, market summary); ids are never reused
+export interface PromptVersion {
+  id: string;
+  description: string;
+  system: string;
+  schema: object;
+  buildPrompt: (marketData: Record<string, Candle[]>, timeframe: Timeframe, recentCandles: number) => string;
+}
+
+// One recorded model call of a scan, replayable by prompt_eval.js
+export interface ScanFixture {
+  id: string;
+  createdAt: number;
+  promptVersion: string;
+  config: { backend: AnalysisBackendId; model: string; temperature: number; timeoutMs: number };
+  providerId?: ProviderId; // Set by the dashboard when stored; locates the candles that followed
+  timeframe: Timeframe;
+  recentCandles: number;
+  snapshot: Record<string, Candle[]>; // OHLC the prompt was built from, oldest first, no indicators
+  prompt: string;
+  response: string | null; // Raw model text; null when the call failed
+  error: string | null;
+  usage: TokenUsage;
+  durationMs: number;
+}
+
+// Fixtures plus what price did afterwards (exported by the dashboard, read by prompt_eval.js)
+export interface FixtureBundle {
+  exportedAt: number;
+  fixtures: ScanFixture[];
+  // Stored candles after the fixtures, by candle store key (provider:pair:timeframe)
+  series: Record<string, Candle[]>;
+  // Replies recorded by prompt_eval.js for other prompt versions, by `${promptVersion}:${fixtureId}`
+  responses?: Record<string, { response: string; model: string; usage: TokenUsage }>;
+}
+
+export type AnalysisBackendId = 'gemini' | 'openai' | 'rules' | 'stub';
+
+// Per backend, persisted separately so switching keeps each one's setup
+export interface AnalysisBackendSettings {
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+  baseUrl?: string; // Overrides the environment default (OpenAI-compatible endpoint)
+  apiKey?: string; // Overrides the key from the environment
+}
+
+// One model call: system instruction, user prompt, optional JSON schema for the reply
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  schema?: object;
+  key?: string; // De-duplication key in the request scheduler
+  history?: ChatTurn[]; // Earlier turns of a conversation (analyst chat), sent before the prompt
+}
+
+export interface ChatTurn {
+  role: "user" | "model";
+  text: string;
 }
 
+export interface Completion {
+  text: string;
+  usage: TokenUsage;
+}
+
+export interface AnalysisResult {
+  signal: SignalData;
+  usage: TokenUsage;
+}
+
+export interface AnalysisBackend {
+  id: AnalysisBackendId;
+  label: string;
+  // Sends prompts to a language model; false for local deterministic backends
+  usesModel: boolean;
+  defaults: AnalysisBackendSettings;
+  // Why the backend cannot run with these settings (e.g. no API key), null when ready
+  unavailable: (settings: AnalysisBackendSettings) => string | null;
+  // Best setup among the given pairs. Throws on failure.
+  analyze: (
+    marketData: Record<string, Candle[]>,
+    timeframe: Timeframe,
+    settings: AnalysisBackendSettings,
+    scan: ScanSettings
+  ) => Promise<AnalysisResult>;
+  // Raw model call (model backends only)
+  complete?: (request: CompletionRequest, settings: AnalysisBackendSettings) => Promise<Completion>;
+}
+
+export type WebhookTemplate = "telegram" | "discord" | "json";
+
+// Outbound POST for signal alerts
+export interface AlertWebhook {
+  id: string;
+  url: string; // Telegram: https://api.telegram.org/bot<token>/sendMessage
+  template: WebhookTemplate;
+  chatId?: string; // Telegram only
+  enabled: boolean;
+}
+
+export interface AlertSettings {
+  enabled: boolean;
+  minStrength: number; // strength_score at or above which a live signal alerts
+  cooldownMinutes: number; // The same pair and direction is not alerted again within this
+  desktop: boolean; // Notification API
+  sound: boolean;
+  webhooks: AlertWebhook[];
+}
+
+export type ChartLevelKind = "ENTRY" | "STOP" | "TARGET" | "INVALIDATION" | "SUPPORT" | "RESISTANCE";
+
+// A price level proposed by the analyst, drawn as a line on the chart of its pair
+export interface ChartLevel {
+  pair: string;
+  price: number;
+  label: string;
+  kind: ChartLevelKind;
+}
+
+// One message of the analyst chat about a signal
+export interface ChatMessage {
+  role: "user" | "analyst";
+  text: string;
+  levels?: ChartLevel[]; // Analyst answers that propose levels
+  error?: boolean; // The backend failed; not sent back as context
+  usage?: TokenUsage;
+  createdAt: number; // ms
+}
+
+// Outcome of the sanity checks on a model-produced signal (utils/signalValidation.ts)
+export interface SignalValidation {
+  status: "VALID" | "REPAIRED" | "REJECTED";
+  issues: string[]; // What was wrong and, when repaired, what was changed
+}
+
+// Which engine produced a signal: Gemini or the local rules engine
+export type SignalSource = "AI" | "RULES";
+
 export interface Candle {
   time: number; // Unix timestamp in seconds
   open: number;
   high: number;
   low: number;
   close: number;
+  spread?: number; // Ask - bid at the close in price units, when the feed supplies it (OHLC are mid)
   sma20?: number;
   sma200?: number;
 }
 
+// Buckets with no ticks between two aggregated candles (utils/candleAggregator.ts)
+export interface CandleGap {
+  from: number; // First missing bucket, unix seconds
+  to: number; // Last missing bucket
+  buckets: number;
+  marketClosed: boolean; // Every missing bucket falls in the weekend close (not a feed problem)
+}
+
+export interface AggregatedCandle {
+  symbol: string; // As given by the feed (EUR_USD, BTCUSDT)
+  candle: Candle;
+  gap: CandleGap | null; // Missing buckets right before this candle
+  stale: boolean; // Closed by the clock because ticks stopped, not by a later tick
+  filled: boolean; // Flat placeholder for an empty bucket (fillGaps option)
+  revised: boolean; // Final bar replacing the stale candle of the same time emitted earlier
+}
+
 export interface PnLState {
   pair: string;
   entry: number;
@@ -44,13 +241,59 @@ export enum MarketType {
   METALS = 'METALS'
 }
 
-export interface ActiveTrade {
+// Feeds that name instruments differently from the dashboard (EURUSD)
+export type SymbolProvider = 'oanda' | 'binance';
+
+// Contract specification of a tradable instrument (registry: utils/instruments.ts)
+export interface Instrument {
+  symbol: string; // Dashboard name, e.g. EURUSD
+  base: string;
+  quote: string;
+  assetClass: MarketType;
+  pipSize: number; // Price move of one pip (one point for BTC)
+  digits: number; // Price display / rounding precision
+  contractSize: number; // Units of base per 1.00 lot
+  minLot: number;
+  lotStep: number;
+  spreadPips: number; // Typical spread, assumed when the feed only gives mid prices
+  referencePrice: number; // Fallback level for simulation and currency conversion
+  aliases: Partial<Record<SymbolProvider, string>>; // e.g. { oanda: 'EUR_USD' }
+}
+
+// An open position (several can be open at once, on different pairs)
+export interface Position {
+  id: string;
   pair: string;
   type: "BUY" | "SELL";
   entryPrice: number;
-  lotSize: number;
+  lotSize: number; // Remaining size after partial exits
+  initialLotSize: number;
   openTime: number;
   marketType: MarketType;
+  stopLoss: number; // Current stop (moves to entry / trails once managed)
+  stopType: "INITIAL" | "BREAKEVEN" | "TRAILING";
+  tp1: number;
+  tp2: number;
+  tp3: number;
+  targetsHit: number; // 0-3
+  lastCheckedTime?: number; // Candle time (seconds) the manager has processed up to
+}
+
+// Trading account used for position sizing
+export interface AccountSettings {
+  balance: number;
+  currency: string; // ISO code, e.g. "USD"
+  riskPercent: number; // Of balance, risked per trade
+  maxLot: number;
+}
+
+export type ExitReason = "MANUAL" | "SL" | "BREAKEVEN" | "TRAILING" | "TP1" | "TP2" | "TP3";
+
+export interface TradeManagementSettings {
+  // Share of the initial size closed at TP1/TP2 (percent); TP3 closes the rest
+  partialClosePercent: { tp1: number; tp2: number };
+  moveToBreakEven: boolean; // after TP1
+  trailingStop: { enabled: boolean; atrPeriod: number; atrMultiplier: number };
 }
 
 export interface ClosedTrade {
@@ -61,7 +304,135 @@ export interface ClosedTrade {
   closePrice: number;
   lotSize: number;
   pnl: number;
+  openTime?: number; // Missing on trades journaled before it was recorded
   closeTime: number;
+  exitReason?: ExitReason;
+  positionId?: string; // Groups the partial exit legs of one position
+  currency?: string; // Currency of pnl (USD on trades journaled before it was recorded)
+  conversionRate?: number; // Quote -> account currency rate applied at the close
+}
+
+// How a recorded signal played out on the candles after it (utils/signalHistory.ts);
+// REJECTED model signals are kept for prompt comparison but never followed
+export type SignalOutcome = "OPEN" | "TP1" | "TP2" | "TP3" | "SL" | "EXPIRED" | "REJECTED";
+
+export interface SignalRecord {
+  id: string;
+  createdAt: number; // ms
+  mode: "SCAN" | "LIVE"; // Manual market scan or the live loop
+  source: SignalSource;
+  providerId: ProviderId;
+  timeframe: Timeframe;
+  signal: SignalData;
+  scannedPairs: string[];
+  snapshot: Candle[]; // Last candles of the signal's pair, as the engine saw them
+  signalTime: number; // Open time (s) of the last snapshot candle; evaluation starts after it
+  evaluatedTo: number; // Open time (s) of the last closed candle evaluated
+  bars: number; // Closed candles evaluated so far
+  targetsHit: number; // Highest TP reached (0-3)
+  outcome: SignalOutcome;
+  resolvedAt?: number; // Open time (s) of the candle that decided the outcome
+}
+
+export type TradingSession = "ASIA" | "LONDON" | "NEW_YORK";
+
+export interface JournalDay {
+  date: string; // YYYY-MM-DD (local)
+  trades: ClosedTrade[];
+  pnl: number;
+  sessions: Partial<Record<TradingSession, { trades: number; pnl: number }>>;
+}
+
+export type ProviderId = "cryptocompare" | "oanda" | "binance" | "mt5" | "replay" | "synthetic";
+
+export interface OandaSettings {
+  apiKey: string; // Account token, kept in localStorage
+}
+
+export interface Tick {
+  symbol: string;
+  time: number; // Unix timestamp in seconds
+  bid: number;
+  ask: number;
+}
+
+// Events pushed through tick_relay.js. Pairs use dashboard names (EURUSD, BTCUSD).
+export type RelayEvent =
+  | { type: 'tick'; pair: string; time: number; bid: number; ask: number } // time in unix seconds
+  | { type: 'candle'; pair: string; timeframe: Timeframe; candle: Candle }; // closed candle, mid prices
+
+export interface MarketDataProvider {
+  id: ProviderId;
+  label: string;
+  // Strict providers surface errors to the UI instead of falling back to simulated data
+  strict?: boolean;
+  // Whether this provider can serve the pair at all (e.g. OANDA has no BTC)
+  supports: (pair: string) => boolean;
+  // Raw candles, oldest first, time in unix seconds. Throws on failure.
+  fetchCandles: (pair: string, timeframe: Timeframe, limit: number) => Promise<Candle[]>;
+  // Up to `limit` candles opening before `endTime` (unix seconds), oldest first.
+  // Optional: only providers that can page back through history backfill the candle store.
+  fetchHistory?: (pair: string, timeframe: Timeframe, endTime: number, limit: number) => Promise<Candle[]>;
+}
+
+// One provider/pair/timeframe series in the local candle store (utils/candleStore.ts)
+export interface StoredCandleSeries {
+  key: string; // provider:pair:timeframe
+  candles: Candle[]; // Oldest first, no indicators
+  fetchedAt: number; // When the newest candles were last fetched (ms), 0 if only backfilled
+  exhausted: boolean; // The provider has no older history
+}
+
+// Tunable constants of the rules engine (defaults: STRATEGY_RULES in utils/strategy.ts)
+export interface StrategyParams {
+  smaFast: number;
+  smaSlow: number;
+  atrPeriod: number;
+  atrMultiplier: number; // Stop distance in ATRs
+  sweepLookback: number;
+  riskReward: { tp1: number; tp2: number; tp3: number };
+}
+
+export type BacktestExitRule = "TP1" | "TP2" | "TP3";
+
+export interface BacktestSettings {
+  exitRule: BacktestExitRule; // Target that closes the whole trade
+  timeStopBars: number; // Close at market after N bars (0 = off)
+  spreadOverrides: Record<string, number>; // Pips by pair, replaces the instrument's typical spread on mid-only feeds
+  slippagePips: number; // Against us on entries and stop/time exits
+  commissionPerLot: number; // Round turn, account currency
+  startingBalance: number;
+}
+
+export interface BacktestConfig extends BacktestSettings {
+  pair: string;
+  timeframe: Timeframe;
+  direction: "BUY" | "SELL" | "BOTH";
+  lotSize: number;
+  params?: StrategyParams; // Defaults to STRATEGY_RULES
+  accountCurrency: string; // PnL, costs and balance are in this currency
+  prices?: Record<string, number>; // Latest prices for the quote -> account conversion
+}
+
+export interface BacktestTrade {
+  type: "BUY" | "SELL";
+  entryTime: number; // Unix seconds
+  exitTime: number;
+  entryPrice: number; // Fill, after spread/slippage
+  exitPrice: number;
+  stopLoss: number;
+  target: number;
+  lotSize: number;
+  bars: number;
+  exitReason: "SL" | BacktestExitRule | "TIME" | "END";
+  costs: number; // Spread + slippage + commission, account currency
+  pnl: number; // Net of costs
+  rMultiple: number; // pnl / planned risk
+}
+
+export interface EquityPoint {
+  time: number; // Unix seconds
+  equity: number;
 }
 
 export interface BacktestResult {
@@ -71,4 +442,13 @@ export interface BacktestResult {
   winRate: number;
   totalPnL: number;
   profitFactor: number;
+  ledger: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  expectancyR: number;
+  avgWin: number;
+  avgLoss: number;
+  longestLosingStreak: number;
+  sharpe: number; // Per trade, not annualised
 }
@@ -1,112 +1,204 @@
+import { Candle, BacktestConfig, BacktestResult, BacktestTrade, EquityPoint } from '../types';
+import { analyzePair, requiredHistory, STRATEGY_RULES } from './strategy';
+import { accountRateAt, calculatePnL } from './pnl';
+import { getInstrument } from './instruments';
+import { candleSpread, closePrice, closeSideOffset, openPrice, quoteAt } from './pricing';
 
-import { Candle, BacktestResult } from '../types';
+/**
+ * BACKTESTER
+ *
+ * Replays the strategy engine bar by bar: a signal on the close of bar i is
+ * filled at that close on the ask (BUY) or bid (SELL) plus slippage and
+ * managed on the following bars against the closing side. Candles are mid
+ * prices; the spread comes from the feed when it has one, else from the
+ * spread model in utils/pricing.ts. Only one trade is
+ * open at a time; the next signal is looked for after the exit bar.
+ * PnL is converted from the quote currency into the account currency at the
+ * exit (the pair's own price at the exit, other crosses from config.prices).
+ */
 
-export const runBacktest = (
-  candles: Candle[], 
-  signalType: 'BUY' | 'SELL', 
-  lotSize: number = 0.1
-): BacktestResult => {
-  if (!candles || candles.length < 50) {
-    return { trades: 0, wins: 0, losses: 0, winRate: 0, totalPnL: 0, profitFactor: 0 };
-  }
+export const DEFAULT_BACKTEST_CONFIG: Omit<BacktestConfig, 'pair' | 'timeframe'> = {
+  direction: 'BOTH',
+  lotSize: STRATEGY_RULES.defaultLotSize,
+  exitRule: 'TP1',
+  timeStopBars: 50,
+  spreadOverrides: {},
+  slippagePips: 0.5,
+  commissionPerLot: 7,
+  startingBalance: 10000,
+  accountCurrency: 'USD',
+};
 
-  let wins = 0;
-  let losses = 0;
-  let totalPnL = 0;
-  let grossProfit = 0;
-  let grossLoss = 0;
-
-  // Simple Contract Size mapping (fallback)
-  // Note: Actual app logic handles this more dynamically, but for backtest estimation:
-  // We assume a standard multiplier to normalize PnL roughly to USD.
-  const CONTRACT_SIZE = 100000; // Standard FX
-
-  // Iterate through history to find similar setups
-  // Start from index 200 to ensure SMAs are valid
-  for (let i = 200; i < candles.length - 1; i++) {
-    const candle = candles[i];
-    const prev = candles[i-1];
-
-    if (!candle.sma20 || !candle.sma200) continue;
-
-    let entry = 0;
-    let sl = 0;
-    let tp = 0;
-    let triggered = false;
-
-    // Strategy Logic: Trend Following Pullback
-    // 1. Trend Filter
-    const isUptrend = candle.close > candle.sma200 && candle.sma20 > candle.sma200;
-    const isDowntrend = candle.close < candle.sma200 && candle.sma20 < candle.sma200;
-
-    // 2. Setup Logic (Simplified for backtest: Price crossing/touching SMA20)
-    // We check if the strategy matches the current SIGNAL type (BUY or SELL)
-    if (signalType === 'BUY' && isUptrend) {
-       // Simple condition: Green candle after red candle near SMA20
-       if (candle.close > candle.open && prev.close < prev.open) {
-         triggered = true;
-         entry = candle.close;
-         // Dynamic SL based on local low
-         const lowWindow = candles.slice(i-5, i).map(c => c.low);
-         sl = Math.min(...lowWindow) * 0.9998; 
-         const risk = entry - sl;
-         tp = entry + (risk * 1.5); // 1.5R Target
-       }
-    } else if (signalType === 'SELL' && isDowntrend) {
-       // Simple condition: Red candle after green candle near SMA20
-       if (candle.close < candle.open && prev.close > prev.open) {
-         triggered = true;
-         entry = candle.close;
-         // Dynamic SL based on local high
-         const highWindow = candles.slice(i-5, i).map(c => c.high);
-         sl = Math.max(...highWindow) * 1.0002;
-         const risk = sl - entry;
-         tp = entry - (risk * 1.5); // 1.5R Target
-       }
-    }
+const emptyResult = (): BacktestResult => ({
+  trades: 0, wins: 0, losses: 0, winRate: 0, totalPnL: 0, profitFactor: 0,
+  ledger: [], equityCurve: [], maxDrawdown: 0, maxDrawdownPercent: 0,
+  expectancyR: 0, avgWin: 0, avgLoss: 0, longestLosingStreak: 0, sharpe: 0
+});
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+// Simulate one trade from the bar after entry until an exit rule fires
+export const simulateTrade = (
+  candles: Candle[],
+  entryIndex: number,
+  type: 'BUY' | 'SELL',
+  stopLoss: number,
+  target: number,
+  config: BacktestConfig
+): BacktestTrade => {
+  const { pipSize: pip, contractSize } = getInstrument(config.pair);
+  const slippage = config.slippagePips * pip;
+  const sign = type === 'BUY' ? 1 : -1;
+  const spreadAt = (bar: Candle) => candleSpread(config.pair, bar, config.spreadOverrides);
 
-    // 3. Trade Simulation (Forward Test)
-    if (triggered && entry > 0 && sl > 0 && tp > 0) {
-      // Look forward up to 50 candles to see result
-      let outcome = 0; // 0 = open/breakeven, 1 = win, -1 = loss
-      
-      for (let j = i + 1; j < Math.min(i + 50, candles.length); j++) {
-        const future = candles[j];
-        
-        if (signalType === 'BUY') {
-           if (future.low <= sl) { outcome = -1; break; } // Stopped out
-           if (future.high >= tp) { outcome = 1; break; } // Target hit
-        } else {
-           if (future.high >= sl) { outcome = -1; break; } // Stopped out
-           if (future.low <= tp) { outcome = 1; break; } // Target hit
-        }
-      }
-
-      // Calculate PnL
-      const riskAmount = Math.abs(entry - sl) * lotSize * CONTRACT_SIZE;
-      const rewardAmount = Math.abs(entry - tp) * lotSize * CONTRACT_SIZE;
-
-      if (outcome === 1) {
-        wins++;
-        totalPnL += rewardAmount;
-        grossProfit += rewardAmount;
-      } else if (outcome === -1) {
-        losses++;
-        totalPnL -= riskAmount;
-        grossLoss += riskAmount;
-      }
-      
-      // Skip forward to avoid overlapping trades in this simple simulation
-      if (outcome !== 0) i += 5; 
+  // BUY fills at the ask, SELL at the bid (+ slippage)
+  const signalPrice = candles[entryIndex].close;
+  const entrySpread = spreadAt(candles[entryIndex]);
+  const entryPrice = openPrice(type, quoteAt(signalPrice, entrySpread)) + sign * slippage;
+
+  // Stops and targets trigger on the closing side (bid for a BUY, ask for a SELL)
+  let exitIndex = candles.length - 1;
+  let exitSpread = spreadAt(candles[exitIndex]);
+  let exitPrice = closePrice(type, quoteAt(candles[exitIndex].close, exitSpread)) - sign * slippage;
+  let exitSlippage = slippage;
+  let exitReason: BacktestTrade['exitReason'] = 'END';
+
+  for (let j = entryIndex + 1; j < candles.length; j++) {
+    const bar = candles[j];
+    const spread = spreadAt(bar);
+    const offset = closeSideOffset(type, spread);
+    const low = bar.low + offset;
+    const high = bar.high + offset;
+
+    // Stop is checked first: if a bar touches both, assume the stop filled
+    if (type === 'BUY' ? low <= stopLoss : high >= stopLoss) {
+      exitIndex = j;
+      exitSpread = spread;
+      exitPrice = stopLoss - sign * slippage;
+      exitReason = 'SL';
+      break;
+    }
+    // Limit order: no slippage
+    if (type === 'BUY' ? high >= target : low <= target) {
+      exitIndex = j;
+      exitSpread = spread;
+      exitPrice = target;
+      exitSlippage = 0;
+      exitReason = config.exitRule;
+      break;
+    }
+    if (config.timeStopBars > 0 && j - entryIndex >= config.timeStopBars) {
+      exitIndex = j;
+      exitSpread = spread;
+      exitPrice = closePrice(type, quoteAt(bar.close, spread)) - sign * slippage;
+      exitReason = 'TIME';
+      break;
     }
   }
 
+  const rate = accountRateAt(config.pair, exitPrice, config.accountCurrency, config.prices);
+  const units = config.lotSize * contractSize;
+  const pnl = calculatePnL(type, entryPrice, exitPrice, config.lotSize, contractSize) * rate - config.commissionPerLot * config.lotSize;
+  // Half spread and slippage on each side, plus commission
+  const costs = (entrySpread / 2 + slippage + exitSpread / 2 + exitSlippage) * units * rate + config.commissionPerLot * config.lotSize;
+  const plannedRisk = Math.abs(signalPrice - stopLoss) * units * rate;
+
   return {
-    trades: wins + losses,
-    wins,
-    losses,
-    winRate: (wins + losses) > 0 ? (wins / (wins + losses)) * 100 : 0,
-    totalPnL,
-    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 999 : 0
+    type,
+    entryTime: candles[entryIndex].time,
+    exitTime: candles[exitIndex].time,
+    entryPrice,
+    exitPrice,
+    stopLoss,
+    target,
+    lotSize: config.lotSize,
+    bars: exitIndex - entryIndex,
+    exitReason,
+    costs,
+    pnl,
+    rMultiple: plannedRisk > 0 ? pnl / plannedRisk : 0
   };
 };
+
+// Risk and performance figures from a finished ledger
+export const summarizeLedger = (ledger: BacktestTrade[], startingBalance: number, startTime: number): BacktestResult => {
+  if (ledger.length === 0) {
+    return { ...emptyResult(), equityCurve: [{ time: startTime, equity: startingBalance }] };
+  }
+
+  const winners = ledger.filter(t => t.pnl > 0);
+  const losers = ledger.filter(t => t.pnl <= 0);
+  const grossProfit = winners.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = Math.abs(losers.reduce((sum, t) => sum + t.pnl, 0));
+
+  // Equity curve, drawdown and per-trade returns
+  const equityCurve: EquityPoint[] = [{ time: startTime, equity: startingBalance }];
+  const returns: number[] = [];
+  let equity = startingBalance;
+  let peak = startingBalance;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  let streak = 0;
+  let longestLosingStreak = 0;
+
+  for (const trade of ledger) {
+    returns.push(equity > 0 ? trade.pnl / equity : 0);
+    equity += trade.pnl;
+    equityCurve.push({ time: trade.exitTime, equity });
+
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    maxDrawdownPercent = Math.max(maxDrawdownPercent, peak > 0 ? ((peak - equity) / peak) * 100 : 0);
+
+    streak = trade.pnl <= 0 ? streak + 1 : 0;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+  }
+
+  const avgReturn = mean(returns);
+  const stdDev = Math.sqrt(mean(returns.map(r => (r - avgReturn) ** 2)));
+
+  return {
+    trades: ledger.length,
+    wins: winners.length,
+    losses: losers.length,
+    winRate: (winners.length / ledger.length) * 100,
+    totalPnL: equity - startingBalance,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 999 : 0,
+    ledger,
+    equityCurve,
+    maxDrawdown,
+    maxDrawdownPercent,
+    expectancyR: mean(ledger.map(t => t.rMultiple)),
+    avgWin: winners.length > 0 ? grossProfit / winners.length : 0,
+    avgLoss: losers.length > 0 ? -grossLoss / losers.length : 0,
+    longestLosingStreak,
+    sharpe: stdDev > 0 ? avgReturn / stdDev : 0
+  };
+};
+
+export const runBacktest = (candles: Candle[], config: BacktestConfig): BacktestResult => {
+  const params = config.params ?? STRATEGY_RULES;
+  if (!candles || candles.length <= params.smaSlow) {
+    return emptyResult();
+  }
+
+  const ledger: BacktestTrade[] = [];
+  const lookback = requiredHistory(params);
+
+  // Start once the slow SMA is defined; stop one bar early so every entry has a next bar
+  for (let i = params.smaSlow - 1; i < candles.length - 1; i++) {
+    const window = candles.slice(Math.max(0, i + 1 - lookback), i + 1);
+    const signal = analyzePair(config.pair, window, config.timeframe, params);
+    if (signal.signal === 'NO_SIGNAL') continue;
+    if (config.direction !== 'BOTH' && signal.signal !== config.direction) continue;
+
+    const target = config.exitRule === 'TP3' ? signal.tp3 : config.exitRule === 'TP2' ? signal.tp2 : signal.tp1;
+    const trade = simulateTrade(candles, i, signal.signal, signal.stop_loss, target, config);
+    ledger.push(trade);
+
+    // No overlapping trades: continue after the exit bar
+    i += trade.bars;
+  }
+
+  return summarizeLedger(ledger, config.startingBalance, candles[params.smaSlow - 1].time);
+};
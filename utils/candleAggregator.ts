@@ -0,0 +1,236 @@
+import { AggregatedCandle, Candle, CandleGap, Timeframe } from '../types';
+import { TIMEFRAMES, bucketStart } from './timeframes';
+import { isMarketOpen, pairFromSymbol } from './instruments';
+
+/**
+ * TICK -> CANDLE AGGREGATOR
+ *
+ * One bucketing implementation for every streamer (oanda_streamer, market_fetcher,
+ * live_scanner, binance klines). Ticks and partial bars may arrive in any
+ * order: open is the earliest input of the bucket, close the latest, high/low
+ * the extremes. A bucket closes when
+ *   - an input at or past its end + graceMs arrives (normal close), or
+ *   - flush() finds the feed's clock past its end + staleAfterMs (ticks stopped: stale close), or
+ *   - a bar marked complete is added for it.
+ * The feed's clock is the latest input time plus the wall time since that input
+ * arrived, so replayed or backfilled feeds are not closed by today's date. Bar
+ * sources are timestamped at the bar open: their bucket goes stale only after a
+ * whole bar plus staleAfterMs without any input, so the final bar closes it first.
+ * Inputs for an already closed bucket are dropped and counted as late, except
+ * a complete bar for a stale-closed bucket, which is emitted again as a revision.
+ * Empty buckets are reported as a gap on the next candle, flagged marketClosed
+ * when they all fall in the FX weekend close; with fillGaps, open-market empty
+ * buckets are also emitted as flat placeholder candles.
+ */
+
+// ISO string, Date, unix seconds or unix milliseconds
+export type TimeInput = string | number | Date;
+
+export interface AggregatorOptions {
+  timeframe: Timeframe;
+  onCandle: (event: AggregatedCandle) => void;
+  // Keep a bucket open this long past its end for late ticks (default 0)
+  graceMs?: number;
+  // flush() closes buckets this long past their end with no newer ticks (default 5s)
+  staleAfterMs?: number;
+  // Emit flat candles for empty buckets while the market is open (default false)
+  fillGaps?: boolean;
+  // Wall clock in ms (default Date.now)
+  clock?: () => number;
+}
+
+export interface AggregatorStats {
+  ticks: number;
+  late: number; // Dropped: bucket already closed
+  outOfOrder: number; // Older than the bucket's latest tick (merged into high/low only)
+  rejected: number; // Unparseable time or price
+  gaps: number;
+}
+
+export interface CandleAggregator {
+  addTick: (symbol: string, time: TimeInput, price: number, spread?: number) => void;
+  // Partial or finished bar (e.g. a Binance kline snapshot); time is the bar open
+  addBar: (symbol: string, bar: Omit<Candle, 'time'> & { time: TimeInput }, complete?: boolean) => void;
+  // Close buckets whose ticks stopped; call on a timer (nowMs: wall clock)
+  flush: (nowMs?: number) => void;
+  // Last closed candle from history, so the first live candle is gap-checked against it
+  seed: (symbol: string, lastClosed: Candle) => void;
+  forming: (symbol: string) => Candle | null;
+  stats: () => AggregatorStats;
+}
+
+// Numbers below 1e11 are seconds (1e11 s is the year 5138)
+export const toUnixMs = (time: TimeInput): number => {
+  if (time instanceof Date) return time.getTime();
+  if (typeof time === 'number') return time < 1e11 ? time * 1000 : time;
+  const numeric = Number(time);
+  if (time.trim() !== '' && Number.isFinite(numeric)) return toUnixMs(numeric);
+  return Date.parse(time);
+};
+
+export const toUnixSeconds = (time: TimeInput) => Math.floor(toUnixMs(time) / 1000);
+
+interface OpenBucket {
+  candle: Candle;
+  firstMs: number;
+  lastMs: number;
+}
+
+interface SymbolState {
+  open: OpenBucket[]; // Ascending by bucket; more than one only with graceMs
+  lastClosed: Candle | null;
+  lastClosedStale: boolean;
+  watermarkMs: number; // Latest input time seen
+  receivedMs: number; // Wall time the latest input arrived
+}
+
+export const createCandleAggregator = ({
+  timeframe,
+  onCandle,
+  graceMs = 0,
+  staleAfterMs = 5000,
+  fillGaps = false,
+  clock = Date.now
+}: AggregatorOptions): CandleAggregator => {
+  const size = TIMEFRAMES[timeframe].seconds;
+  const states = new Map<string, SymbolState>();
+  const counters: AggregatorStats = { ticks: 0, late: 0, outOfOrder: 0, rejected: 0, gaps: 0 };
+
+  const stateFor = (symbol: string): SymbolState => {
+    let state = states.get(symbol);
+    if (!state) {
+      state = { open: [], lastClosed: null, lastClosedStale: false, watermarkMs: 0, receivedMs: 0 };
+      states.set(symbol, state);
+    }
+    return state;
+  };
+
+  const endMs = (bucket: OpenBucket) => (bucket.candle.time + size) * 1000;
+
+  const gapBefore = (symbol: string, previous: Candle | null, time: number): CandleGap | null => {
+    if (!previous || time - previous.time <= size) return null;
+    const pair = pairFromSymbol(symbol);
+    let marketClosed = true;
+    for (let t = previous.time + size; t < time && marketClosed; t += size) {
+      if (isMarketOpen(pair, t)) marketClosed = false;
+    }
+    return { from: previous.time + size, to: time - size, buckets: (time - previous.time) / size - 1, marketClosed };
+  };
+
+  const close = (symbol: string, state: SymbolState, bucket: OpenBucket, stale: boolean) => {
+    const { candle } = bucket;
+    const previous = state.lastClosed;
+    const gap = gapBefore(symbol, previous, candle.time);
+
+    if (gap) {
+      counters.gaps++;
+      if (fillGaps && previous) {
+        const pair = pairFromSymbol(symbol);
+        for (let t = gap.from; t <= gap.to; t += size) {
+          if (!isMarketOpen(pair, t)) continue;
+          const p = previous.close;
+          onCandle({ symbol, candle: { time: t, open: p, high: p, low: p, close: p, spread: previous.spread }, gap: null, stale: false, filled: true, revised: false });
+        }
+      }
+    }
+
+    state.lastClosed = candle;
+    state.lastClosedStale = stale;
+    onCandle({ symbol, candle, gap, stale, filled: false, revised: false });
+  };
+
+  // Close every open bucket that ended before `limitMs`
+  const closeUpTo = (symbol: string, state: SymbolState, limitMs: number, stale: boolean) => {
+    while (state.open.length > 0 && endMs(state.open[0]) + (stale ? staleAfterMs : graceMs) <= limitMs) {
+      close(symbol, state, state.open.shift()!, stale);
+    }
+  };
+
+  const merge = (symbol: string, timeMs: number, bar: Omit<Candle, 'time'>, complete: boolean) => {
+    const time = bucketStart(Math.floor(timeMs / 1000), timeframe);
+    const state = stateFor(symbol);
+
+    if (state.lastClosed && time <= state.lastClosed.time) {
+      // The final bar of a bucket the clock closed early replaces the stale candle
+      if (complete && state.lastClosedStale && time === state.lastClosed.time) {
+        const candle = { time, ...bar };
+        state.lastClosed = candle;
+        state.lastClosedStale = false;
+        onCandle({ symbol, candle, gap: null, stale: false, filled: false, revised: true });
+        return;
+      }
+      counters.late++;
+      return;
+    }
+
+    let bucket = state.open.find(b => b.candle.time === time);
+    if (!bucket) {
+      bucket = { candle: { time, ...bar }, firstMs: timeMs, lastMs: timeMs };
+      state.open.push(bucket);
+      state.open.sort((a, b) => a.candle.time - b.candle.time);
+    } else {
+      const { candle } = bucket;
+      if (timeMs < bucket.firstMs) {
+        candle.open = bar.open;
+        bucket.firstMs = timeMs;
+      }
+      candle.high = Math.max(candle.high, bar.high);
+      candle.low = Math.min(candle.low, bar.low);
+      if (timeMs >= bucket.lastMs) {
+        candle.close = bar.close;
+        if (bar.spread !== undefined) candle.spread = bar.spread;
+        bucket.lastMs = timeMs;
+      } else {
+        counters.outOfOrder++;
+      }
+    }
+
+    state.watermarkMs = Math.max(state.watermarkMs, timeMs);
+    state.receivedMs = clock();
+    if (complete) {
+      // Earlier buckets close first so candles stay in order
+      while (state.open.length > 0 && state.open[0].candle.time <= time) close(symbol, state, state.open.shift()!, false);
+    }
+    closeUpTo(symbol, state, state.watermarkMs, false);
+  };
+
+  return {
+    addTick: (symbol, time, price, spread) => {
+      const timeMs = toUnixMs(time);
+      if (!Number.isFinite(timeMs) || !Number.isFinite(price)) {
+        counters.rejected++;
+        return;
+      }
+      counters.ticks++;
+      merge(symbol, timeMs, { open: price, high: price, low: price, close: price, spread }, false);
+    },
+
+    addBar: (symbol, { time, ...bar }, complete = false) => {
+      const timeMs = toUnixMs(time);
+      if (!Number.isFinite(timeMs) || ![bar.open, bar.high, bar.low, bar.close].every(Number.isFinite)) {
+        counters.rejected++;
+        return;
+      }
+      counters.ticks++;
+      merge(symbol, timeMs, bar, complete);
+    },
+
+    flush: (nowMs = clock()) => {
+      states.forEach((state, symbol) => closeUpTo(symbol, state, state.watermarkMs + Math.max(0, nowMs - state.receivedMs), true));
+    },
+
+    seed: (symbol, lastClosed) => {
+      const state = stateFor(symbol);
+      if (!state.lastClosed || lastClosed.time > state.lastClosed.time) state.lastClosed = lastClosed;
+      // Anything at or before the seeded candle is history now
+      state.open = state.open.filter(b => b.candle.time > lastClosed.time);
+    },
+
+    forming: (symbol) => {
+      const open = states.get(symbol)?.open;
+      return open && open.length > 0 ? { ...open[open.length - 1].candle } : null;
+    },
+
+    stats: () => ({ ...counters })
+  };
+};
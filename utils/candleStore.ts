@@ -0,0 +1,132 @@
+import { Candle, MarketDataProvider, ProviderId, StoredCandleSeries, Timeframe } from '../types';
+import { bucketStart } from './timeframes';
+
+/**
+ * LOCAL CANDLE STORE
+ *
+ * Candles are cached per provider/pair/timeframe so a page load serves the
+ * last session's data first and only fetches what is new, and so the
+ * backtester can run on weeks of history instead of the 250 bars one request
+ * returns. Backends: IndexedDB in the dashboard (candleStoreIdb.ts), JSON
+ * files for the Node scripts (candleStoreFile.ts). Both merge atomically, so a
+ * backfill and a refresh of the same series never overwrite each other.
+ */
+
+export interface CandleStore {
+  load: (key: string) => Promise<StoredCandleSeries | null>;
+  // Merge candles into the series and return the stored result
+  merge: (key: string, candles: Candle[], update?: MergeUpdate) => Promise<StoredCandleSeries>;
+}
+
+export interface MergeUpdate {
+  latest?: boolean; // Candles are the newest from the provider (sets fetchedAt)
+  exhausted?: boolean; // No older history exists
+  replace?: boolean; // Drop the stored candles first (they no longer connect)
+}
+
+// Per series; ~70 days of M5
+export const MAX_STORED_CANDLES = 20000;
+
+// Simulated and replayed candles are never cached
+export const isCacheable = (providerId: ProviderId) => providerId !== 'synthetic' && providerId !== 'replay';
+
+export const seriesKey = (providerId: ProviderId, pair: string, timeframe: Timeframe) => `${providerId}:${pair}:${timeframe}`;
+
+const stripIndicators = ({ time, open, high, low, close, spread }: Candle): Candle =>
+  spread === undefined ? { time, open, high, low, close } : { time, open, high, low, close, spread };
+
+/**
+ * Merge by candle time, oldest first. Incoming candles replace stored ones at
+ * the same time (the forming candle gets its final values). Keeps the newest
+ * MAX_STORED_CANDLES.
+ */
+export const mergeCandles = (existing: Candle[], incoming: Candle[]): Candle[] => {
+  const byTime = new Map<number, Candle>();
+  existing.forEach(c => byTime.set(c.time, stripIndicators(c)));
+  incoming.forEach(c => byTime.set(c.time, stripIndicators(c)));
+  return Array.from(byTime.values()).sort((a, b) => a.time - b.time).slice(-MAX_STORED_CANDLES);
+};
+
+// Pure merge step shared by the store backends
+export const mergeSeries = (
+  current: StoredCandleSeries | null | undefined,
+  key: string,
+  candles: Candle[],
+  { latest = false, exhausted, replace = false }: MergeUpdate = {}
+): StoredCandleSeries => {
+  const base = replace ? null : current;
+  return {
+    key,
+    candles: mergeCandles(base?.candles ?? [], candles),
+    fetchedAt: latest ? Date.now() : base?.fetchedAt ?? 0,
+    exhausted: exhausted ?? base?.exhausted ?? false
+  };
+};
+
+// The newest candles were fetched within the current bucket: no need to refetch yet
+export const isFresh = (series: StoredCandleSeries, timeframe: Timeframe, now = Date.now()) =>
+  series.fetchedAt > 0 &&
+  bucketStart(Math.floor(series.fetchedAt / 1000), timeframe) === bucketStart(Math.floor(now / 1000), timeframe);
+
+/**
+ * Store the provider's newest candles. After a long absence they may not
+ * reach back to the stored ones: page back to close the hole, and if that
+ * takes more than maxPages (or the provider cannot page), start the series
+ * over rather than keep a history with a hole in it.
+ */
+export const storeLatest = async (
+  store: CandleStore,
+  provider: MarketDataProvider,
+  pair: string,
+  timeframe: Timeframe,
+  latest: Candle[],
+  { pageSize, maxPages }: { pageSize: number; maxPages: number }
+): Promise<StoredCandleSeries> => {
+  const key = seriesKey(provider.id, pair, timeframe);
+  const stored = await store.load(key);
+  const newest = stored?.candles[stored.candles.length - 1]?.time;
+
+  let candles = latest;
+  for (let page = 0; newest !== undefined && candles.length > 0 && candles[0].time > newest && provider.fetchHistory && page < maxPages; page++) {
+    const oldest = candles[0].time;
+    const older = (await provider.fetchHistory(pair, timeframe, oldest, pageSize)).filter(c => c.time < oldest);
+    if (older.length === 0) break;
+    candles = [...older, ...candles];
+  }
+
+  const connected = newest === undefined || candles.length === 0 || candles[0].time <= newest;
+  return store.merge(key, candles, { latest: true, replace: !connected });
+};
+
+export interface BackfillOptions {
+  target: number; // Stop once the series has this many candles
+  pageSize: number;
+  pauseMs: number; // Between pages, to stay polite to free APIs
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Page back through the provider's history until the series holds `target`
+ * candles or the provider runs out. Saves after every page, so an interrupted
+ * backfill resumes where it stopped.
+ */
+export const backfillSeries = async (
+  store: CandleStore,
+  provider: MarketDataProvider,
+  pair: string,
+  timeframe: Timeframe,
+  { target, pageSize, pauseMs, isCancelled = () => false }: BackfillOptions
+): Promise<StoredCandleSeries | null> => {
+  const key = seriesKey(provider.id, pair, timeframe);
+  let series = await store.load(key);
+  if (!provider.fetchHistory) return series;
+
+  while (!isCancelled() && !series?.exhausted && (series?.candles.length ?? 0) < target) {
+    const oldest = series?.candles[0]?.time ?? Math.floor(Date.now() / 1000);
+    const page = (await provider.fetchHistory(pair, timeframe, oldest, pageSize)).filter(c => c.time < oldest);
+    // An empty page means the start of the provider's history
+    series = await store.merge(key, page, { exhausted: page.length === 0 });
+    if (page.length > 0 && pauseMs > 0) await new Promise(resolve => setTimeout(resolve, pauseMs));
+  }
+  return series;
+};
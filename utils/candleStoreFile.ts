@@ -0,0 +1,34 @@
+import fs from 'fs';
+import path from 'path';
+import { StoredCandleSeries } from '../types';
+import { CandleStore, mergeSeries } from './candleStore';
+
+/**
+ * Candle store for the Node scripts: one JSON file per series in
+ * CANDLE_STORE_DIR (default .candles/). Reads and writes are synchronous,
+ * so a merge is atomic within a process; files are replaced via rename.
+ */
+export const createFileCandleStore = (dir = process.env.CANDLE_STORE_DIR || '.candles'): CandleStore => {
+  const fileFor = (key: string) => path.join(dir, `${key.replace(/[^A-Za-z0-9_-]/g, '_')}.json`);
+
+  const read = (key: string): StoredCandleSeries | null => {
+    try {
+      return JSON.parse(fs.readFileSync(fileFor(key), 'utf8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') console.error("Candle Store Error:", e instanceof Error ? e.message : e);
+      return null;
+    }
+  };
+
+  return {
+    load: async (key) => read(key),
+    merge: async (key, candles, update) => {
+      const series = mergeSeries(read(key), key, candles, update);
+      fs.mkdirSync(dir, { recursive: true });
+      const file = fileFor(key);
+      fs.writeFileSync(`${file}.tmp`, JSON.stringify(series));
+      fs.renameSync(`${file}.tmp`, file);
+      return series;
+    }
+  };
+};
@@ -0,0 +1,10 @@
+import { StoredCandleSeries } from '../types';
+import { STORES, idbGet, idbUpdate } from './db';
+import { CandleStore, mergeSeries } from './candleStore';
+
+// Dashboard candle store (IndexedDB, one record per provider:pair:timeframe)
+export const idbCandleStore: CandleStore = {
+  load: async (key) => (await idbGet<StoredCandleSeries>(STORES.candles, key)) ?? null,
+  merge: (key, candles, update) =>
+    idbUpdate<StoredCandleSeries>(STORES.candles, key, current => mergeSeries(current, key, candles, update))
+};
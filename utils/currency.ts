@@ -0,0 +1,63 @@
+import { INSTRUMENTS, INSTRUMENT_LIST } from './instruments';
+
+/**
+ * CURRENCY CONVERSION
+ *
+ * Price differences are in the pair's quote currency (JPY for USDJPY, GBP for
+ * EURGBP). Everything shown to the trader is converted into the account
+ * currency with live cross rates from the loaded market data, falling back to
+ * the registry reference prices and crossing through USD when there is no
+ * direct pair.
+ */
+
+// Latest price per pair, e.g. { EURUSD: 1.0842 }
+export type PriceMap = Record<string, number>;
+
+const normalizeCurrency = (currency: string) => currency.toUpperCase() === 'USDT' ? 'USD' : currency.toUpperCase();
+
+export const splitPair = (pair: string): { base: string; quote: string } => {
+  const known = INSTRUMENTS[pair];
+  if (known) return { base: known.base, quote: known.quote };
+  const symbol = pair.replace(/[_/]/g, '').toUpperCase();
+  return { base: normalizeCurrency(symbol.slice(0, 3)), quote: normalizeCurrency(symbol.slice(3)) };
+};
+
+const REFERENCE_PRICES: PriceMap = Object.fromEntries(INSTRUMENT_LIST.map(i => [i.symbol, i.referencePrice]));
+
+const directRate = (from: string, to: string, prices: PriceMap): number | null =>
+  prices[from + to] ? prices[from + to] : prices[to + from] ? 1 / prices[to + from] : null;
+
+// Direct pair, else crossed through USD (e.g. CAD -> GBP = CADUSD * USDGBP)
+const crossRate = (from: string, to: string, prices: PriceMap): number | null => {
+  const direct = directRate(from, to, prices);
+  if (direct || from === 'USD' || to === 'USD') return direct;
+  const toUsd = directRate(from, 'USD', prices);
+  const fromUsd = directRate('USD', to, prices);
+  return toUsd && fromUsd ? toUsd * fromUsd : null;
+};
+
+// Value of one unit of `from` in `to`, or null when no route is known
+export const conversionRate = (from: string, to: string, prices: PriceMap = {}): number | null => {
+  from = normalizeCurrency(from);
+  to = normalizeCurrency(to);
+  if (from === to) return 1;
+
+  // Live prices first, then the registry reference levels
+  return crossRate(from, to, prices) ?? crossRate(from, to, { ...REFERENCE_PRICES, ...prices });
+};
+
+// Rate converting the pair's quote currency into the account currency (1 if unknown)
+export const quoteToAccountRate = (pair: string, accountCurrency: string, prices: PriceMap = {}): number => {
+  const rate = conversionRate(splitPair(pair).quote, accountCurrency, prices);
+  if (rate === null) console.warn(`Currency: no conversion rate for ${pair} into ${accountCurrency}, assuming 1`);
+  return rate ?? 1;
+};
+
+// Latest close of every loaded pair
+export const pricesFromCandles = (marketData: Record<string, { close: number }[]>): PriceMap => {
+  const prices: PriceMap = {};
+  Object.entries(marketData).forEach(([pair, candles]) => {
+    if (candles && candles.length > 0) prices[pair] = candles[candles.length - 1].close;
+  });
+  return prices;
+};
@@ -0,0 +1,79 @@
+/**
+ * Minimal promise wrapper around IndexedDB for the dashboard's local data.
+ * Every object store is declared here; bump DB_VERSION when adding one.
+ */
+
+const DB_NAME = 'titansignal';
+const DB_VERSION = 4;
+
+export const STORES = {
+  closedTrades: 'closedTrades',
+  openTrades: 'openTrades',
+  candles: 'candles',
+  signals: 'signals',
+  fixtures: 'fixtures',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.closedTrades)) db.createObjectStore(STORES.closedTrades, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.openTrades)) db.createObjectStore(STORES.openTrades, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.candles)) db.createObjectStore(STORES.candles, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(STORES.signals)) db.createObjectStore(STORES.signals, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORES.fixtures)) db.createObjectStore(STORES.fixtures, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T> | void): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGetAll = <T>(store: StoreName) => run<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbCount = (store: StoreName) => run<number>(store, 'readonly', s => s.count());
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey) => run<T | undefined>(store, 'readonly', s => s.get(key));
+
+// Read-modify-write in one transaction; returns the value written
+export const idbUpdate = async <T>(store: StoreName, key: IDBValidKey, update: (current: T | undefined) => T): Promise<T> => {
+  let next: T | undefined;
+  await run(store, 'readwrite', s => {
+    const request = s.get(key);
+    request.onsuccess = () => {
+      next = update(request.result);
+      s.put(next);
+    };
+  });
+  return next as T;
+};
+
+export const idbPut = <T>(store: StoreName, value: T) => run(store, 'readwrite', s => { s.put(value); });
+
+export const idbPutMany = <T>(store: StoreName, values: T[]) => run(store, 'readwrite', s => { values.forEach(v => s.put(v)); });
+
+export const idbDelete = (store: StoreName, key: IDBValidKey) => run(store, 'readwrite', s => { s.delete(key); });
+
+export const idbDeleteMany = (store: StoreName, keys: IDBValidKey[]) => run(store, 'readwrite', s => { keys.forEach(k => s.delete(k)); });
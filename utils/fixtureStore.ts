@@ -0,0 +1,51 @@
+import { FixtureBundle, ScanFixture } from '../types';
+import { STORES, idbCount, idbDeleteMany, idbGetAll, idbPut } from './db';
+import { seriesKey } from './candleStore';
+import { idbCandleStore } from './candleStoreIdb';
+
+// Persistence for the recorded scan fixtures (IndexedDB); the oldest beyond MAX_FIXTURES are pruned
+const MAX_FIXTURES = 300;
+
+const loadFixtures = async (): Promise<ScanFixture[]> => {
+  const fixtures = await idbGetAll<ScanFixture>(STORES.fixtures);
+  return fixtures.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const pruneFixtures = async () => {
+  const fixtures = await loadFixtures();
+  if (fixtures.length > MAX_FIXTURES) {
+    await idbDeleteMany(STORES.fixtures, fixtures.slice(0, fixtures.length - MAX_FIXTURES).map(f => f.id));
+  }
+};
+
+// The live loop saves a fixture every cycle: evict on write, not just on load
+export const saveFixture = async (fixture: ScanFixture) => {
+  await idbPut(STORES.fixtures, fixture);
+  if (await idbCount(STORES.fixtures) > MAX_FIXTURES) await pruneFixtures();
+};
+
+/**
+ * Every stored fixture plus the stored candles from each fixture's last bar
+ * on, so prompt_eval.js can score the signals against what price did next.
+ */
+export const exportFixtureBundle = async (): Promise<FixtureBundle> => {
+  const fixtures = await loadFixtures();
+  // Earliest snapshot end per provider:pair:timeframe
+  const from = new Map<string, number>();
+  for (const fixture of fixtures) {
+    if (!fixture.providerId) continue;
+    for (const [pair, candles] of Object.entries(fixture.snapshot)) {
+      const last = candles[candles.length - 1];
+      if (!last) continue;
+      const key = seriesKey(fixture.providerId, pair, fixture.timeframe);
+      from.set(key, Math.min(from.get(key) ?? Infinity, last.time));
+    }
+  }
+
+  const series: FixtureBundle['series'] = {};
+  for (const [key, time] of from) {
+    const stored = await idbCandleStore.load(key);
+    if (stored) series[key] = stored.candles.filter(c => c.time >= time);
+  }
+  return { exportedAt: Date.now(), fixtures, series };
+};
@@ -0,0 +1,57 @@
+import { Candle } from '../types';
+
+// Calculate Simple Moving Average (NaN until the window is filled).
+// Running sum: series now hold thousands of stored candles.
+export const calculateSMA = (data: number[], window: number): number[] => {
+  const sma = [];
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    sum += data[i];
+    if (i >= window) sum -= data[i - window];
+    sma.push(i < window - 1 ? NaN : sum / window);
+  }
+  return sma;
+};
+
+// SMA of the last `period` values, or null if there is not enough data
+export const lastSMA = (data: number[], period: number): number | null => {
+  if (data.length < period) return null;
+  const slice = data.slice(-period);
+  return slice.reduce((a, b) => a + b, 0) / period;
+};
+
+// Simple ATR over the last `period` candles (mean true range, no smoothing)
+export const lastATR = (candles: Candle[], period: number): number | null => {
+  if (candles.length < period + 1) return null;
+  let trSum = 0;
+  for (let i = candles.length - period; i < candles.length; i++) {
+    const { high, low } = candles[i];
+    const prevClose = candles[i - 1].close;
+    trSum += Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+  }
+  return trSum / period;
+};
+
+// Attach sma20/sma200 to a candle series (used by every data source)
+export const withIndicators = (candles: Candle[]): Candle[] => {
+  const closes = candles.map(c => c.close);
+  const sma20 = calculateSMA(closes, 20);
+  const sma200 = calculateSMA(closes, 200);
+
+  return candles.map((c, i) => ({
+    ...c,
+    sma20: isNaN(sma20[i]) ? undefined : sma20[i],
+    sma200: isNaN(sma200[i]) ? undefined : sma200[i]
+  }));
+};
+
+// sma20/sma200 of the last candle alone: a live tick only moves the forming candle
+export const lastIndicators = (candles: Candle[]): Pick<Candle, 'sma20' | 'sma200'> => {
+  const mean = (period: number) => {
+    if (candles.length < period) return undefined;
+    let sum = 0;
+    for (let i = candles.length - period; i < candles.length; i++) sum += candles[i].close;
+    return sum / period;
+  };
+  return { sma20: mean(20), sma200: mean(200) };
+};
@@ -0,0 +1,151 @@
+import { Instrument, MarketType, SymbolProvider } from '../types';
+
+/**
+ * INSTRUMENT REGISTRY
+ *
+ * Single source for contract size, pip size, display digits, lot limits, the
+ * typical spread and the symbol each feed uses. Adding an instrument = one line below.
+ * Reference prices reflect 2024/2025 market levels and are only used for
+ * simulated candles and as a fallback conversion rate.
+ */
+
+type Spec = Pick<Instrument, 'symbol' | 'referencePrice'> & Partial<Instrument>;
+
+const split = (symbol: string) => ({ base: symbol.slice(0, 3), quote: symbol.slice(3) });
+
+const forex = ({ symbol, ...spec }: Spec): Instrument => {
+  const { base, quote } = split(symbol);
+  const jpy = quote === 'JPY';
+  return {
+    symbol, base, quote,
+    assetClass: MarketType.FOREX,
+    pipSize: jpy ? 0.01 : 0.0001,
+    digits: jpy ? 3 : 5,
+    contractSize: 100000,
+    minLot: 0.01,
+    lotStep: 0.01,
+    spreadPips: 1.5,
+    aliases: { oanda: `${base}_${quote}` },
+    ...spec
+  };
+};
+
+const metal = ({ symbol, ...spec }: Spec): Instrument => {
+  const { base, quote } = split(symbol);
+  return {
+    symbol, base, quote,
+    assetClass: MarketType.METALS,
+    pipSize: 0.1,
+    digits: 2,
+    contractSize: 100, // 100 oz
+    minLot: 0.01,
+    lotStep: 0.01,
+    spreadPips: 3,
+    aliases: { oanda: `${base}_${quote}` },
+    ...spec
+  };
+};
+
+const crypto = ({ symbol, ...spec }: Spec): Instrument => {
+  const { base, quote } = split(symbol);
+  return {
+    symbol, base, quote,
+    assetClass: MarketType.CRYPTO,
+    pipSize: 1,
+    digits: quote === 'JPY' ? 0 : 2,
+    contractSize: 1,
+    minLot: 0.01,
+    lotStep: 0.01,
+    spreadPips: 20,
+    // Binance quotes USD pairs against USDT
+    aliases: { binance: quote === 'USD' ? `${base}USDT` : symbol },
+    ...spec
+  };
+};
+
+export const INSTRUMENT_LIST: Instrument[] = [
+  // Majors
+  forex({ symbol: 'EURUSD', referencePrice: 1.0550, spreadPips: 0.8 }),
+  forex({ symbol: 'GBPUSD', referencePrice: 1.2650, spreadPips: 1.2 }),
+  forex({ symbol: 'USDJPY', referencePrice: 154.50, spreadPips: 1.0 }),
+  forex({ symbol: 'USDCHF', referencePrice: 0.8850 }),
+  forex({ symbol: 'USDCAD', referencePrice: 1.4050 }),
+  forex({ symbol: 'AUDUSD', referencePrice: 0.6500, spreadPips: 1.0 }),
+  forex({ symbol: 'NZDUSD', referencePrice: 0.5900 }),
+  // Minors
+  forex({ symbol: 'EURJPY', referencePrice: 163.00, spreadPips: 1.4 }),
+  forex({ symbol: 'GBPJPY', referencePrice: 195.50, spreadPips: 2.5 }),
+  forex({ symbol: 'EURGBP', referencePrice: 0.8300, spreadPips: 1.2 }),
+  forex({ symbol: 'EURCAD', referencePrice: 1.4800, spreadPips: 2.2 }),
+  forex({ symbol: 'EURAUD', referencePrice: 1.6200, spreadPips: 2.0 }),
+  forex({ symbol: 'AUDJPY', referencePrice: 100.50 }),
+  forex({ symbol: 'CADJPY', referencePrice: 110.00 }),
+  forex({ symbol: 'CHFJPY', referencePrice: 174.50, spreadPips: 2.5 }),
+  forex({ symbol: 'GBPAUD', referencePrice: 1.9500, spreadPips: 2.8 }),
+  forex({ symbol: 'GBPCAD', referencePrice: 1.7800, spreadPips: 3.0 }),
+  // Metals
+  metal({ symbol: 'XAUUSD', referencePrice: 2650.00 }),
+  metal({ symbol: 'XAUEUR', referencePrice: 2520.00, spreadPips: 5 }),
+  metal({ symbol: 'XAUAUD', referencePrice: 4080.00, spreadPips: 8 }),
+  // Bitcoin pairs (OANDA v20 has no BTC for most account regions)
+  crypto({ symbol: 'BTCUSD', referencePrice: 95000.00 }),
+  crypto({ symbol: 'BTCEUR', referencePrice: 90000.00, spreadPips: 25 }),
+  crypto({ symbol: 'BTCGBP', referencePrice: 75000.00, spreadPips: 30 }),
+  crypto({ symbol: 'BTCJPY', referencePrice: 14600000, spreadPips: 3000 }),
+];
+
+export const INSTRUMENTS: Record<string, Instrument> = Object.fromEntries(
+  INSTRUMENT_LIST.map(instrument => [instrument.symbol, instrument])
+);
+
+// Unlisted symbols (e.g. from a webhook) get a spec guessed from the name
+const guessInstrument = (symbol: string): Instrument => {
+  if (symbol.startsWith('BTC') || symbol.startsWith('ETH')) return crypto({ symbol, referencePrice: 1, aliases: {} });
+  if (symbol.startsWith('XAU')) return metal({ symbol, referencePrice: 1, aliases: {} });
+  return forex({ symbol, referencePrice: 1, aliases: {} });
+};
+
+export const isListed = (pair: string) => !!INSTRUMENTS[pair];
+
+export const getInstrument = (pair: string): Instrument => INSTRUMENTS[pair] ?? guessInstrument(pair);
+
+// Feed symbol for a pair, or undefined when that feed does not carry it
+export const providerSymbol = (pair: string, provider: SymbolProvider): string | undefined =>
+  INSTRUMENTS[pair]?.aliases[provider];
+
+// Dashboard pair for a feed or dashboard symbol (EUR_USD / BTCUSDT -> EURUSD / BTCUSD)
+export const pairFromSymbol = (symbol: string): string => {
+  const upper = symbol.toUpperCase();
+  const listed = INSTRUMENT_LIST.find(i => i.symbol === upper || Object.values(i.aliases).includes(upper));
+  return listed ? listed.symbol : upper.replace(/[_/]/g, '').replace(/USDT$/, 'USD');
+};
+
+// FX and metals close from Friday 21:00 to Sunday 21:00 UTC; crypto trades around the clock
+export const isMarketOpen = (pair: string, timeSec: number) => {
+  if (getInstrument(pair).assetClass === MarketType.CRYPTO) return true;
+  const date = new Date(timeSec * 1000);
+  const day = date.getUTCDay();
+  const hour = date.getUTCHours();
+  if (day === 6) return false;
+  if (day === 5) return hour < 21;
+  if (day === 0) return hour >= 21;
+  return true;
+};
+
+// Round a price to the instrument's display precision
+export const roundPrice = (pair: string, price: number) => parseFloat(price.toFixed(getInstrument(pair).digits));
+
+const stepDecimals = (step: number) => (String(step).split('.')[1] ?? '').length;
+
+// Round lots down to the instrument's lot step
+export const floorLots = (pair: string, lots: number) => {
+  const { lotStep } = getInstrument(pair);
+  // Small epsilon so 0.3 / 0.01 does not floor to 29
+  return parseFloat((Math.floor(lots / lotStep + 1e-9) * lotStep).toFixed(stepDecimals(lotStep)));
+};
+
+// Round lots to the nearest lot step (partial exits)
+export const roundLots = (pair: string, lots: number) => {
+  const { lotStep } = getInstrument(pair);
+  return parseFloat((Math.round(lots / lotStep) * lotStep).toFixed(stepDecimals(lotStep)));
+};
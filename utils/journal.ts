@@ -0,0 +1,166 @@
+import { ClosedTrade, ExitReason, JournalDay, TradingSession } from '../types';
+import { conversionRate, PriceMap } from './currency';
+import { toUnixMs } from './candleAggregator';
+
+// Session by UTC hour: Asia 22:00-07:00, London 07:00-12:00, New York 12:00-22:00
+export const getTradingSession = (timestampMs: number): TradingSession => {
+  const hour = new Date(timestampMs).getUTCHours();
+  if (hour >= 7 && hour < 12) return 'LONDON';
+  if (hour >= 12 && hour < 22) return 'NEW_YORK';
+  return 'ASIA';
+};
+
+// Local calendar date, YYYY-MM-DD
+export const toDateKey = (timestampMs: number): string => {
+  const d = new Date(timestampMs);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+// Inclusive range on the close date; empty bounds are open-ended
+export const filterByDateRange = (trades: ClosedTrade[], from: string, to: string): ClosedTrade[] =>
+  trades.filter(t => {
+    const key = toDateKey(t.closeTime);
+    return (!from || key >= from) && (!to || key <= to);
+  });
+
+// PnL re-expressed in `currency` for totals (trades journaled under another
+// account currency, or before the currency was recorded = USD)
+export const toDisplayCurrency = (trades: ClosedTrade[], currency: string, prices: PriceMap = {}): ClosedTrade[] =>
+  trades.map(t => {
+    const from = t.currency ?? 'USD';
+    return from === currency ? t : { ...t, pnl: t.pnl * (conversionRate(from, currency, prices) ?? 1) };
+  });
+
+/**
+ * Group trades into trading days (newest first) with per-session totals.
+ * The session is taken from the open time when known, else the close time.
+ */
+export const groupByDay = (trades: ClosedTrade[]): JournalDay[] => {
+  const days: Record<string, JournalDay> = {};
+
+  for (const trade of trades) {
+    const date = toDateKey(trade.closeTime);
+    const day = days[date] = days[date] || { date, trades: [], pnl: 0, sessions: {} };
+    const session = getTradingSession(trade.openTime ?? trade.closeTime);
+    const bucket = day.sessions[session] = day.sessions[session] || { trades: 0, pnl: 0 };
+
+    day.trades.push(trade);
+    day.pnl += trade.pnl;
+    bucket.trades++;
+    bucket.pnl += trade.pnl;
+  }
+
+  return Object.values(days)
+    .map(day => ({ ...day, trades: day.trades.sort((a, b) => b.closeTime - a.closeTime) }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+// --- IMPORT / EXPORT ---
+
+const CSV_COLUMNS = ['id', 'pair', 'type', 'entryPrice', 'closePrice', 'lotSize', 'pnl', 'openTime', 'closeTime', 'exitReason', 'positionId', 'currency', 'conversionRate'] as const;
+
+const EXIT_REASONS: ExitReason[] = ['MANUAL', 'SL', 'BREAKEVEN', 'TRAILING', 'TP1', 'TP2', 'TP3'];
+
+// Epoch seconds or ms (below 1e11 is seconds), or a date string
+const parseTimestamp = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const ms = toUnixMs(typeof value === 'number' ? value : String(value));
+  return isNaN(ms) ? undefined : ms;
+};
+
+// Normalise an imported row; null if it is not a usable trade
+const toClosedTrade = (row: Record<string, unknown>): ClosedTrade | null => {
+  const type = String(row.type).toUpperCase();
+  const closeTime = parseTimestamp(row.closeTime);
+  const trade: ClosedTrade = {
+    id: String(row.id || ''),
+    pair: String(row.pair || '').toUpperCase(),
+    type: type === 'SELL' ? 'SELL' : 'BUY',
+    entryPrice: Number(row.entryPrice),
+    closePrice: Number(row.closePrice),
+    lotSize: Number(row.lotSize),
+    pnl: Number(row.pnl),
+    openTime: parseTimestamp(row.openTime),
+    closeTime: closeTime ?? NaN
+  };
+  const exitReason = String(row.exitReason || '').toUpperCase() as ExitReason;
+  if (EXIT_REASONS.includes(exitReason)) trade.exitReason = exitReason;
+  if (row.positionId) trade.positionId = String(row.positionId);
+  if (row.currency) trade.currency = String(row.currency).toUpperCase();
+  const conversionRate = Number(row.conversionRate);
+  if (conversionRate > 0) trade.conversionRate = conversionRate;
+
+  const numeric = [trade.entryPrice, trade.closePrice, trade.lotSize, trade.pnl, trade.closeTime];
+  if (!trade.pair || (type !== 'BUY' && type !== 'SELL') || numeric.some(n => isNaN(n))) return null;
+  if (!trade.id) trade.id = `${trade.pair}-${trade.closeTime}`;
+  return trade;
+};
+
+const csvEscape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const tradesToCSV = (trades: ClosedTrade[]): string => {
+  const rows = trades.map(t => CSV_COLUMNS.map(col => {
+    const value = t[col];
+    if (col === 'openTime' || col === 'closeTime') return value === undefined ? '' : new Date(value as number).toISOString();
+    return value === undefined ? '' : csvEscape(String(value));
+  }).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+export const tradesToJSON = (trades: ClosedTrade[]): string => JSON.stringify(trades, null, 2);
+
+// Split one CSV line, honouring quoted fields
+const splitCSVLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { current += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else current += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(current); current = ''; }
+    else current += ch;
+  }
+  cells.push(current);
+  return cells;
+};
+
+/**
+ * Parse an exported journal (JSON array or CSV with a header row).
+ * Returns the valid trades and how many rows were rejected.
+ */
+export const parseJournalFile = (text: string): { trades: ClosedTrade[]; rejected: number } => {
+  const trimmed = text.trim();
+  let rows: unknown[];
+
+  if (trimmed.startsWith('[')) {
+    rows = JSON.parse(trimmed);
+  } else {
+    const [headerLine, ...lines] = trimmed.split(/\r?\n/);
+    const header = splitCSVLine(headerLine).map(h => h.trim());
+    rows = lines.filter(l => l.trim()).map(line => {
+      const cells = splitCSVLine(line);
+      const row: Record<string, unknown> = {};
+      header.forEach((h, i) => row[h] = cells[i]?.trim());
+      return row;
+    });
+  }
+
+  // null, numbers or nested arrays in a JSON export are rejected rows, not trades
+  const trades = rows
+    .filter((row): row is Record<string, unknown> => row !== null && typeof row === 'object' && !Array.isArray(row))
+    .map(toClosedTrade)
+    .filter((t): t is ClosedTrade => t !== null);
+  return { trades, rejected: rows.length - trades.length };
+};
+
+// Imported trades replace existing ones with the same id
+export const mergeTrades = (existing: ClosedTrade[], imported: ClosedTrade[]): ClosedTrade[] => {
+  const byId = new Map(existing.map(t => [t.id, t]));
+  imported.forEach(t => byId.set(t.id, t));
+  return Array.from(byId.values()).sort((a, b) => a.closeTime - b.closeTime);
+};
@@ -0,0 +1,20 @@
+import { ClosedTrade, Position } from '../types';
+import { STORES, idbGetAll, idbPut, idbPutMany, idbDelete } from './db';
+
+// Persistence for the trade journal and open positions (IndexedDB)
+
+export const loadClosedTrades = async (): Promise<ClosedTrade[]> => {
+  const trades = await idbGetAll<ClosedTrade>(STORES.closedTrades);
+  return trades.sort((a, b) => a.closeTime - b.closeTime);
+};
+
+export const saveClosedTrades = (trades: ClosedTrade[]) => idbPutMany(STORES.closedTrades, trades);
+
+export const loadOpenPositions = async (): Promise<Position[]> => {
+  const positions = await idbGetAll<Position>(STORES.openTrades);
+  return positions.sort((a, b) => a.openTime - b.openTime);
+};
+
+export const saveOpenPosition = (position: Position) => idbPut(STORES.openTrades, position);
+
+export const deleteOpenPosition = (id: string) => idbDelete(STORES.openTrades, id);
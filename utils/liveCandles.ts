@@ -0,0 +1,60 @@
+import { Candle, RelayEvent, Timeframe } from '../types';
+import { bucketStart } from './timeframes';
+import { lastIndicators } from './indicators';
+
+/**
+ * LIVE CANDLES
+ *
+ * Folds relay events into a loaded candle series: a tick updates the forming
+ * candle (or opens the next bucket), a closed candle replaces or appends its
+ * bucket. Returns the input array untouched when the event does not apply,
+ * so callers can skip a state update. Only the last candle's indicators are
+ * recomputed; the earlier candle objects are reused.
+ */
+
+// Series with its last candle replaced (or `candle` appended, dropping the oldest)
+const withLast = (candles: Candle[], candle: Candle, replace: boolean): Candle[] => {
+  const next = replace ? candles.slice(0, -1) : candles.slice(1);
+  next.push(candle);
+  next[next.length - 1] = { ...candle, ...lastIndicators(next) };
+  return next;
+};
+
+const applyTick = (candles: Candle[], time: number, bid: number, ask: number, timeframe: Timeframe): Candle[] => {
+  const last = candles[candles.length - 1];
+  if (!last) return candles;
+
+  const price = (bid + ask) / 2;
+  const spread = ask - bid;
+  const bucket = bucketStart(time, timeframe);
+
+  // Late tick for an older bucket: the REST refresh owns history
+  if (bucket < last.time) return candles;
+
+  if (bucket === last.time) {
+    // Nothing moved: no new series, no re-render
+    if (price === last.close && spread === last.spread) return candles;
+    const forming: Candle = {
+      ...last,
+      high: Math.max(last.high, price),
+      low: Math.min(last.low, price),
+      close: price,
+      spread
+    };
+    return withLast(candles, forming, true);
+  }
+
+  const next: Candle = { time: bucket, open: price, high: price, low: price, close: price, spread };
+  return withLast(candles, next, false);
+};
+
+const applyClosedCandle = (candles: Candle[], candle: Candle): Candle[] => {
+  const last = candles[candles.length - 1];
+  if (!last || candle.time < last.time) return candles;
+  return withLast(candles, candle, candle.time === last.time);
+};
+
+export const applyRelayEvent = (candles: Candle[], event: RelayEvent, timeframe: Timeframe): Candle[] => {
+  if (event.type === 'tick') return applyTick(candles, event.time, event.bid, event.ask, timeframe);
+  return event.timeframe === timeframe ? applyClosedCandle(candles, event.candle) : candles;
+};
@@ -1,131 +1,133 @@
-import { Candle } from '../types';
+import { Candle, MarketDataProvider, ProviderId, Timeframe } from '../types';
+import { withIndicators } from './indicators';
+import { getProvider } from '../services/providers';
+import { RequestPriority, scheduleRequest } from '../services/requestScheduler';
+import { generateSyntheticCandles } from '../services/providers/synthetic';
+import { backfillSeries, isCacheable, isFresh, mergeCandles, seriesKey, storeLatest } from './candleStore';
+import { idbCandleStore } from './candleStoreIdb';
 
-// Map standard pairs to CryptoCompare Symbols (FSYM, TSYM)
-// Updated base prices to reflect more accurate 2024/2025 market levels for fallback scenarios
-const PAIR_MAP: Record<string, { f: string; t: string; base: number }> = {
-  'EURUSD': { f: 'EUR', t: 'USD', base: 1.0550 },
-  'GBPUSD': { f: 'GBP', t: 'USD', base: 1.2650 },
-  'USDJPY': { f: 'USD', t: 'JPY', base: 154.50 },
-  'USDCHF': { f: 'USD', t: 'CHF', base: 0.8850 },
-  'USDCAD': { f: 'USD', t: 'CAD', base: 1.4050 },
-  'AUDUSD': { f: 'AUD', t: 'USD', base: 0.6500 },
-  'NZDUSD': { f: 'NZD', t: 'USD', base: 0.5900 },
-  'EURJPY': { f: 'EUR', t: 'JPY', base: 163.00 },
-  'GBPJPY': { f: 'GBP', t: 'JPY', base: 195.50 },
-  'EURGBP': { f: 'EUR', t: 'GBP', base: 0.8300 },
-  'EURCAD': { f: 'EUR', t: 'CAD', base: 1.4800 },
-  'EURAUD': { f: 'EUR', t: 'AUD', base: 1.6200 },
-  'AUDJPY': { f: 'AUD', t: 'JPY', base: 100.50 },
-  'CADJPY': { f: 'CAD', t: 'JPY', base: 110.00 },
-  'CHFJPY': { f: 'CHF', t: 'JPY', base: 174.50 },
-  'GBPAUD': { f: 'GBP', t: 'AUD', base: 1.9500 },
-  'GBPCAD': { f: 'GBP', t: 'CAD', base: 1.7800 },
-  'XAUUSD': { f: 'XAU', t: 'USD', base: 2650.00 }, // Updated Gold Price
-  'BTCUSD': { f: 'BTC', t: 'USD', base: 95000.00 }
-};
+const CANDLE_LIMIT = 250;
+// Candles kept in memory per pair (chart, analysis, backtests). The store keeps more.
+export const HISTORY_LIMIT = 5000;
+const BACKFILL_PAGE = 500;
+// Pages fetched to reconnect fresh candles to the stored ones after an absence
+const HOLE_PAGES = 4;
 
-// Calculate Simple Moving Average
-const calculateSMA = (data: number[], window: number): number[] => {
-  const sma = [];
-  for (let i = 0; i < data.length; i++) {
-    if (i < window - 1) {
-      sma.push(NaN);
-      continue;
-    }
-    const slice = data.slice(i - window + 1, i + 1);
-    const sum = slice.reduce((a, b) => a + b, 0);
-    sma.push(sum / window);
-  }
-  return sma;
-};
+export interface FetchOptions {
+  // high: selected pair and open positions, normal: scans, low: background loads and backfill
+  priority?: RequestPriority;
+  // Drops requests still waiting for quota (e.g. the pair was deselected)
+  signal?: AbortSignal;
+  // Fall back to simulated candles when the provider fails (default); off, the error is thrown
+  simulate?: boolean;
+}
 
-// Generate realistic looking mock data if API fails
-const generateFallbackData = (pair: string, count: number = 250): Candle[] => {
-  const basePrice = PAIR_MAP[pair]?.base || 1.0000;
-  const candles: Candle[] = [];
-  let currentPrice = basePrice;
-  const now = Math.floor(Date.now() / 1000);
-  const timeStep = 300; // 5 minutes
+const toSeries = (candles: Candle[]) => withIndicators(candles.slice(-HISTORY_LIMIT));
 
-  // Generate history
-  for (let i = count; i > 0; i--) {
-    const time = now - (i * timeStep);
-    const volatility = basePrice * 0.0005; // 0.05% per candle volatility
-    const change = (Math.random() - 0.5) * volatility * 2;
-    
-    const open = currentPrice;
-    const close = open + change;
-    const high = Math.max(open, close) + Math.random() * volatility;
-    const low = Math.min(open, close) - Math.random() * volatility;
+// The provider with every request going through its rate limit budget (services/requestScheduler.ts)
+const scheduled = (provider: MarketDataProvider, { priority = 'normal', signal }: FetchOptions): MarketDataProvider => {
+  // Simulated and replayed candles are generated locally: nothing to rate limit
+  if (!isCacheable(provider.id)) return provider;
+  const { fetchHistory } = provider;
+  return {
+    ...provider,
+    fetchCandles: (pair, timeframe, limit) => scheduleRequest(provider.id, () => provider.fetchCandles(pair, timeframe, limit), {
+      key: `candles:${pair}:${timeframe}:${limit}`, priority, signal
+    }),
+    fetchHistory: fetchHistory && ((pair, timeframe, endTime, limit) => scheduleRequest(provider.id, () => fetchHistory(pair, timeframe, endTime, limit), {
+      key: `history:${pair}:${timeframe}:${endTime}:${limit}`, priority, signal
+    }))
+  };
+};
 
-    candles.push({
-      time,
-      open,
-      high,
-      low,
-      close,
-    });
-    
-    currentPrice = close;
+// Fresh candles merged into the local store; returns the stored history.
+// A store failure never blocks the feed.
+const syncStore = async (provider: MarketDataProvider, pair: string, timeframe: Timeframe, candles: Candle[]): Promise<Candle[]> => {
+  if (!isCacheable(provider.id)) return candles;
+  try {
+    const series = await storeLatest(idbCandleStore, provider, pair, timeframe, candles, { pageSize: BACKFILL_PAGE, maxPages: HOLE_PAGES });
+    return series.candles;
+  } catch (e) {
+    console.error("Candle Store Error:", e);
+    return candles;
   }
-
-  // Calculate indicators
-  const closes = candles.map(c => c.close);
-  const sma20 = calculateSMA(closes, 20);
-  const sma200 = calculateSMA(closes, 200);
-
-  return candles.map((c, i) => ({
-    ...c,
-    sma20: isNaN(sma20[i]) ? undefined : sma20[i],
-    sma200: isNaN(sma200[i]) ? undefined : sma200[i]
-  }));
 };
 
-export const fetchMarketData = async (pair: string, useMT5: boolean = false): Promise<Candle[]> => {
-  const symbols = PAIR_MAP[pair];
-  if (!symbols) {
-    console.warn(`Pair ${pair} not found in map, using fallback.`);
-    return generateFallbackData(pair);
+export const fetchMarketData = async (
+  pair: string,
+  providerId: ProviderId = 'cryptocompare',
+  timeframe: Timeframe = 'M5',
+  options: FetchOptions = {}
+): Promise<Candle[]> => {
+  const provider = scheduled(getProvider(providerId), options);
+  if (!provider.supports(pair)) {
+    if (provider.strict || options.simulate === false) throw new Error(`${pair} is not available on ${provider.label}`);
+    console.warn(`Pair ${pair} not available on ${provider.label}, using fallback.`);
+    return withIndicators(generateSyntheticCandles(pair, timeframe, CANDLE_LIMIT));
   }
 
-  // Fetch M5 candles (5 minutes = aggregate 5 minutes)
   // Using try/catch to gracefully handle API errors/rate limits
-  const url = `https://min-api.cryptocompare.com/data/v2/histominute?fsym=${symbols.f}&tsym=${symbols.t}&limit=250&aggregate=5`;
-
+  let candles: Candle[];
   try {
-    const response = await fetch(url);
-    const json = await response.json();
-
-    if (json.Response !== 'Success' || !json.Data || !json.Data.Data) {
-      // If API returns explicit error (like Rate Limit or Market does not exist), throw to trigger fallback
-      console.warn(`API Error for ${pair}: ${json.Message}`);
-      throw new Error(json.Message || 'API Error');
-    }
-
-    const rawData = json.Data.Data;
-    
-    if (rawData.length === 0) {
-       throw new Error('No data returned');
-    }
-
-    // Extract closes for SMA calc
-    const closes = rawData.map((d: any) => d.close);
-    const sma20 = calculateSMA(closes, 20);
-    const sma200 = calculateSMA(closes, 200);
+    candles = await provider.fetchCandles(pair, timeframe, CANDLE_LIMIT);
+    if (candles.length === 0) throw new Error('No data returned');
+  } catch (e) {
+    // Strict providers (MT5) must never show simulated prices as if they were real; a cancelled request shows nothing
+    if (provider.strict || options.signal?.aborted || options.simulate === false) throw e;
+    console.warn(`Failed to fetch data for ${pair} from ${provider.label} (${e instanceof Error ? e.message : 'Unknown'}). Switching to simulation mode.`);
+    return withIndicators(generateSyntheticCandles(pair, timeframe, CANDLE_LIMIT));
+  }
+  return toSeries(await syncStore(provider, pair, timeframe, candles));
+};
 
-    const candles: Candle[] = rawData.map((d: any, i: number) => ({
-      time: d.time, // Unix timestamp in seconds
-      open: d.open,
-      high: d.high,
-      low: d.low,
-      close: d.close,
-      sma20: isNaN(sma20[i]) ? undefined : sma20[i],
-      sma200: isNaN(sma200[i]) ? undefined : sma200[i]
-    }));
+/**
+ * Last session's candles for instant display, or null. `fresh` means they
+ * were fetched within the current bucket and need no refetch yet.
+ */
+export const loadCachedMarketData = async (
+  pair: string,
+  providerId: ProviderId,
+  timeframe: Timeframe
+): Promise<{ candles: Candle[]; fresh: boolean } | null> => {
+  if (!isCacheable(providerId)) return null;
+  try {
+    const series = await idbCandleStore.load(seriesKey(providerId, pair, timeframe));
+    if (!series || series.candles.length === 0) return null;
+    return { candles: toSeries(series.candles), fresh: isFresh(series, timeframe) };
+  } catch (e) {
+    console.error("Candle Store Error:", e);
+    return null;
+  }
+};
 
-    return candles;
+/**
+ * Page older history into the store until it holds HISTORY_LIMIT candles (or
+ * the provider runs out). Pages go out at low priority, paced by the
+ * provider's budget. Resolves to the stored candles, or null when the
+ * provider cannot page back or the backfill was cancelled.
+ */
+export const backfillMarketData = async (
+  pair: string,
+  providerId: ProviderId,
+  timeframe: Timeframe,
+  signal?: AbortSignal
+): Promise<Candle[] | null> => {
+  const provider = scheduled(getProvider(providerId), { priority: 'low', signal });
+  if (!isCacheable(providerId) || !provider.fetchHistory || !provider.supports(pair)) return null;
+  try {
+    const series = await backfillSeries(idbCandleStore, provider, pair, timeframe, {
+      target: HISTORY_LIMIT,
+      pageSize: BACKFILL_PAGE,
+      pauseMs: 0,
+      isCancelled: () => !!signal?.aborted
+    });
+    return series ? series.candles : null;
   } catch (e) {
-    console.warn(`Failed to fetch data for ${pair} (${e instanceof Error ? e.message : 'Unknown'}). Switching to simulation mode.`);
-    return generateFallbackData(pair);
+    if (signal?.aborted) return null;
+    console.error("Backfill Error:", pair, e);
+    return null;
   }
 };
+
+// Older stored candles under the in-memory series (which may hold a newer forming candle)
+export const extendHistory = (current: Candle[], older: Candle[]) => toSeries(mergeCandles(older, current));
@@ -0,0 +1,65 @@
+import { Candle } from '../types';
+import { lastATR, lastSMA } from './indicators';
+import { getInstrument } from './instruments';
+import { STRATEGY_RULES } from './strategy';
+
+/**
+ * PROMPT MARKET SUMMARY
+ *
+ * One compact block per pair for the model: last close, ATR, distance to
+ * SMA20/SMA200 in ATRs, the latest swing highs/lows and the last N candles.
+ * Prices use the instrument's digits so the model quotes levels at the
+ * right precision. Format (documented in the system instruction):
+ *
+ *   P:EURUSD|C:1.08540|ATR:0.00080|SMA20:1.08500(+0.5)|SMA200:1.08300(+3.0)
+ *   SWH:1.08700,1.08650|SWL:1.08200,1.08350
+ *   L10:1.08500,1.08600,1.08400,1.08550;...
+ */
+
+// A swing high/low is higher/lower than SWING_WING candles on each side
+const SWING_WING = 2;
+const SWINGS_SHOWN = 3;
+// Swings are searched in this many recent candles
+const SWING_LOOKBACK = 60;
+
+// Pivot highs and lows, oldest first
+export const swingPoints = (candles: Candle[], wing = SWING_WING): { highs: number[]; lows: number[] } => {
+  const highs: number[] = [];
+  const lows: number[] = [];
+  for (let i = wing; i < candles.length - wing; i++) {
+    const around = [...candles.slice(i - wing, i), ...candles.slice(i + 1, i + wing + 1)];
+    if (around.every(c => c.high < candles[i].high)) highs.push(candles[i].high);
+    if (around.every(c => c.low > candles[i].low)) lows.push(candles[i].low);
+  }
+  return { highs, lows };
+};
+
+export const summarizePair = (pair: string, candles: Candle[], recentCandles: number): string | null => {
+  if (!candles || candles.length < 3) return null;
+
+  const { digits } = getInstrument(pair);
+  const fmt = (value: number) => value.toFixed(digits);
+  const current = candles[candles.length - 1];
+  const closes = candles.map(c => c.close);
+  const atr = lastATR(candles, STRATEGY_RULES.atrPeriod);
+  const sma20 = current.sma20 ?? lastSMA(closes, STRATEGY_RULES.smaFast);
+  const sma200 = current.sma200 ?? lastSMA(closes, STRATEGY_RULES.smaSlow);
+  // Close minus the average, in ATRs
+  const distance = (sma: number) => atr ? `(${(current.close - sma) / atr >= 0 ? '+' : ''}${((current.close - sma) / atr).toFixed(1)})` : '';
+  const level = (name: string, sma: number | null | undefined) => `${name}:${sma ? `${fmt(sma)}${distance(sma)}` : 'NA'}`;
+
+  const swings = swingPoints(candles.slice(-SWING_LOOKBACK));
+  const recent = candles.slice(-recentCandles);
+
+  return [
+    `P:${pair}|C:${fmt(current.close)}|ATR:${atr ? fmt(atr) : 'NA'}|${level('SMA20', sma20)}|${level('SMA200', sma200)}`,
+    `SWH:${swings.highs.slice(-SWINGS_SHOWN).map(fmt).join(',') || 'NA'}|SWL:${swings.lows.slice(-SWINGS_SHOWN).map(fmt).join(',') || 'NA'}`,
+    `L${recent.length}:${recent.map(c => [c.open, c.high, c.low, c.close].map(fmt).join(',')).join(';')}`
+  ].join('\n');
+};
+
+export const summarizeMarketData = (marketData: Record<string, Candle[]>, recentCandles: number): string =>
+  Object.keys(marketData)
+    .map(pair => summarizePair(pair, marketData[pair], recentCandles))
+    .filter((block): block is string => block !== null)
+    .join('\n--\n');
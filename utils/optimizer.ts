@@ -0,0 +1,261 @@
+import { Candle, BacktestConfig, BacktestResult, BacktestTrade, StrategyParams } from '../types';
+import { runBacktest, summarizeLedger } from './backtest';
+import { STRATEGY_RULES } from './strategy';
+
+/**
+ * STRATEGY OPTIMISER
+ *
+ * Grid or random search over the rules engine constants, scored with the
+ * backtester. `walkForward` re-optimises on rolling in-sample windows and
+ * only trusts the following, unseen out-of-sample window; the parameters
+ * picked per fold show whether the optimum is stable or just curve-fitted.
+ */
+
+export type ParamKey = 'smaFast' | 'smaSlow' | 'atrPeriod' | 'atrMultiplier' | 'sweepLookback' | 'tp1' | 'tp2' | 'tp3';
+export type ParamValues = Partial<Record<ParamKey, number>>;
+export type ParameterSpace = Partial<Record<ParamKey, number[]>>;
+export type Objective = 'expectancyR' | 'sharpe' | 'profitFactor' | 'totalPnL';
+
+export interface OptimiserOptions {
+  search: 'grid' | 'random';
+  samples: number; // Random search only
+  seed: number;
+  objective: Objective;
+  minTrades: number; // Fewer trades scores -Infinity (too little evidence)
+}
+
+export interface Candidate {
+  values: ParamValues;
+  result: BacktestResult;
+  score: number;
+}
+
+export interface WalkForwardOptions extends OptimiserOptions {
+  folds: number;
+  inSampleRatio: number; // Share of each fold window used for optimisation, e.g. 0.7
+}
+
+export interface WalkForwardFold {
+  inSample: { from: number; to: number }; // Unix seconds
+  outOfSample: { from: number; to: number };
+  best: ParamValues;
+  inSampleScore: number;
+  outOfSampleScore: number;
+  outOfSampleResult: BacktestResult;
+}
+
+export interface ParamStability {
+  key: ParamKey;
+  chosen: number[]; // Value picked in each fold
+  mode: number;
+  modeShare: number; // Share of folds that picked the mode
+  coefficientOfVariation: number;
+  stable: boolean;
+}
+
+export interface WalkForwardReport {
+  folds: WalkForwardFold[];
+  stability: ParamStability[];
+  efficiency: number; // Mean out-of-sample score / mean in-sample score (NaN if in-sample <= 0)
+  outOfSample: BacktestResult; // All out-of-sample trades combined
+}
+
+export const DEFAULT_PARAMETER_SPACE: ParameterSpace = {
+  smaFast: [10, 20, 30],
+  smaSlow: [100, 150, 200],
+  atrMultiplier: [1.0, 1.5, 2.0],
+  sweepLookback: [5, 10, 20],
+  tp1: [1.0, 1.5, 2.0],
+};
+
+export const DEFAULT_OPTIMISER_OPTIONS: WalkForwardOptions = {
+  search: 'grid',
+  samples: 50,
+  seed: 42,
+  objective: 'expectancyR',
+  minTrades: 5,
+  folds: 4,
+  inSampleRatio: 0.7,
+};
+
+// Stability thresholds: the same value in most folds, or little spread around the mean
+const STABLE_MODE_SHARE = 0.5;
+const STABLE_MAX_CV = 0.25;
+
+export const toStrategyParams = (values: ParamValues, base: StrategyParams = STRATEGY_RULES): StrategyParams => ({
+  smaFast: values.smaFast ?? base.smaFast,
+  smaSlow: values.smaSlow ?? base.smaSlow,
+  atrPeriod: values.atrPeriod ?? base.atrPeriod,
+  atrMultiplier: values.atrMultiplier ?? base.atrMultiplier,
+  sweepLookback: values.sweepLookback ?? base.sweepLookback,
+  riskReward: {
+    tp1: values.tp1 ?? base.riskReward.tp1,
+    tp2: values.tp2 ?? base.riskReward.tp2,
+    tp3: values.tp3 ?? base.riskReward.tp3,
+  },
+});
+
+const isValid = (params: StrategyParams) =>
+  params.smaFast < params.smaSlow &&
+  params.riskReward.tp1 <= params.riskReward.tp2 &&
+  params.riskReward.tp2 <= params.riskReward.tp3;
+
+// Every combination of the space (cartesian product)
+export const gridSearch = (space: ParameterSpace): ParamValues[] =>
+  (Object.keys(space) as ParamKey[]).reduce<ParamValues[]>(
+    (combos, key) => combos.flatMap(combo => space[key]!.map(value => ({ ...combo, [key]: value }))),
+    [{}]
+  );
+
+// Seeded PRNG (mulberry32) so a random search can be reproduced
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const randomSearch = (space: ParameterSpace, samples: number, seed: number): ParamValues[] => {
+  const random = createRandom(seed);
+  const seen = new Set<string>();
+  const combos: ParamValues[] = [];
+  const total = gridSearch(space).length;
+
+  while (combos.length < Math.min(samples, total)) {
+    const combo: ParamValues = {};
+    (Object.keys(space) as ParamKey[]).forEach(key => {
+      const options = space[key]!;
+      combo[key] = options[Math.floor(random() * options.length)];
+    });
+    const id = JSON.stringify(combo);
+    if (seen.has(id)) continue;
+    seen.add(id);
+    combos.push(combo);
+  }
+  return combos;
+};
+
+const scoreResult = (result: BacktestResult, options: OptimiserOptions) =>
+  result.trades < options.minTrades ? -Infinity : result[options.objective];
+
+// Longest warm-up any combination needs before its first trade
+const maxWarmup = (space: ParameterSpace) => Math.max(STRATEGY_RULES.smaSlow, ...(space.smaSlow || [])) - 1;
+
+// Backtest only the bars in [from, to) but warm the indicators up on earlier bars
+const backtestRange = (candles: Candle[], from: number, to: number, config: BacktestConfig, params: StrategyParams) =>
+  runBacktest(candles.slice(from - (params.smaSlow - 1), to), { ...config, params });
+
+const optimiseRange = (
+  candles: Candle[],
+  from: number,
+  to: number,
+  config: BacktestConfig,
+  space: ParameterSpace,
+  options: OptimiserOptions
+): Candidate[] => {
+  const combos = options.search === 'grid' ? gridSearch(space) : randomSearch(space, options.samples, options.seed);
+  const candidates: Candidate[] = [];
+
+  for (const values of combos) {
+    const params = toStrategyParams(values, config.params);
+    if (!isValid(params)) continue;
+    const result = backtestRange(candles, from, to, config, params);
+    candidates.push({ values, result, score: scoreResult(result, options) });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Rank every parameter combination on the whole history (in-sample only).
+ */
+export const optimise = (
+  candles: Candle[],
+  config: BacktestConfig,
+  space: ParameterSpace = DEFAULT_PARAMETER_SPACE,
+  options: OptimiserOptions = DEFAULT_OPTIMISER_OPTIONS
+): Candidate[] => {
+  const warmup = maxWarmup(space);
+  if (candles.length <= warmup + 1) return [];
+  return optimiseRange(candles, warmup, candles.length, config, space, options);
+};
+
+export const parameterStability = (folds: WalkForwardFold[], space: ParameterSpace): ParamStability[] =>
+  (Object.keys(space) as ParamKey[]).map(key => {
+    const chosen = folds.map(f => f.best[key]!).filter(v => v !== undefined);
+    const counts = new Map<number, number>();
+    chosen.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+    const [mode, modeCount] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] || [NaN, 0];
+
+    const avg = chosen.reduce((a, b) => a + b, 0) / (chosen.length || 1);
+    const stdDev = Math.sqrt(chosen.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (chosen.length || 1));
+    const coefficientOfVariation = avg !== 0 ? stdDev / Math.abs(avg) : 0;
+    const modeShare = chosen.length > 0 ? modeCount / chosen.length : 0;
+
+    return {
+      key,
+      chosen,
+      mode,
+      modeShare,
+      coefficientOfVariation,
+      stable: modeShare > STABLE_MODE_SHARE || coefficientOfVariation <= STABLE_MAX_CV
+    };
+  });
+
+/**
+ * Rolling walk-forward: each fold optimises on its in-sample window and
+ * scores the winner on the next `1 - inSampleRatio` share of bars.
+ */
+export const walkForward = (
+  candles: Candle[],
+  config: BacktestConfig,
+  space: ParameterSpace = DEFAULT_PARAMETER_SPACE,
+  options: WalkForwardOptions = DEFAULT_OPTIMISER_OPTIONS
+): WalkForwardReport => {
+  const warmup = maxWarmup(space);
+  const usable = candles.length - warmup;
+  // folds * outOfSample + inSample = usable, inSample = outOfSample * r / (1 - r)
+  const outOfSampleBars = Math.floor(usable / (options.folds + options.inSampleRatio / (1 - options.inSampleRatio)));
+  const inSampleBars = Math.floor(outOfSampleBars * options.inSampleRatio / (1 - options.inSampleRatio));
+
+  if (outOfSampleBars < 2 || inSampleBars < 2) {
+    throw new Error(`Not enough history for ${options.folds} folds: ${candles.length} candles, ${warmup} needed for warm-up`);
+  }
+
+  const folds: WalkForwardFold[] = [];
+  const outOfSampleLedger: BacktestTrade[] = [];
+
+  for (let f = 0; f < options.folds; f++) {
+    const isFrom = warmup + f * outOfSampleBars;
+    const isTo = isFrom + inSampleBars;
+    const oosTo = Math.min(isTo + outOfSampleBars, candles.length);
+
+    const ranked = optimiseRange(candles, isFrom, isTo, config, space, options);
+    if (ranked.length === 0) continue;
+    const best = ranked[0];
+
+    const oosResult = backtestRange(candles, isTo, oosTo, config, toStrategyParams(best.values, config.params));
+    outOfSampleLedger.push(...oosResult.ledger);
+
+    folds.push({
+      inSample: { from: candles[isFrom].time, to: candles[isTo - 1].time },
+      outOfSample: { from: candles[isTo].time, to: candles[oosTo - 1].time },
+      best: best.values,
+      inSampleScore: best.score,
+      outOfSampleScore: scoreResult(oosResult, options),
+      outOfSampleResult: oosResult
+    });
+  }
+
+  // Folds with too few trades score -Infinity and would poison the averages
+  const finite = folds.filter(f => isFinite(f.inSampleScore) && isFinite(f.outOfSampleScore));
+  const meanIS = finite.reduce((sum, f) => sum + f.inSampleScore, 0) / (finite.length || 1);
+  const meanOOS = finite.reduce((sum, f) => sum + f.outOfSampleScore, 0) / (finite.length || 1);
+
+  return {
+    folds,
+    stability: parameterStability(folds, space),
+    efficiency: meanIS > 0 ? meanOOS / meanIS : NaN,
+    outOfSample: summarizeLedger(outOfSampleLedger, config.startingBalance, candles[warmup + inSampleBars].time)
+  };
+};
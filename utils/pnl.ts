@@ -0,0 +1,26 @@
+import { Position } from '../types';
+import { getInstrument } from './instruments';
+import { PriceMap, quoteToAccountRate } from './currency';
+
+export const calculatePnL = (
+  type: 'BUY' | 'SELL',
+  entryPrice: number,
+  currentPrice: number,
+  lotSize: number,
+  contractSize: number
+): number => {
+  const direction = type === 'BUY' ? 1 : -1;
+  return (currentPrice - entryPrice) * (lotSize * contractSize) * direction;
+};
+
+// In the pair's quote currency (JPY for USDJPY)
+export const positionQuotePnL = (position: Position, currentPrice: number): number =>
+  calculatePnL(position.type, position.entryPrice, currentPrice, position.lotSize, getInstrument(position.pair).contractSize);
+
+// Quote -> account rate at `currentPrice` (the pair's own price converts USDJPY for a USD account)
+export const accountRateAt = (pair: string, currentPrice: number, accountCurrency: string, prices: PriceMap = {}) =>
+  quoteToAccountRate(pair, accountCurrency, { ...prices, [pair]: currentPrice });
+
+// In the account currency
+export const positionPnL = (position: Position, currentPrice: number, accountCurrency: string, prices: PriceMap = {}): number =>
+  positionQuotePnL(position, currentPrice) * accountRateAt(position.pair, currentPrice, accountCurrency, prices);
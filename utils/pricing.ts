@@ -0,0 +1,44 @@
+import { Candle } from '../types';
+import { getInstrument } from './instruments';
+
+/**
+ * BID / ASK PRICING
+ *
+ * Candles are mid prices. When the feed supplies it, candle.spread is the
+ * ask - bid at the close; otherwise the spread model is used: a per-pair
+ * override in pips, else the instrument's typical spread.
+ * BUYs open at the ask and close at the bid, SELLs the reverse.
+ */
+
+export interface Quote {
+  bid: number;
+  ask: number;
+}
+
+// Pips by pair, e.g. { EURUSD: 0.6 }
+export type SpreadOverrides = Record<string, number>;
+
+export const modelSpreadPips = (pair: string, overrides: SpreadOverrides = {}) =>
+  overrides[pair] ?? getInstrument(pair).spreadPips;
+
+// Spread in price units
+export const modelSpread = (pair: string, overrides: SpreadOverrides = {}) =>
+  modelSpreadPips(pair, overrides) * getInstrument(pair).pipSize;
+
+export const candleSpread = (pair: string, candle: Candle | undefined, overrides: SpreadOverrides = {}) =>
+  candle?.spread ?? modelSpread(pair, overrides);
+
+export const quoteAt = (mid: number, spread: number): Quote => ({ bid: mid - spread / 2, ask: mid + spread / 2 });
+
+export const openPrice = (type: 'BUY' | 'SELL', quote: Quote) => type === 'BUY' ? quote.ask : quote.bid;
+
+export const closePrice = (type: 'BUY' | 'SELL', quote: Quote) => type === 'BUY' ? quote.bid : quote.ask;
+
+// Offset from mid of the side a position closes on (BUY: bid = mid - spread / 2)
+export const closeSideOffset = (type: 'BUY' | 'SELL', spread: number) => type === 'BUY' ? -spread / 2 : spread / 2;
+
+// Bid/ask at the close of the last candle, or null before any data
+export const latestQuote = (pair: string, candles: Candle[] | undefined, overrides: SpreadOverrides = {}): Quote | null => {
+  const last = candles?.[candles.length - 1];
+  return last ? quoteAt(last.close, candleSpread(pair, last, overrides)) : null;
+};
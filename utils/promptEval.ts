@@ -0,0 +1,138 @@
+import { Candle, FixtureBundle, PromptVersion, ScanFixture, SignalData, SignalOutcome, TokenUsage } from '../types';
+import { withIndicators } from './indicators';
+import { seriesKey } from './candleStore';
+import { validateSignal } from './signalValidation';
+import { createSignalRecord, evaluateSignal, isHit } from './signalHistory';
+import { parseModelJson } from '../services/analysis/model';
+
+/**
+ * OFFLINE PROMPT EVALUATION
+ *
+ * A recorded scan (fixture) is replayed through a prompt version: its
+ * snapshot is rebuilt into that version's prompt, the reply (recorded or
+ * stubbed, supplied by the caller) is parsed and validated as in the
+ * dashboard, and the resulting signal is followed on the candles after the
+ * snapshot with the signal history rules (utils/signalHistory.ts).
+ * R is taken at the highest target reached, -1 at the stop and 0 on expiry.
+ */
+
+export type ReplySource = 'recorded' | 'stub' | 'live';
+
+export interface EvalCase {
+  promptVersion: string;
+  fixtureId: string;
+  source: ReplySource | null; // null: no reply for this version
+  error: string | null; // Missing reply or unparseable JSON
+  signal: SignalData | null;
+  outcome: SignalOutcome | null; // null: nothing executable to follow
+  r: number | null; // null while open
+  usage: TokenUsage;
+}
+
+export interface PromptVersionReport {
+  promptVersion: string;
+  cases: number;
+  replies: number;
+  errors: number; // Replies that could not be parsed
+  noSignal: number;
+  rejected: number;
+  repaired: number;
+  trades: number; // Executable BUY/SELL
+  open: number;
+  resolved: number;
+  hits: number; // Reached at least TP1
+  stops: number;
+  expired: number;
+  hitRate: number; // hits / resolved, 0-100
+  totalR: number;
+  avgR: number; // Per resolved trade
+  tokens: number;
+}
+
+const NO_USAGE: TokenUsage = { prompt: 0, output: 0, thinking: 0, total: 0 };
+
+// The snapshot with the indicators the dashboard had when it built the prompt
+export const replayMarketData = (fixture: ScanFixture): Record<string, Candle[]> =>
+  Object.fromEntries(Object.entries(fixture.snapshot).map(([pair, candles]) => [pair, withIndicators(candles)]));
+
+export const buildReplayPrompt = (version: PromptVersion, fixture: ScanFixture) =>
+  version.buildPrompt(replayMarketData(fixture), fixture.timeframe, fixture.recentCandles);
+
+// Snapshot plus the bundle's candles after it, for following a signal on `pair`
+export const candlesAfter = (bundle: FixtureBundle, fixture: ScanFixture, pair: string): Candle[] => {
+  const snapshot = fixture.snapshot[pair] ?? [];
+  const last = snapshot[snapshot.length - 1]?.time ?? 0;
+  const later = fixture.providerId ? bundle.series[seriesKey(fixture.providerId, pair, fixture.timeframe)] ?? [] : [];
+  return [...snapshot, ...later.filter(c => c.time > last)];
+};
+
+const rMultiple = (signal: SignalData, outcome: SignalOutcome): number | null => {
+  const risk = Math.abs(signal.entry_price - signal.stop_loss);
+  if (outcome === 'OPEN' || outcome === 'REJECTED' || risk === 0) return null;
+  if (outcome === 'SL') return -1;
+  if (outcome === 'EXPIRED') return 0;
+  const target = { TP1: signal.tp1, TP2: signal.tp2, TP3: signal.tp3 }[outcome];
+  return Math.abs(target - signal.entry_price) / risk;
+};
+
+export const scoreReply = (
+  bundle: FixtureBundle,
+  version: PromptVersion,
+  fixture: ScanFixture,
+  reply: { text: string; source: ReplySource; usage: TokenUsage } | null
+): EvalCase => {
+  const base = { promptVersion: version.id, fixtureId: fixture.id, source: reply?.source ?? null, usage: reply?.usage ?? NO_USAGE };
+  if (!reply) return { ...base, error: 'No reply', signal: null, outcome: null, r: null };
+
+  let signal: SignalData;
+  try {
+    signal = validateSignal({ ...(parseModelJson(reply.text) as object), source: 'AI' }, replayMarketData(fixture), fixture.timeframe);
+  } catch (e) {
+    return { ...base, error: e instanceof Error ? e.message : String(e), signal: null, outcome: null, r: null };
+  }
+
+  const record = createSignalRecord(signal, {
+    mode: 'SCAN',
+    providerId: fixture.providerId ?? 'synthetic',
+    timeframe: fixture.timeframe,
+    marketData: fixture.snapshot
+  });
+  // NO_SIGNAL, or REJECTED (counted above from the validation status): nothing to follow
+  if (!record || record.outcome === 'REJECTED') return { ...base, error: null, signal, outcome: null, r: null };
+
+  // Recorded history: the last candle is closed too
+  const { outcome } = evaluateSignal(record, candlesAfter(bundle, fixture, signal.best_pair), false);
+  return { ...base, error: null, signal, outcome, r: rMultiple(signal, outcome) };
+};
+
+export const summarizeEval = (cases: EvalCase[]): PromptVersionReport[] => {
+  const reports = new Map<string, PromptVersionReport>();
+  for (const c of cases) {
+    const report = reports.get(c.promptVersion) ?? {
+      promptVersion: c.promptVersion, cases: 0, replies: 0, errors: 0, noSignal: 0, rejected: 0, repaired: 0,
+      trades: 0, open: 0, resolved: 0, hits: 0, stops: 0, expired: 0, hitRate: 0, totalR: 0, avgR: 0, tokens: 0
+    };
+    report.cases++;
+    report.tokens += c.usage.total;
+    if (c.source) report.replies++;
+    if (c.source && c.error) report.errors++;
+    if (c.signal?.signal === 'NO_SIGNAL') report.noSignal++;
+    if (c.signal?.validation?.status === 'REJECTED') report.rejected++;
+    if (c.signal?.validation?.status === 'REPAIRED') report.repaired++;
+    if (c.outcome) {
+      report.trades++;
+      if (c.outcome === 'OPEN') report.open++;
+      else report.resolved++;
+      if (isHit(c.outcome)) report.hits++;
+      if (c.outcome === 'SL') report.stops++;
+      if (c.outcome === 'EXPIRED') report.expired++;
+      report.totalR += c.r ?? 0;
+    }
+    reports.set(c.promptVersion, report);
+  }
+  return Array.from(reports.values()).map(report => ({
+    ...report,
+    hitRate: report.resolved > 0 ? (report.hits / report.resolved) * 100 : 0,
+    avgR: report.resolved > 0 ? report.totalR / report.resolved : 0
+  }));
+};
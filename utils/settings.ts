@@ -0,0 +1,75 @@
+import { AccountSettings, AlertSettings, AnalysisBackendId, OandaSettings, ScanSettings, TradeManagementSettings } from '../types';
+import { CURRENT_PROMPT_VERSION } from '../services/analysis/prompts';
+
+/**
+ * User settings persisted in localStorage. Each group has a key and defaults;
+ * stored values are merged over the defaults so new fields appear automatically.
+ */
+
+const PREFIX = 'titansignal:';
+
+export const loadSettings = <T extends object>(key: string, defaults: T): T => {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw ? { ...defaults, ...JSON.parse(raw) } : defaults;
+  } catch (e) {
+    return defaults;
+  }
+};
+
+export const saveSettings = <T extends object>(key: string, value: T) => {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.error("Settings Store Error:", e);
+  }
+};
+
+export const TRADE_MANAGEMENT_KEY = 'tradeManagement';
+
+export const DEFAULT_TRADE_MANAGEMENT: TradeManagementSettings = {
+  partialClosePercent: { tp1: 50, tp2: 30 },
+  moveToBreakEven: true,
+  trailingStop: { enabled: false, atrPeriod: 14, atrMultiplier: 2.0 },
+};
+
+export const BACKTEST_KEY = 'backtest';
+
+export const ACCOUNT_KEY = 'account';
+
+export const DEFAULT_ACCOUNT: AccountSettings = {
+  balance: 10000,
+  currency: 'USD',
+  riskPercent: 1,
+  maxLot: 5,
+};
+
+export const SCAN_KEY = 'scan';
+
+export const DEFAULT_SCAN: ScanSettings = {
+  backend: 'gemini',
+  batchSize: 6,
+  recentCandles: 10,
+  promptVersion: CURRENT_PROMPT_VERSION,
+};
+
+// Model, temperature and timeout are kept per analysis backend
+export const analysisBackendKey = (id: AnalysisBackendId) => `analysisBackend:${id}`;
+
+export const ALERTS_KEY = 'alerts';
+
+export const DEFAULT_ALERTS: AlertSettings = {
+  enabled: false,
+  minStrength: 80,
+  cooldownMinutes: 30,
+  desktop: true,
+  sound: true,
+  webhooks: [],
+};
+
+// Entered in the dashboard, so the token is never built into the bundle
+export const OANDA_KEY = 'oanda';
+
+export const DEFAULT_OANDA: OandaSettings = {
+  apiKey: '',
+};
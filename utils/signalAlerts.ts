@@ -0,0 +1,72 @@
+import { AlertSettings, AlertWebhook, SignalData } from '../types';
+import { getInstrument } from './instruments';
+
+/**
+ * SIGNAL ALERTS
+ *
+ * Which live signals alert and what the alert says. A BUY/SELL at or above
+ * the strength threshold alerts once per pair and timeframe; the live loop
+ * re-scanning the same setup stays quiet until the direction changes or the
+ * cooldown has passed. Delivery (desktop, sound, webhooks) is in
+ * services/alerts.ts.
+ */
+
+// Last alert per pair and timeframe
+export interface SentAlert {
+  signal: SignalData['signal'];
+  sentAt: number; // ms
+}
+
+export const alertKey = (signal: SignalData) => `${signal.best_pair}:${signal.timeframe}`;
+
+export const isAlertable = (signal: SignalData, settings: AlertSettings) =>
+  settings.enabled &&
+  signal.signal !== 'NO_SIGNAL' &&
+  signal.validation?.status !== 'REJECTED' &&
+  signal.strength_score >= settings.minStrength;
+
+export const shouldAlert = (signal: SignalData, settings: AlertSettings, previous: SentAlert | undefined, now = Date.now()) =>
+  isAlertable(signal, settings) &&
+  (!previous || previous.signal !== signal.signal || now - previous.sentAt >= settings.cooldownMinutes * 60 * 1000);
+
+export const alertTitle = (signal: SignalData) =>
+  `${signal.best_pair} ${signal.signal} (${signal.timeframe}) · strength ${signal.strength_score}`;
+
+export const alertText = (signal: SignalData) => {
+  const { digits } = getInstrument(signal.best_pair);
+  const fmt = (price: number) => price.toFixed(digits);
+  return [
+    `TitanSignal: ${alertTitle(signal)}`,
+    `Entry ${fmt(signal.entry_price)} · SL ${fmt(signal.stop_loss)} · TP ${[signal.tp1, signal.tp2, signal.tp3].map(fmt).join(' / ')}`,
+    signal.reason,
+  ].join('\n');
+};
+
+// JSON body of the POST for a webhook's template
+export const webhookBody = (webhook: AlertWebhook, signal: SignalData): object => {
+  switch (webhook.template) {
+    case 'telegram':
+      return { chat_id: webhook.chatId ?? '', text: alertText(signal), disable_web_page_preview: true };
+    case 'discord':
+      return { username: 'TitanSignal', content: alertText(signal) };
+    default:
+      return {
+        event: 'signal',
+        pair: signal.best_pair,
+        timeframe: signal.timeframe,
+        signal: signal.signal,
+        trend: signal.trend,
+        entry_price: signal.entry_price,
+        stop_loss: signal.stop_loss,
+        tp1: signal.tp1,
+        tp2: signal.tp2,
+        tp3: signal.tp3,
+        strength_score: signal.strength_score,
+        reason: signal.reason,
+        source: signal.source ?? 'AI',
+        validation: signal.validation?.status ?? null,
+        text: alertText(signal),
+        sent_at: new Date().toISOString(),
+      };
+  }
+};
@@ -0,0 +1,167 @@
+import { Candle, ProviderId, SignalData, SignalOutcome, SignalRecord, Timeframe } from '../types';
+import { candleSpread, closeSideOffset } from './pricing';
+
+/**
+ * SIGNAL HISTORY
+ *
+ * Every BUY/SELL the engine suggests is recorded with what it saw, then
+ * followed on the candles after it: the highest TP reached before the stop,
+ * the stop itself, or expiry after SIGNAL_EXPIRY_BARS. Levels trigger on the
+ * closing side (bid for a BUY, ask for a SELL), stop first when a bar touches
+ * both, as in the backtester. Only closed candles count, so a record is
+ * evaluated once per bar and never on a forming candle's partial range.
+ * Model signals that failed validation are recorded as REJECTED: counted,
+ * but neither followed nor part of the hit rate.
+ */
+
+// Same horizon as the backtester's default time stop
+export const SIGNAL_EXPIRY_BARS = 50;
+const SNAPSHOT_BARS = 30;
+
+interface RecordContext {
+  mode: SignalRecord['mode'];
+  providerId: ProviderId;
+  timeframe: Timeframe;
+  marketData: Record<string, Candle[]>; // What the scan was given
+}
+
+export const createSignalRecord = (signal: SignalData, { mode, providerId, timeframe, marketData }: RecordContext): SignalRecord | null => {
+  if (signal.signal === 'NO_SIGNAL') return null;
+  const createdAt = Date.now();
+  const snapshot = (marketData[signal.best_pair] ?? []).slice(-SNAPSHOT_BARS);
+  // No candles for the pair: start from now
+  const signalTime = snapshot[snapshot.length - 1]?.time ?? Math.floor(createdAt / 1000);
+
+  return {
+    id: `${createdAt}-${signal.best_pair}`,
+    createdAt,
+    mode,
+    source: signal.source ?? 'AI',
+    providerId,
+    timeframe,
+    signal,
+    scannedPairs: Object.keys(marketData),
+    snapshot,
+    signalTime,
+    evaluatedTo: signalTime,
+    bars: 0,
+    targetsHit: 0,
+    // Never offered for execution: nothing to follow
+    outcome: signal.validation?.status === 'REJECTED' ? 'REJECTED' : 'OPEN'
+  };
+};
+
+// The live loop repeats its signal every cycle: one record per pair, direction and bar
+export const isDuplicateSignal = (history: SignalRecord[], record: SignalRecord) =>
+  history.some(r =>
+    r.signal.best_pair === record.signal.best_pair &&
+    r.signal.signal === record.signal.signal &&
+    r.providerId === record.providerId &&
+    r.timeframe === record.timeframe &&
+    r.signalTime === record.signalTime
+  );
+
+const finalOutcome = (targetsHit: number, fallback: SignalOutcome): SignalOutcome =>
+  targetsHit > 0 ? `TP${targetsHit}` as SignalOutcome : fallback;
+
+/**
+ * Advance an open record over the closed candles after its last evaluated
+ * bar. Returns the same object when nothing changed. Live series end in the
+ * forming candle, which is skipped; pass lastIsForming = false for history
+ * where every candle is closed.
+ */
+export const evaluateSignal = (record: SignalRecord, candles: Candle[], lastIsForming = true): SignalRecord => {
+  if (record.outcome !== 'OPEN') return record;
+  const { best_pair: pair, signal: type, stop_loss: stopLoss } = record.signal;
+  if (type === 'NO_SIGNAL') return record;
+  // A zero/missing level from the model is never "hit"
+  const targets = [record.signal.tp1, record.signal.tp2, record.signal.tp3];
+  const touched = (level: number, low: number, high: number, above: boolean) =>
+    level > 0 && (above ? high >= level : low <= level);
+
+  const closed = (lastIsForming ? candles.slice(0, -1) : candles).filter(c => c.time > record.evaluatedTo);
+  if (closed.length === 0) return record;
+
+  let { bars, targetsHit } = record;
+  for (const bar of closed) {
+    bars++;
+    const offset = closeSideOffset(type, candleSpread(pair, bar));
+    const low = bar.low + offset;
+    const high = bar.high + offset;
+
+    if (touched(stopLoss, low, high, type === 'SELL')) {
+      return { ...record, evaluatedTo: bar.time, bars, targetsHit, outcome: finalOutcome(targetsHit, 'SL'), resolvedAt: bar.time };
+    }
+    targets.forEach((level, i) => {
+      if (touched(level, low, high, type === 'BUY')) targetsHit = Math.max(targetsHit, i + 1);
+    });
+    if (targetsHit === 3 || bars >= SIGNAL_EXPIRY_BARS) {
+      return { ...record, evaluatedTo: bar.time, bars, targetsHit, outcome: finalOutcome(targetsHit, 'EXPIRED'), resolvedAt: bar.time };
+    }
+  }
+  return { ...record, evaluatedTo: closed[closed.length - 1].time, bars, targetsHit };
+};
+
+/**
+ * Evaluate the open records that belong to these candles (same provider and
+ * timeframe). `changed` holds the records to persist.
+ */
+export const applyOutcomes = (
+  history: SignalRecord[],
+  providerId: ProviderId,
+  timeframe: Timeframe,
+  candlesByPair: Record<string, Candle[]>
+): { history: SignalRecord[]; changed: SignalRecord[] } => {
+  const changed: SignalRecord[] = [];
+  const next = history.map(record => {
+    const candles = candlesByPair[record.signal.best_pair];
+    if (record.outcome !== 'OPEN' || !candles || record.providerId !== providerId || record.timeframe !== timeframe) return record;
+    const evaluated = evaluateSignal(record, candles);
+    if (evaluated !== record) changed.push(evaluated);
+    return evaluated;
+  });
+  return { history: changed.length > 0 ? next : history, changed };
+};
+
+export const isHit = (outcome: SignalOutcome) => outcome === 'TP1' || outcome === 'TP2' || outcome === 'TP3';
+
+export const strengthBucket = (score: number) => {
+  if (score >= 90) return '90-100';
+  if (score < 60) return '<60';
+  const low = Math.floor(score / 10) * 10;
+  return `${low}-${low + 9}`;
+};
+
+export interface SignalStats {
+  key: string;
+  signals: number;
+  open: number;
+  rejected: number; // Failed validation; outside open/resolved and the hit rate
+  resolved: number;
+  hits: number; // Reached at least TP1
+  tp: [number, number, number]; // Reached TP1 / TP2 / TP3 (cumulative)
+  stops: number;
+  expired: number;
+  hitRate: number; // hits / resolved, 0-100
+}
+
+// Hit rates per group (pair, direction, strength bucket), largest groups first
+export const summarizeSignals = (history: SignalRecord[], groupOf: (record: SignalRecord) => string): SignalStats[] => {
+  const groups = new Map<string, SignalStats>();
+  for (const record of history) {
+    const key = groupOf(record);
+    const stats = groups.get(key) ?? { key, signals: 0, open: 0, rejected: 0, resolved: 0, hits: 0, tp: [0, 0, 0], stops: 0, expired: 0, hitRate: 0 };
+    stats.signals++;
+    if (record.outcome === 'OPEN') stats.open++;
+    else if (record.outcome === 'REJECTED') stats.rejected++;
+    else stats.resolved++;
+    if (isHit(record.outcome)) stats.hits++;
+    if (record.outcome === 'SL') stats.stops++;
+    if (record.outcome === 'EXPIRED') stats.expired++;
+    for (let i = 0; i < record.targetsHit && record.outcome !== 'OPEN'; i++) stats.tp[i]++;
+    groups.set(key, stats);
+  }
+  return Array.from(groups.values())
+    .map(stats => ({ ...stats, hitRate: stats.resolved > 0 ? (stats.hits / stats.resolved) * 100 : 0 }))
+    .sort((a, b) => b.signals - a.signals || a.key.localeCompare(b.key));
+};
@@ -0,0 +1,11 @@
+import { SignalRecord } from '../types';
+import { STORES, idbGetAll, idbPutMany } from './db';
+
+// Persistence for the signal history (IndexedDB)
+
+export const loadSignalHistory = async (): Promise<SignalRecord[]> => {
+  const records = await idbGetAll<SignalRecord>(STORES.signals);
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveSignalRecords = (records: SignalRecord[]) => idbPutMany(STORES.signals, records);
@@ -0,0 +1,168 @@
+import { Candle, SignalData, Timeframe } from '../types';
+import { lastATR } from './indicators';
+import { getInstrument } from './instruments';
+import { STRATEGY_RULES } from './strategy';
+
+/**
+ * LLM SIGNAL VALIDATION
+ *
+ * The model's JSON is checked against the candles it was given before it can
+ * reach the execute button. Anything that shows the model misread the market
+ * rejects the signal: a pair that was not scanned, an entry far from the last
+ * close, levels that describe the opposite trade, a stop that is noise-tight
+ * or absurdly wide. Bookkeeping mistakes are repaired: small entry drift (all
+ * levels shift with the entry), a stop on the wrong side, targets out of order
+ * or outside sensible R multiples (rebuilt at the rules engine's R multiples),
+ * unrounded prices. Estimated profits are always recomputed here.
+ * Distances are measured in ATRs of the signal's pair.
+ */
+
+// Entry within this of the last close is taken as is
+const ENTRY_TOLERANCE_ATR = 0.5;
+// Beyond this the model is quoting some other price
+const MAX_ENTRY_DRIFT_ATR = 3;
+const MIN_STOP_ATR = 0.25;
+const MAX_STOP_ATR = 5;
+const MIN_TP1_R = 1;
+const MAX_TP3_R = 10;
+// Without enough candles for an ATR: 0.2% of price
+const FALLBACK_ATR_FRACTION = 0.002;
+
+const toNumber = (value: unknown) => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : 0;
+};
+
+const TRENDS: SignalData['trend'][] = ['UPTREND', 'DOWNTREND', 'FLAT', 'RANGING'];
+
+const isTrend = (value: unknown): value is SignalData['trend'] => TRENDS.includes(value as SignalData['trend']);
+
+// Coerce the parsed JSON into a SignalData (the schema is a request, not a guarantee).
+// Only known fields are read, so the reply cannot smuggle in a validation or HTF verdict.
+const normalize = (parsed: unknown, timeframe: Timeframe): SignalData => {
+  const raw: Record<string, unknown> = parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+  const { best_pair: pair, trend, signal, reason, status, source } = raw;
+  return {
+    best_pair: typeof pair === 'string' ? pair.toUpperCase().replace(/[^A-Z0-9]/g, '') || 'NONE' : 'NONE',
+    timeframe,
+    trend: isTrend(trend) ? trend : 'RANGING',
+    signal: signal === 'BUY' || signal === 'SELL' ? signal : 'NO_SIGNAL',
+    entry_price: toNumber(raw.entry_price),
+    stop_loss: toNumber(raw.stop_loss),
+    tp1: toNumber(raw.tp1),
+    tp2: toNumber(raw.tp2),
+    tp3: toNumber(raw.tp3),
+    reason: typeof reason === 'string' ? reason : '',
+    strength_score: Math.max(0, Math.min(100, toNumber(raw.strength_score))),
+    lot_size: 0,
+    estimated_profit_tp1: 0,
+    estimated_profit_tp2: 0,
+    estimated_profit_tp3: 0,
+    live_pnl_formula: '',
+    ...((status === 'WAIT' || status === 'ACTIVE') && { status }),
+    ...((source === 'AI' || source === 'RULES') && { source }),
+  };
+};
+
+const reject = (signal: SignalData, issues: string[]): SignalData => ({
+  ...signal,
+  validation: { status: 'REJECTED', issues }
+});
+
+/**
+ * Validate, and where possible repair, a model-produced signal against the
+ * candles that were sent with the prompt.
+ */
+export const validateSignal = (raw: unknown, marketData: Record<string, Candle[]>, timeframe: Timeframe): SignalData => {
+  const signal = normalize(raw, timeframe);
+  if (signal.signal === 'NO_SIGNAL') {
+    return signal.best_pair === 'NONE' || marketData[signal.best_pair] ? signal : { ...signal, best_pair: 'NONE' };
+  }
+
+  const pair = signal.best_pair;
+  const candles = marketData[pair];
+  if (!candles || candles.length === 0) {
+    return reject(signal, [`${pair} was not in the scanned data`]);
+  }
+
+  const { digits, contractSize } = getInstrument(pair);
+  const round = (value: number) => parseFloat(value.toFixed(digits));
+  const fmt = (value: number) => value.toFixed(digits);
+  const close = candles[candles.length - 1].close;
+  const atr = lastATR(candles, STRATEGY_RULES.atrPeriod) || close * FALLBACK_ATR_FRACTION;
+  const inAtr = (distance: number) => (Math.abs(distance) / atr).toFixed(1);
+  const sign = signal.signal === 'BUY' ? 1 : -1;
+  const opposite = signal.signal === 'BUY' ? 'SELL' : 'BUY';
+  const issues: string[] = [];
+
+  let { entry_price: entry, stop_loss: stop } = signal;
+  let targets = [signal.tp1, signal.tp2, signal.tp3];
+
+  // 1. Entry vs the latest candle
+  if (!(entry > 0)) {
+    issues.push(`No entry price; using the last close ${fmt(close)}`);
+    entry = close;
+  } else if (Math.abs(entry - close) > MAX_ENTRY_DRIFT_ATR * atr) {
+    return reject(signal, [`Entry ${fmt(entry)} is ${inAtr(entry - close)} ATR from the last close ${fmt(close)}`]);
+  } else if (Math.abs(entry - close) > ENTRY_TOLERANCE_ATR * atr) {
+    // Keep the model's distances, anchored at the price the trade would actually fill near
+    const shift = close - entry;
+    issues.push(`Entry ${fmt(entry)} was ${inAtr(shift)} ATR from the last close; levels moved to ${fmt(close)}`);
+    entry = close;
+    if (stop > 0) stop += shift;
+    targets = targets.map(tp => tp > 0 ? tp + shift : tp);
+  }
+
+  // 2. Direction: stop behind the entry, targets ahead of it
+  const stopOk = stop > 0 && sign * (entry - stop) > 0;
+  const targetsAhead = targets.filter(tp => tp > 0 && sign * (tp - entry) > 0).length;
+  const targetsBehind = targets.filter(tp => tp > 0 && sign * (tp - entry) < 0).length;
+  if (stop > 0 && !stopOk && targetsBehind > 0 && targetsAhead === 0) {
+    return reject(signal, [`Stop and targets describe a ${opposite}, not a ${signal.signal}`]);
+  }
+  if (!stopOk) {
+    const repaired = entry - sign * atr * STRATEGY_RULES.atrMultiplier;
+    issues.push(`Stop ${stop > 0 ? fmt(stop) : 'missing'} was not ${signal.signal === 'BUY' ? 'below' : 'above'} the entry; set to ${STRATEGY_RULES.atrMultiplier} ATR (${fmt(repaired)})`);
+    stop = repaired;
+  }
+
+  // 3. Risk: a stop inside the noise or beyond any sane swing
+  const risk = Math.abs(entry - stop);
+  if (risk < MIN_STOP_ATR * atr || risk > MAX_STOP_ATR * atr) {
+    return reject({ ...signal, entry_price: round(entry), stop_loss: round(stop) }, [
+      ...issues,
+      `Stop is ${inAtr(risk)} ATR from the entry (allowed ${MIN_STOP_ATR}-${MAX_STOP_ATR})`
+    ]);
+  }
+
+  // 4. Targets: ahead of the entry, in order, at sensible R multiples
+  const rOf = (tp: number) => sign * (tp - entry) / risk;
+  const ordered = targets.every((tp, i) => tp > 0 && rOf(tp) > 0 && (i === 0 || rOf(tp) > rOf(targets[i - 1])));
+  const rangeOk = ordered && rOf(targets[0]) >= MIN_TP1_R && rOf(targets[2]) <= MAX_TP3_R;
+  if (!rangeOk) {
+    const { tp1, tp2, tp3 } = STRATEGY_RULES.riskReward;
+    issues.push(ordered
+      ? `Targets at ${rOf(targets[0]).toFixed(1)}R / ${rOf(targets[2]).toFixed(1)}R (allowed TP1 >= ${MIN_TP1_R}R, TP3 <= ${MAX_TP3_R}R); rebuilt at ${tp1}/${tp2}/${tp3}R`
+      : `Targets missing, behind the entry or out of order; rebuilt at ${tp1}/${tp2}/${tp3}R`);
+    targets = [tp1, tp2, tp3].map(r => entry + sign * risk * r);
+  }
+
+  // 5. Local figures (the dashboard resizes to the account afterwards)
+  const lots = STRATEGY_RULES.defaultLotSize;
+  const exposure = lots * contractSize;
+  const [tp1, tp2, tp3] = targets.map(round);
+  return {
+    ...signal,
+    entry_price: round(entry),
+    stop_loss: round(stop),
+    tp1,
+    tp2,
+    tp3,
+    lot_size: lots,
+    estimated_profit_tp1: parseFloat((Math.abs(tp1 - entry) * exposure).toFixed(2)),
+    estimated_profit_tp2: parseFloat((Math.abs(tp2 - entry) * exposure).toFixed(2)),
+    estimated_profit_tp3: parseFloat((Math.abs(tp3 - entry) * exposure).toFixed(2)),
+    live_pnl_formula: `(current_price - ${round(entry)}) * ${lots} * ${contractSize}${sign < 0 ? ' * -1' : ''}`,
+    validation: issues.length > 0 ? { status: 'REPAIRED', issues } : { status: 'VALID', issues: [] }
+  };
+};
@@ -0,0 +1,64 @@
+import { AccountSettings, SignalData } from '../types';
+import { floorLots, getInstrument } from './instruments';
+import { PriceMap, quoteToAccountRate } from './currency';
+
+/**
+ * RISK BASED POSITION SIZING
+ *
+ * lots = (balance * risk%) / (stop distance * contract size * quote->account rate)
+ *
+ * The quote->account rate comes from utils/currency.ts (EURUSD for a EUR
+ * account trading USDJPY, ...).
+ */
+
+// Account currency value of a price move of `distance` on `lots`
+export const valueOfMove = (pair: string, distance: number, lots: number, accountCurrency: string, prices: PriceMap = {}) =>
+  Math.abs(distance) * lots * getInstrument(pair).contractSize * quoteToAccountRate(pair, accountCurrency, prices);
+
+export const pipValuePerLot = (pair: string, accountCurrency: string, prices: PriceMap = {}) =>
+  valueOfMove(pair, getInstrument(pair).pipSize, 1, accountCurrency, prices);
+
+export const riskAmount = (account: AccountSettings) => (account.balance * account.riskPercent) / 100;
+
+/**
+ * Lots that lose `riskPercent` of the balance if the stop is hit, rounded down
+ * to the instrument's lot step and clamped to [minLot, maxLot].
+ */
+export const calculateLotSize = (
+  pair: string,
+  entry: number,
+  stopLoss: number,
+  account: AccountSettings,
+  prices: PriceMap = {}
+): number => {
+  // The pair's own price converts USDJPY-style pairs for a USD account
+  const { minLot } = getInstrument(pair);
+  const riskPerLot = valueOfMove(pair, entry - stopLoss, 1, account.currency, { ...prices, [pair]: entry });
+  const risk = riskAmount(account);
+  if (!(riskPerLot > 0) || !(risk > 0)) return minLot;
+
+  const lots = floorLots(pair, risk / riskPerLot);
+  return Math.min(floorLots(pair, account.maxLot), Math.max(minLot, lots));
+};
+
+/**
+ * Replace the signal's lot size and estimated TP profits with account based figures.
+ */
+export const applyPositionSizing = (signal: SignalData, account: AccountSettings, prices: PriceMap = {}): SignalData => {
+  if (signal.signal === 'NO_SIGNAL' || !signal.entry_price || !signal.stop_loss) return signal;
+
+  const pair = signal.best_pair;
+  prices = { ...prices, [pair]: signal.entry_price };
+  const lots = calculateLotSize(pair, signal.entry_price, signal.stop_loss, account, prices);
+  const profit = (target: number) => parseFloat(valueOfMove(pair, target - signal.entry_price, lots, account.currency, prices).toFixed(2));
+  const rate = quoteToAccountRate(pair, account.currency, prices);
+
+  return {
+    ...signal,
+    lot_size: lots,
+    estimated_profit_tp1: profit(signal.tp1),
+    estimated_profit_tp2: profit(signal.tp2),
+    estimated_profit_tp3: profit(signal.tp3),
+    live_pnl_formula: `(current_price - ${signal.entry_price}) * ${lots} * ${getInstrument(pair).contractSize}${signal.signal === 'SELL' ? ' * -1' : ''}${rate !== 1 ? ` * ${parseFloat(rate.toFixed(6))}` : ''}`
+  };
+};
@@ -0,0 +1,215 @@
+import { Candle, SignalData, StrategyParams, Timeframe } from '../types';
+import { lastSMA, lastATR } from './indicators';
+import { getInstrument } from './instruments';
+
+/**
+ * DETERMINISTIC STRATEGY ENGINE
+ *
+ * Trend (SMA20/SMA200) + Reversal (Pin/Engulfing or Liquidity Sweep),
+ * ATR based stop and fixed R multiple targets.
+ *
+ * Pure functions only: no network, no randomness. The dashboard uses it as the
+ * offline/rate-limit fallback for the LLM scan and live_scanner.js uses it on
+ * every closed candle, so both always agree on the rules.
+ */
+
+export type PatternBias = 'BULLISH' | 'BEARISH' | 'NEUTRAL';
+export type SweepType = 'BULLISH_SWEEP' | 'BEARISH_SWEEP' | 'NONE';
+
+export const STRATEGY_RULES: StrategyParams & { timeframe: Timeframe; defaultLotSize: number } = {
+  timeframe: 'M5',
+  smaFast: 20,
+  smaSlow: 200,
+  atrPeriod: 14,
+  atrMultiplier: 1.5,
+  sweepLookback: 10,
+  riskReward: { tp1: 1.5, tp2: 2.0, tp3: 3.0 },
+  defaultLotSize: 0.10,
+};
+
+const round = (value: number, digits: number = 5) => parseFloat(value.toFixed(digits));
+
+export const detectPattern = (candles: Candle[]): PatternBias => {
+  const current = candles[candles.length - 1];
+  const prev = candles[candles.length - 2];
+
+  const bodySize = Math.abs(current.close - current.open);
+  const wickTop = current.high - Math.max(current.open, current.close);
+  const wickBottom = Math.min(current.open, current.close) - current.low;
+
+  // Pin Bar / Hammer / Shooting Star
+  const isPinBarBullish = wickBottom > (bodySize * 2) && wickTop < bodySize;
+  const isPinBarBearish = wickTop > (bodySize * 2) && wickBottom < bodySize;
+
+  // Engulfing
+  const isBullishEngulfing = current.close > current.open && prev.close < prev.open && current.close > prev.open && current.open < prev.close;
+  const isBearishEngulfing = current.close < current.open && prev.close > prev.open && current.close < prev.close && current.open > prev.open;
+
+  if (isPinBarBullish || isBullishEngulfing) return 'BULLISH';
+  if (isPinBarBearish || isBearishEngulfing) return 'BEARISH';
+  return 'NEUTRAL';
+};
+
+// Price broke a recent high/low but closed back inside
+export const detectSweep = (candles: Candle[], lookback: number = STRATEGY_RULES.sweepLookback): SweepType => {
+  const current = candles[candles.length - 1];
+  const window = candles.slice(-lookback, -1);
+  const prevHigh = Math.max(...window.map(c => c.high));
+  const prevLow = Math.min(...window.map(c => c.low));
+
+  // Bearish Sweep (Liquidity Grab at Top)
+  if (current.high > prevHigh && current.close < prevHigh) return 'BEARISH_SWEEP';
+  // Bullish Sweep (Liquidity Grab at Low)
+  if (current.low < prevLow && current.close > prevLow) return 'BULLISH_SWEEP';
+  return 'NONE';
+};
+
+export const createNoSignal = (
+  pair: string,
+  reason: string,
+  trend: SignalData['trend'] = 'RANGING',
+  timeframe: Timeframe = STRATEGY_RULES.timeframe
+): SignalData => ({
+  best_pair: pair,
+  timeframe,
+  trend,
+  signal: 'NO_SIGNAL',
+  entry_price: 0,
+  stop_loss: 0,
+  tp1: 0,
+  tp2: 0,
+  tp3: 0,
+  reason,
+  strength_score: 0,
+  lot_size: STRATEGY_RULES.defaultLotSize,
+  estimated_profit_tp1: 0,
+  estimated_profit_tp2: 0,
+  estimated_profit_tp3: 0,
+  live_pnl_formula: '',
+  status: 'WAIT'
+});
+
+// Price/SMA alignment of the latest candle. RANGING when SMA200 is not defined yet.
+export const classifyTrend = (candles: Candle[], params: StrategyParams = STRATEGY_RULES): SignalData['trend'] => {
+  const closes = candles.map(c => c.close);
+  const sma20 = lastSMA(closes, params.smaFast);
+  const sma200 = lastSMA(closes, params.smaSlow);
+  if (sma20 === null || sma200 === null) return 'RANGING';
+
+  const close = closes[closes.length - 1];
+  if (sma20 > sma200 && close > sma200) return 'UPTREND';
+  if (sma20 < sma200 && close < sma200) return 'DOWNTREND';
+  return 'FLAT';
+};
+
+// Candles analyzePair looks at: callers replaying history can pass only this tail
+export const requiredHistory = (params: StrategyParams = STRATEGY_RULES) =>
+  Math.max(params.smaSlow, params.atrPeriod + 1, params.sweepLookback);
+
+/**
+ * Evaluate the latest closed candle of a single pair.
+ * `params` overrides the default rules (backtests and the optimiser).
+ */
+export const analyzePair = (
+  pair: string,
+  candles: Candle[],
+  timeframe: Timeframe = STRATEGY_RULES.timeframe,
+  params: StrategyParams = STRATEGY_RULES
+): SignalData => {
+  if (!candles || candles.length < params.smaSlow) {
+    return createNoSignal(pair, `Not enough data (${candles?.length || 0}/${params.smaSlow})`, 'RANGING', timeframe);
+  }
+
+  const current = candles[candles.length - 1];
+  const atr = lastATR(candles, params.atrPeriod);
+  const pattern = detectPattern(candles);
+  const sweep = detectSweep(candles, params.sweepLookback);
+
+  // 1. TREND FILTER
+  const trend = classifyTrend(candles, params);
+  const isUptrend = trend === 'UPTREND';
+  const isDowntrend = trend === 'DOWNTREND';
+
+  // 2. SIGNAL DETECTION
+  let direction: 'BUY' | 'SELL' | null = null;
+  let trigger = '';
+  if (isUptrend && (pattern === 'BULLISH' || sweep === 'BULLISH_SWEEP')) {
+    direction = 'BUY';
+    trigger = pattern === 'BULLISH' && sweep === 'BULLISH_SWEEP'
+      ? 'Bullish Pattern + Liquidity Sweep'
+      : pattern === 'BULLISH' ? 'Bullish Pattern' : 'Liquidity Sweep';
+  } else if (isDowntrend && (pattern === 'BEARISH' || sweep === 'BEARISH_SWEEP')) {
+    direction = 'SELL';
+    trigger = pattern === 'BEARISH' && sweep === 'BEARISH_SWEEP'
+      ? 'Bearish Pattern + Liquidity Sweep'
+      : pattern === 'BEARISH' ? 'Bearish Pattern' : 'Liquidity Sweep';
+  }
+
+  if (!direction || !atr) {
+    return createNoSignal(pair, 'No valid reversal setup', trend, timeframe);
+  }
+
+  // 3. RISK MANAGEMENT
+  const entry = current.close;
+  const sign = direction === 'BUY' ? 1 : -1;
+  const risk = atr * params.atrMultiplier;
+  const sl = entry - sign * risk;
+  const { tp1, tp2, tp3 } = params.riskReward;
+  const lots = STRATEGY_RULES.defaultLotSize;
+  const { contractSize, digits } = getInstrument(pair);
+  const exposure = lots * contractSize;
+
+  // Confluence of pattern AND sweep scores higher than either alone
+  const score = trigger.includes('+') ? 95 : 85;
+
+  return {
+    best_pair: pair,
+    timeframe,
+    trend,
+    signal: direction,
+    entry_price: round(entry, digits),
+    stop_loss: round(sl, digits),
+    tp1: round(entry + sign * risk * tp1, digits),
+    tp2: round(entry + sign * risk * tp2, digits),
+    tp3: round(entry + sign * risk * tp3, digits),
+    reason: `${trend === 'UPTREND' ? 'Uptrend (Price > SMA200)' : 'Downtrend (Price < SMA200)'} + ${trigger}`,
+    strength_score: score,
+    lot_size: lots,
+    estimated_profit_tp1: round(risk * tp1 * exposure, 2),
+    estimated_profit_tp2: round(risk * tp2 * exposure, 2),
+    estimated_profit_tp3: round(risk * tp3 * exposure, 2),
+    live_pnl_formula: `(current_price - ${round(entry, digits)}) * ${lots} * ${contractSize}${sign < 0 ? ' * -1' : ''}`,
+    status: 'ACTIVE'
+  };
+};
+
+/**
+ * Run the rules over every loaded pair and return the strongest setup.
+ */
+export const scanWithRules = (marketData: Record<string, Candle[]>, timeframe: Timeframe = STRATEGY_RULES.timeframe): SignalData => {
+  let best: SignalData | null = null;
+
+  for (const pair of Object.keys(marketData)) {
+    const result = analyzePair(pair, marketData[pair], timeframe);
+    if (result.signal === 'NO_SIGNAL') continue;
+    if (!best || result.strength_score > best.strength_score) best = result;
+  }
+
+  return best || createNoSignal('NONE', 'Rules engine: no valid setup on any scanned pair', 'RANGING', timeframe);
+};
+
+/**
+ * Attach the higher timeframe trend to a signal. A BUY needs an H1/H4
+ * UPTREND and a SELL a DOWNTREND; anything else is marked not aligned.
+ */
+export const applyHigherTimeframeFilter = (
+  signal: SignalData,
+  htfCandles: Candle[],
+  htf: Timeframe
+): SignalData => {
+  if (signal.signal === 'NO_SIGNAL') return signal;
+
+  const trend = classifyTrend(htfCandles);
+  const aligned = (signal.signal === 'BUY' && trend === 'UPTREND') || (signal.signal === 'SELL' && trend === 'DOWNTREND');
+  return { ...signal, htf_trend: { timeframe: htf, trend, aligned } };
+};
@@ -0,0 +1,58 @@
+import { Candle, Timeframe } from '../types';
+
+export interface TimeframeSpec {
+  seconds: number;
+  label: string;
+  // Native granularities of the upstream feeds
+  oanda: string;
+  binance: string;
+  // CryptoCompare only aggregates minutes/hours; anything coarser than the
+  // fetched series is resampled locally so buckets align to UTC boundaries.
+  cryptoCompare: { endpoint: 'histominute' | 'histohour'; aggregate: number; limit: number };
+}
+
+export const TIMEFRAMES: Record<Timeframe, TimeframeSpec> = {
+  M1: { seconds: 60, label: '1 Minute', oanda: 'M1', binance: '1m', cryptoCompare: { endpoint: 'histominute', aggregate: 1, limit: 250 } },
+  M5: { seconds: 300, label: '5 Minutes', oanda: 'M5', binance: '5m', cryptoCompare: { endpoint: 'histominute', aggregate: 5, limit: 250 } },
+  M15: { seconds: 900, label: '15 Minutes', oanda: 'M15', binance: '15m', cryptoCompare: { endpoint: 'histominute', aggregate: 15, limit: 250 } },
+  H1: { seconds: 3600, label: '1 Hour', oanda: 'H1', binance: '1h', cryptoCompare: { endpoint: 'histohour', aggregate: 1, limit: 250 } },
+  H4: { seconds: 14400, label: '4 Hours', oanda: 'H4', binance: '4h', cryptoCompare: { endpoint: 'histohour', aggregate: 1, limit: 1000 } },
+};
+
+export const TIMEFRAME_LIST = Object.keys(TIMEFRAMES) as Timeframe[];
+
+export const HIGHER_TIMEFRAMES: Timeframe[] = ['H1', 'H4'];
+
+export const isTimeframe = (value: string): value is Timeframe => value in TIMEFRAMES;
+
+// Start of the bucket (unix seconds) a timestamp belongs to
+export const bucketStart = (timeSec: number, timeframe: Timeframe): number => {
+  const size = TIMEFRAMES[timeframe].seconds;
+  return timeSec - (timeSec % size);
+};
+
+/**
+ * Resample a lower timeframe series into `timeframe` buckets.
+ * Input must be sorted ascending; a trailing partial bucket is kept
+ * (it is the forming candle).
+ */
+export const resampleCandles = (candles: Candle[], timeframe: Timeframe): Candle[] => {
+  const result: Candle[] = [];
+  let current: Candle | null = null;
+
+  for (const c of candles) {
+    const start = bucketStart(c.time, timeframe);
+    if (!current || current.time !== start) {
+      if (current) result.push(current);
+      current = { time: start, open: c.open, high: c.high, low: c.low, close: c.close, spread: c.spread };
+    } else {
+      current.high = Math.max(current.high, c.high);
+      current.low = Math.min(current.low, c.low);
+      current.close = c.close;
+      current.spread = c.spread; // Spread at the close
+    }
+  }
+  if (current) result.push(current);
+
+  return result;
+};
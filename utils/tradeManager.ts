@@ -0,0 +1,116 @@
+import { Candle, ExitReason, Position, TradeManagementSettings } from '../types';
+import { lastATR } from './indicators';
+import { roundLots } from './instruments';
+import { candleSpread, closeSideOffset } from './pricing';
+
+/**
+ * AUTOMATIC POSITION MANAGEMENT
+ *
+ * Walks the candles received since the last check and applies, in order:
+ * 1. Stop (initial, break-even or trailing) - if a candle touches both the
+ *    stop and a target we assume the stop filled first (pessimistic).
+ *    Levels trigger on the closing side: the bid for a BUY, the ask for a SELL.
+ * 2. Partial exits at TP1/TP2 (percent of the initial size), TP3 closes the rest.
+ * 3. Move-to-break-even after TP1 and the optional ATR trailing stop.
+ */
+
+export interface ExitLeg {
+  reason: ExitReason;
+  price: number;
+  lots: number;
+  time: number; // ms
+}
+
+export interface ManageResult {
+  position: Position;
+  exits: ExitLeg[];
+  closed: boolean;
+}
+
+const stopReason = (position: Position): ExitReason =>
+  position.stopType === 'BREAKEVEN' ? 'BREAKEVEN' : position.stopType === 'TRAILING' ? 'TRAILING' : 'SL';
+
+export const managePosition = (
+  position: Position,
+  candles: Candle[],
+  settings: TradeManagementSettings
+): ManageResult => {
+  // Positions without levels (manual or restored legacy trades) are not managed
+  if (!position.stopLoss || !position.tp1 || candles.length === 0) {
+    return { position, exits: [], closed: false };
+  }
+
+  const p: Position = { ...position };
+  const exits: ExitLeg[] = [];
+  const isBuy = p.type === 'BUY';
+  const openSec = Math.floor(p.openTime / 1000);
+  const targets = [p.tp1, p.tp2, p.tp3];
+
+  // Candle the trade was opened in: only its close is known to be after entry
+  const entryIndex = candles.reduce((idx, c, i) => c.time <= openSec ? i : idx, 0);
+  const startTime = Math.max(p.lastCheckedTime ?? 0, candles[entryIndex].time);
+
+  for (let i = entryIndex; i < candles.length; i++) {
+    const c = candles[i];
+    if (c.time < startTime) continue;
+
+    const isEntryCandle = c.time <= openSec;
+    const offset = closeSideOffset(p.type, candleSpread(p.pair, c));
+    const high = (isEntryCandle ? c.close : c.high) + offset;
+    const low = (isEntryCandle ? c.close : c.low) + offset;
+    const time = i === candles.length - 1 ? Date.now() : c.time * 1000;
+
+    // 1. Stop
+    if (isBuy ? low <= p.stopLoss : high >= p.stopLoss) {
+      exits.push({ reason: stopReason(p), price: p.stopLoss, lots: p.lotSize, time });
+      p.lotSize = 0;
+      p.lastCheckedTime = c.time;
+      return { position: p, exits, closed: true };
+    }
+
+    // 2. Targets
+    while (p.targetsHit < 3) {
+      const tp = targets[p.targetsHit];
+      if (!tp || !(isBuy ? high >= tp : low <= tp)) break;
+
+      const isFinal = p.targetsHit === 2;
+      const pct = p.targetsHit === 0 ? settings.partialClosePercent.tp1 : settings.partialClosePercent.tp2;
+      const lots = isFinal ? p.lotSize : Math.min(p.lotSize, roundLots(p.pair, p.initialLotSize * pct / 100));
+
+      p.targetsHit++;
+      if (lots > 0) {
+        exits.push({ reason: `TP${p.targetsHit}` as ExitReason, price: tp, lots, time });
+        p.lotSize = roundLots(p.pair, p.lotSize - lots);
+      }
+
+      // 3a. Break-even after TP1
+      if (p.targetsHit === 1 && settings.moveToBreakEven && (isBuy ? p.stopLoss < p.entryPrice : p.stopLoss > p.entryPrice)) {
+        p.stopLoss = p.entryPrice;
+        p.stopType = 'BREAKEVEN';
+      }
+
+      if (p.lotSize <= 0) {
+        p.lastCheckedTime = c.time;
+        return { position: p, exits, closed: true };
+      }
+    }
+
+    // 3b. ATR trailing stop (only ever tightens)
+    if (settings.trailingStop.enabled) {
+      const atr = lastATR(candles.slice(0, i + 1), settings.trailingStop.atrPeriod);
+      if (atr) {
+        const trail = isBuy
+          ? c.close - atr * settings.trailingStop.atrMultiplier
+          : c.close + atr * settings.trailingStop.atrMultiplier;
+        if (isBuy ? trail > p.stopLoss : trail < p.stopLoss) {
+          p.stopLoss = trail;
+          p.stopType = 'TRAILING';
+        }
+      }
+    }
+
+    p.lastCheckedTime = c.time;
+  }
+
+  return { position: p, exits, closed: false };
+};
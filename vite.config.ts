@@ -11,8 +11,20 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Analysis backends (services/analysis). Leave GEMINI_API_KEY unset to keep it out of the bundle and enter it in the app instead.
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || ''),
+        'process.env.LLM_API_BASE': JSON.stringify(env.LLM_API_BASE || ''),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY || ''),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL || ''),
+        // Market data providers (point the *_API_BASE values at provider_stub_server.js for local testing)
+        'process.env.CRYPTOCOMPARE_API_BASE': JSON.stringify(env.CRYPTOCOMPARE_API_BASE || ''),
+        'process.env.OANDA_API_BASE': JSON.stringify(env.OANDA_API_BASE || ''),
+        'process.env.BINANCE_API_BASE': JSON.stringify(env.BINANCE_API_BASE || ''),
+        // MetaTrader 5 bridge (see MT5_BRIDGE.md)
+        'process.env.MT5_BRIDGE_URL': JSON.stringify(env.MT5_BRIDGE_URL || ''),
+        'process.env.MT5_SYMBOL_SUFFIX': JSON.stringify(env.MT5_SYMBOL_SUFFIX || ''),
+        // Live ticks pushed by tick_relay.js (see README "Live Tick Relay")
+        'process.env.TICK_RELAY_URL': JSON.stringify(env.TICK_RELAY_URL || '')
       },
       resolve: {
         alias: {
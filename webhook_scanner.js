@@ -28,15 +28,25 @@
  * 
  * Note: If SMA values are not provided, the scanner will rely on the "trend" field if present,
  * but for "Premium" validation, sending SMAs is recommended.
+ *
+ * Position sizing: lot_size risks RISK_PERCENT of ACCOUNT_BALANCE (ACCOUNT_CURRENCY)
+ * at the stop, capped at MAX_LOT. Run with: npm run webhook
  */
 
-const http = require('http');
+import http from 'http';
+import { calculateLotSize, valueOfMove } from './utils/sizing';
+import { DEFAULT_ACCOUNT } from './utils/settings';
+import { pairFromSymbol, roundPrice } from './utils/instruments';
 
 // --- CONFIGURATION ---
 const PORT = process.env.PORT || 3000;
-const DEFAULT_LOT_SIZE = parseFloat(process.env.LOT_SIZE || '0.10');
-const RISK_PERCENT = parseFloat(process.env.RISK_PERCENT || '1.0');
 const TIMEFRAME = "M5";
+const ACCOUNT = {
+  balance: parseFloat(process.env.ACCOUNT_BALANCE || String(DEFAULT_ACCOUNT.balance)),
+  currency: (process.env.ACCOUNT_CURRENCY || DEFAULT_ACCOUNT.currency).toUpperCase(),
+  riskPercent: parseFloat(process.env.RISK_PERCENT || String(DEFAULT_ACCOUNT.riskPercent)),
+  maxLot: parseFloat(process.env.MAX_LOT || String(DEFAULT_ACCOUNT.maxLot)),
+};
 
 // --- LOGIC ENGINE ---
 class SignalEngine {
@@ -124,21 +134,32 @@ class SignalEngine {
     const tp2 = direction === "BUY" ? entryPrice + (risk * 2.0) : entryPrice - (risk * 2.0);
     const tp3 = direction === "BUY" ? entryPrice + (risk * 3.0) : entryPrice - (risk * 3.0);
 
-    // 6. Strength Score (Mock calculation based on confirmation)
+    // 6. Position Size (risk % of the account at the stop)
+    // TradingView tickers may carry an exchange prefix (OANDA:EURUSD, BINANCE:BTCUSDT)
+    const pair = pairFromSymbol(String(data.symbol).split(':').pop());
+    const lotSize = calculateLotSize(pair, entryPrice, stopLoss, ACCOUNT);
+    const profitAt = (target) => Number(valueOfMove(pair, target - entryPrice, lotSize, ACCOUNT.currency, { [pair]: entryPrice }).toFixed(2));
+
+    // 7. Strength Score (Mock calculation based on confirmation)
     // If SMAs aligned + Reversal Signal present -> High Score
     const strengthScore = (sma20 && sma200) ? 90 : 80;
 
-    // 7. Construct Final JSON
+    // 8. Construct Final JSON
     return {
       symbol: data.symbol,
       timeframe: TIMEFRAME,
       trend: trend,
       signal: direction,
-      entry_price: Number(entryPrice.toFixed(5)),
-      stop_loss: Number(stopLoss.toFixed(5)),
-      tp1: Number(tp1.toFixed(5)),
-      tp2: Number(tp2.toFixed(5)),
-      tp3: Number(tp3.toFixed(5)),
+      entry_price: roundPrice(pair, entryPrice),
+      stop_loss: roundPrice(pair, stopLoss),
+      tp1: roundPrice(pair, tp1),
+      tp2: roundPrice(pair, tp2),
+      tp3: roundPrice(pair, tp3),
+      lot_size: lotSize,
+      estimated_profit_tp1: profitAt(tp1),
+      estimated_profit_tp2: profitAt(tp2),
+      estimated_profit_tp3: profitAt(tp3),
+      account_currency: ACCOUNT.currency,
       strength_score: strengthScore,
       reason: `${trend} confirmed + ${data.pattern_name || 'Reversal Pattern'} + Risk ${risk.toFixed(5)}`
     };
@@ -192,6 +213,7 @@ server.listen(PORT, () => {
   Endpoint: POST /webhook
   Target Timeframe: M5
   Strategy: SMA20/200 Trend + Reversal
+  Risk: ${ACCOUNT.riskPercent}% of ${ACCOUNT.balance} ${ACCOUNT.currency} (max ${ACCOUNT.maxLot} lots)
 ===========================================================
 `);
 });